@@ -0,0 +1,1022 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import { Deployer } from './deploy';
+import * as Crypto from 'crypto';
+import * as deploy_contracts from './contracts';
+import * as deploy_globals from './globals';
+import * as deploy_helpers from './helpers';
+import * as deploy_workspace from './workspace';
+import { DeployHost } from './host';
+import * as Http from 'http';
+import * as i18 from './i18';
+import * as Moment from 'moment';
+import * as Path from 'path';
+import * as URL from 'url';
+
+
+/**
+ * A deployment, which has been started via API.
+ */
+export interface ApiDeployment {
+    /**
+     * The result code of 'Deployer.deployWorkspace()' (if available).
+     */
+    code?: number;
+    /**
+     * The time (ISO 8601) the deployment has been finished.
+     */
+    end?: string;
+    /**
+     * The error message (if failed).
+     */
+    error?: string;
+    /**
+     * The list of files, which could not be deployed.
+     */
+    failedFiles?: string[];
+    /**
+     * The list of files (if files have been deployed).
+     */
+    files?: string[];
+    /**
+     * The ID.
+     */
+    id: string;
+    /**
+     * The name of the package (if a package has been deployed).
+     */
+    package?: string;
+    /**
+     * The time (ISO 8601) the deployment has been started.
+     */
+    start: string;
+    /**
+     * The current state.
+     */
+    state: ApiDeploymentState;
+    /**
+     * The names of the targets.
+     */
+    targets: string[];
+}
+
+/**
+ * Possible states of an API deployment.
+ */
+export type ApiDeploymentState = 'canceled' | 'failed' | 'noFiles' | 'running' | 'succeeded';
+
+/**
+ * A request context.
+ */
+interface ApiRequestContext {
+    /**
+     * The path of the request.
+     */
+    path: string;
+    /**
+     * The request.
+     */
+    request: Http.IncomingMessage;
+    /**
+     * The response.
+     */
+    response: Http.ServerResponse;
+}
+
+/**
+ * An error with a HTTP status code.
+ */
+interface ApiError extends Error {
+    /**
+     * The HTTP status code.
+     */
+    statusCode?: number;
+}
+
+
+/**
+ * The result code of 'Deployer.deployWorkspace()', if the deployment has been canceled.
+ */
+const CODE_CANCELED = 7;
+/**
+ * The result code of 'Deployer.deployWorkspace()', if there are no files to deploy.
+ */
+const CODE_NO_FILES = 8;
+const MAX_BODY_SIZE = 1024 * 1024;
+const MAX_DEPLOYMENTS = 100;
+/**
+ * The global events, which are sent by '/api/events', and the functions,
+ * which convert their arguments to data that can be sent.
+ * 
+ * Targets are always sent by name, so no settings like passwords are leaked.
+ */
+const STREAMED_EVENTS: { [event: string]: (...args: any[]) => any } = {
+    [deploy_contracts.EVENT_CANCEL_DEPLOY]: () => null,
+    [deploy_contracts.EVENT_CANCEL_PULL]: () => null,
+    [deploy_contracts.EVENT_CONFIG_RELOADED]: () => null,
+    [deploy_contracts.EVENT_DEPLOYFILES]: (files: string | string[], targets: deploy_contracts.DeployTargetList) => {
+        return {
+            files: deploy_helpers.asArray(files).map(f => deploy_helpers.toStringSafe(f)),
+            targets: toTargetNames(targets),
+        };
+    },
+    [deploy_contracts.EVENT_DEPLOYFILES_COMPLETE]: toDeployFilesData,
+    [deploy_contracts.EVENT_DEPLOYFILES_ERROR]: toDeployFilesData,
+    [deploy_contracts.EVENT_DEPLOYFILES_SUCCESS]: toDeployFilesData,
+    [deploy_contracts.EVENT_DEPLOYONCHANGE_DISABLE]: () => null,
+    [deploy_contracts.EVENT_DEPLOYONCHANGE_ENABLE]: () => null,
+    [deploy_contracts.EVENT_DEPLOYONCHANGE_TOGGLE]: () => null,
+    [deploy_contracts.EVENT_DEPLOYONSAVE_DISABLE]: () => null,
+    [deploy_contracts.EVENT_DEPLOYONSAVE_ENABLE]: () => null,
+    [deploy_contracts.EVENT_DEPLOYONSAVE_TOGGLE]: () => null,
+    [deploy_contracts.EVENT_FILE_COMPLETED]: (args: deploy_contracts.FileCompletedEventArguments) => {
+        return {
+            canceled: deploy_helpers.toBooleanSafe(args.canceled),
+            error: toErrorString(args.error),
+            file: deploy_helpers.toStringSafe(args.file),
+            target: toTargetNames(args.target)[0],
+            type: args.type,
+        };
+    },
+    [deploy_contracts.EVENT_HOST_CHANGED]: (host: DeployHost) => {
+        return {
+            isRunning: !!host && host.isRunning,
+        };
+    },
+    [deploy_contracts.EVENT_SYNCWHENOPEN_DISABLE]: () => null,
+    [deploy_contracts.EVENT_SYNCWHENOPEN_ENABLE]: () => null,
+    [deploy_contracts.EVENT_SYNCWHENOPEN_TOGGLE]: () => null,
+    [deploy_contracts.EVENT_WORKSPACE_CHANGED]: () => {
+        return {
+            rootPath: deploy_workspace.getRootPath(),
+        };
+    },
+};
+
+
+/**
+ * Creates an error with a HTTP status code.
+ * 
+ * @param {number} statusCode The status code.
+ * @param {string} message The message.
+ * 
+ * @return {ApiError} The new error.
+ */
+function createError(statusCode: number, message: string): ApiError {
+    let err: ApiError = new Error(message);
+    err.statusCode = statusCode;
+
+    return err;
+}
+
+/**
+ * Reads the body of a request as JSON object.
+ * 
+ * @param {Http.IncomingMessage} request The request.
+ * 
+ * @return {Promise<any>} The promise with the object.
+ */
+function readJSONBody(request: Http.IncomingMessage): Promise<any> {
+    return new Promise<any>((resolve, reject) => {
+        let isCompleted = false;
+        let completed = (err: any, obj?: any) => {
+            if (isCompleted) {
+                return;
+            }
+            isCompleted = true;
+
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(obj);
+            }
+        };
+
+        let chunks: Buffer[] = [];
+        let size = 0;
+
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                completed(createError(413, i18.t('api.errors.bodyTooBig', MAX_BODY_SIZE)));
+                return;
+            }
+
+            chunks.push(chunk);
+        });
+
+        request.once('end', () => {
+            try {
+                let json = Buffer.concat(chunks).toString('utf8');
+
+                completed(null,
+                          deploy_helpers.isEmptyString(json) ? {} : JSON.parse(json));
+            }
+            catch (e) {
+                completed(createError(400, i18.t('api.errors.invalidBody', e)));
+            }
+        });
+
+        request.once('error', (err) => {
+            completed(err);
+        });
+    });
+}
+
+/**
+ * Converts the arguments of a 'deploy files' event to data that can be sent.
+ * 
+ * @param {deploy_contracts.DeployFilesEventArguments} args The arguments.
+ * 
+ * @return {any} The data.
+ */
+function toDeployFilesData(args: deploy_contracts.DeployFilesEventArguments): any {
+    args = args || {};
+
+    return {
+        error: toErrorString(args.error),
+        files: deploy_helpers.asArray(args.files).map(f => deploy_helpers.toStringSafe(f)),
+        targets: toTargetNames(args.targets),
+    };
+}
+
+/**
+ * Converts an error to a string.
+ * 
+ * @param {any} err The error.
+ * 
+ * @return {string} The error as string or (null) if no error.
+ */
+function toErrorString(err: any): string {
+    if (deploy_helpers.isNullOrUndefined(err)) {
+        return null;
+    }
+
+    return deploy_helpers.toStringSafe(err && err.message ? err.message : err);
+}
+
+/**
+ * Returns the names of one or more targets.
+ * 
+ * @param {deploy_contracts.DeployTargetList} targets The targets.
+ * 
+ * @return {string[]} The names.
+ */
+function toTargetNames(targets: deploy_contracts.DeployTargetList): string[] {
+    return deploy_helpers.asArray<string | deploy_contracts.DeployTarget>(targets).filter(t => t).map(t => {
+        return deploy_helpers.toStringSafe('object' === typeof t ? t.name : t);
+    });
+}
+
+/**
+ * Returns the full path of a file inside the workspace.
+ * 
+ * @param {string} file The path of the file, relative to the workspace.
+ * 
+ * @return {string|false} The full path or (false) if the file is outside of the workspace.
+ */
+export function toWorkspaceFile(file: string): string | false {
+    let rootPath = Path.resolve(deploy_workspace.getRootPath());
+
+    let fullPath = file;
+    if (!Path.isAbsolute(fullPath)) {
+        fullPath = Path.join(rootPath, fullPath);
+    }
+    fullPath = Path.resolve(fullPath);
+
+    let relativePath = Path.relative(rootPath, fullPath);
+    if ('' === relativePath ||
+        Path.isAbsolute(relativePath) ||
+        '..' === relativePath.split(Path.sep)[0]) {
+        return false;
+    }
+
+    return fullPath;
+}
+
+/**
+ * Sends an object as JSON.
+ * 
+ * @param {Http.ServerResponse} response The response.
+ * @param {number} statusCode The status code.
+ * @param {any} obj The object to send.
+ */
+function sendJSON(response: Http.ServerResponse, statusCode: number, obj: any) {
+    response.writeHead(statusCode, {
+        'Content-type': 'application/json; charset=utf-8',
+    });
+
+    response.end(new Buffer(JSON.stringify(obj), 'utf8'));
+}
+
+
+/**
+ * A local HTTP API, which controls the deployer.
+ */
+export class ApiHost {
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: Deployer;
+    /**
+     * Stores the list of deployments.
+     */
+    protected _deployments: ApiDeployment[] = [];
+    /**
+     * Stores the ID of the next deployment.
+     */
+    protected _nextDeploymentId = 0;
+    /**
+     * Stores the current server instance.
+     */
+    protected _server: Http.Server;
+    /**
+     * Stores the responses, which are streamed.
+     */
+    protected _streams: Http.ServerResponse[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Deployer} deployer The underlying deployer.
+     */
+    constructor(deployer: Deployer) {
+        this._DEPLOYER = deployer;
+    }
+
+    /**
+     * Checks if a request is authorized.
+     * 
+     * @param {Http.IncomingMessage} request The request.
+     * @param {string} token The expected token.
+     * 
+     * @return {boolean} Is authorized or not.
+     */
+    protected checkToken(request: Http.IncomingMessage, token: string): boolean {
+        let authorization = deploy_helpers.toStringSafe(request.headers['authorization']).trim();
+
+        let match = /^(Bearer)(\s+)(.*)$/i.exec(authorization);
+        if (!match) {
+            return false;
+        }
+
+        let hash = (str: string) => {
+            return Crypto.createHash('sha256')
+                         .update(new Buffer(str, 'utf8'))
+                         .digest();
+        };
+
+        return Crypto.timingSafeEqual(hash(match[3].trim()),
+                                      hash(token));
+    }
+
+    /**
+     * Gets the current configuration.
+     */
+    public get config(): deploy_contracts.DeployConfiguration {
+        return this.deployer.config;
+    }
+
+    /**
+     * Deploys files.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected deployFiles(ctx: ApiRequestContext) {
+        let me = this;
+
+        readJSONBody(ctx.request).then((body) => {
+            body = body || {};
+
+            let files = deploy_helpers.asArray<string>(body.files)
+                                      .map(x => deploy_helpers.toStringSafe(x))
+                                      .filter(x => !deploy_helpers.isEmptyString(x));
+            if (files.length < 1) {
+                throw createError(400, i18.t('api.errors.noFiles'));
+            }
+
+            // only files of the workspace
+            let filesToDeploy = files.map(f => {
+                let fullPath = toWorkspaceFile(f);
+                if (false === fullPath) {
+                    throw createError(403, i18.t('api.errors.fileOutsideWorkspace', f));
+                }
+
+                return fullPath;
+            });
+
+            let targets = me.findTargets(body.targets);
+            if (targets.length < 1) {
+                throw createError(400, i18.t('api.errors.noTargets'));
+            }
+
+            let deployment = me.startDeployment(targets, (sym) => {
+                return deploy_helpers.deployFiles(filesToDeploy, targets, sym).then((args) => {
+                    if (args && args.error) {
+                        throw args.error;
+                    }
+                });
+            });
+            deployment.files = files;
+
+            sendJSON(ctx.response, 202, deployment);
+        }).catch((err) => {
+            me.sendError(ctx, err);
+        });
+    }
+
+    /**
+     * Deploys a package.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     * @param {string} packageName The name of the package.
+     */
+    protected deployPackage(ctx: ApiRequestContext, packageName: string) {
+        let me = this;
+
+        readJSONBody(ctx.request).then((body) => {
+            body = body || {};
+
+            packageName = deploy_helpers.normalizeString(packageName);
+
+            let pkg = me.deployer.getPackages().filter(p => {
+                return deploy_helpers.normalizeString(p.name) === packageName;
+            })[0];
+            if (!pkg) {
+                throw createError(404, i18.t('api.errors.packageNotFound', packageName));
+            }
+
+            let targets = me.deployer.getTargetsFromPackage(pkg);
+            let hasOwnTargets = targets.length > 0;
+            if (!hasOwnTargets) {
+                // package has no explicit targets
+                // so we need them from request
+                targets = me.findTargets(body.targets);
+            }
+            if (targets.length < 1) {
+                throw createError(400, i18.t('api.errors.noTargets'));
+            }
+
+            let deployment = me.startDeployment(targets, (sym) => {
+                if (hasOwnTargets) {
+                    return me.deployer.deployWorkspace(pkg, undefined, false, sym);
+                }
+
+                // deploy one target after another
+                // to avoid the target selection
+                let nextTarget: (index: number) => Promise<number>;
+                nextTarget = (index) => {
+                    if (index >= targets.length) {
+                        return Promise.resolve(0);
+                    }
+
+                    return me.deployer.deployWorkspace(pkg, targets[index], false, sym).then((code) => {
+                        if (0 !== code) {
+                            return code;
+                        }
+
+                        return nextTarget(index + 1);
+                    });
+                };
+
+                return nextTarget(0);
+            });
+            deployment.package = deploy_helpers.toStringSafe(pkg.name);
+
+            sendJSON(ctx.response, 202, deployment);
+        }).catch((err) => {
+            me.sendError(ctx, err);
+        });
+    }
+
+    /**
+     * Gets the underlying deployer.
+     */
+    public get deployer(): Deployer {
+        return this._DEPLOYER;
+    }
+
+    /**
+     * Returns the targets by names.
+     * 
+     * @param {any} names One or more target names.
+     * 
+     * @return {deploy_contracts.DeployTarget[]} The found targets.
+     */
+    protected findTargets(names: any): deploy_contracts.DeployTarget[] {
+        let allTargets = this.deployer.getTargets();
+
+        return deploy_helpers.asArray<string>(names).filter(x => {
+            return !deploy_helpers.isEmptyString(x);
+        }).map(x => {
+            let targetName = deploy_helpers.normalizeString(x);
+
+            let target = allTargets.filter(t => deploy_helpers.normalizeString(t.name) === targetName)[0];
+            if (!target) {
+                throw createError(404, i18.t('api.errors.targetNotFound', x));
+            }
+
+            return target;
+        });
+    }
+
+    /**
+     * Handles a request.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected handleRequest(ctx: ApiRequestContext) {
+        let me = this;
+
+        let method = deploy_helpers.normalizeString(ctx.request.method);
+
+        let match: RegExpExecArray;
+        if ('get' === method) {
+            if ('/api/packages' === ctx.path) {
+                me.sendPackages(ctx);
+                return;
+            }
+
+            if ('/api/targets' === ctx.path) {
+                me.sendTargets(ctx);
+                return;
+            }
+
+            if ('/api/deployments' === ctx.path) {
+                sendJSON(ctx.response, 200, me._deployments);
+                return;
+            }
+
+            match = /^\/api\/deployments\/([^\/]+)$/.exec(ctx.path);
+            if (match) {
+                let id = decodeURIComponent(match[1]);
+
+                let deployment = me._deployments.filter(d => d.id === id)[0];
+                if (deployment) {
+                    sendJSON(ctx.response, 200, deployment);
+                }
+                else {
+                    me.sendError(ctx, createError(404, i18.t('api.errors.deploymentNotFound', id)));
+                }
+                return;
+            }
+
+            if ('/api/events' === ctx.path) {
+                me.sendEvents(ctx);
+                return;
+            }
+
+            if ('/api/log' === ctx.path) {
+                me.sendLog(ctx);
+                return;
+            }
+        }
+        else if ('post' === method) {
+            match = /^\/api\/packages\/([^\/]+)\/deploy$/.exec(ctx.path);
+            if (match) {
+                me.deployPackage(ctx, decodeURIComponent(match[1]));
+                return;
+            }
+
+            if ('/api/files/deploy' === ctx.path) {
+                me.deployFiles(ctx);
+                return;
+            }
+        }
+
+        me.sendError(ctx, createError(404, i18.t('api.errors.notFound', method.toUpperCase(), ctx.path)));
+    }
+
+    /**
+     * Gets if the API is running or not.
+     */
+    public get isRunning(): boolean {
+        return !!this._server;
+    }
+
+    /**
+     * Logs a message.
+     * 
+     * @param {any} msg The message to log.
+     * 
+     * @chainable
+     */
+    public log(msg: any): ApiHost {
+        this.deployer.log(msg);
+        return this;
+    }
+
+    /**
+     * Sends an error.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     * @param {ApiError} err The error.
+     */
+    protected sendError(ctx: ApiRequestContext, err: ApiError) {
+        let statusCode = 500;
+        if (err && err.statusCode) {
+            statusCode = err.statusCode;
+        }
+        else {
+            this.log(i18.t('errors.withCategory', 'ApiHost.sendError()', err));
+        }
+
+        try {
+            sendJSON(ctx.response, statusCode, {
+                error: toErrorString(err),
+            });
+        }
+        catch (e) {
+            this.log(i18.t('errors.withCategory', 'ApiHost.sendError(2)', e));
+        }
+    }
+
+    /**
+     * Streams the global events of the extension as
+     * Server-Sent Events or newline-delimited JSON.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected sendEvents(ctx: ApiRequestContext) {
+        let me = this;
+
+        let format = deploy_helpers.normalizeString(URL.parse(ctx.request.url, true).query['format']);
+        if ('' === format) {
+            let accept = deploy_helpers.normalizeString(ctx.request.headers['accept']);
+
+            format = accept.indexOf('text/event-stream') > -1 ? 'sse' : 'ndjson';
+        }
+
+        if (['ndjson', 'sse'].indexOf(format) < 0) {
+            me.sendError(ctx, createError(400, i18.t('api.errors.unknownFormat', format)));
+            return;
+        }
+
+        let listeners: { [event: string]: (...args: any[]) => void } = {};
+        Object.keys(STREAMED_EVENTS).forEach(event => {
+            let toData = STREAMED_EVENTS[event];
+
+            listeners[event] = function() {
+                try {
+                    let json = JSON.stringify({
+                        data: toData.apply(null, arguments),
+                        event: event,
+                        time: Moment.utc().toISOString(),
+                    });
+
+                    let chunk: string;
+                    if ('sse' === format) {
+                        chunk = `event: ${event}\ndata: ${json}\n\n`;
+                    }
+                    else {
+                        chunk = json + '\n';
+                    }
+
+                    ctx.response.write(new Buffer(chunk, 'utf8'));
+                }
+                catch (e) {
+                    me.log(i18.t('errors.withCategory', 'ApiHost.sendEvents()', e));
+                }
+            };
+        });
+
+        ctx.response.writeHead(200, {
+            'Cache-Control': 'no-cache',
+            'Content-type': 'sse' === format ? 'text/event-stream; charset=utf-8'
+                                             : 'application/x-ndjson; charset=utf-8',
+        });
+
+        me.startStream(ctx, listeners);
+    }
+
+    /**
+     * Streams the output of the extension.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected sendLog(ctx: ApiRequestContext) {
+        let me = this;
+
+        let listener = (value: string) => {
+            try {
+                ctx.response.write(new Buffer(deploy_helpers.toStringSafe(value), 'utf8'));
+            }
+            catch (e) {
+                me.log(i18.t('errors.withCategory', 'ApiHost.sendLog()', e));
+            }
+        };
+
+        ctx.response.writeHead(200, {
+            'Cache-Control': 'no-cache',
+            'Content-type': 'text/plain; charset=utf-8',
+        });
+
+        me.startStream(ctx, {
+            [deploy_contracts.EVENT_OUTPUT]: listener,
+        });
+    }
+
+    /**
+     * Sends the list of packages.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected sendPackages(ctx: ApiRequestContext) {
+        let me = this;
+
+        sendJSON(ctx.response, 200, me.deployer.getPackages().map(p => {
+            return {
+                description: deploy_helpers.toStringSafe(p.description),
+                isHidden: deploy_helpers.toBooleanSafe(p.isHidden),
+                name: deploy_helpers.toStringSafe(p.name),
+                targets: me.deployer
+                           .getTargetsFromPackage(p)
+                           .map(t => deploy_helpers.toStringSafe(t.name)),
+            };
+        }));
+    }
+
+    /**
+     * Sends the list of targets.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     */
+    protected sendTargets(ctx: ApiRequestContext) {
+        sendJSON(ctx.response, 200, this.deployer.getTargets().map(t => {
+            // do not send settings like passwords
+            return {
+                description: deploy_helpers.toStringSafe(t.description),
+                isHidden: deploy_helpers.toBooleanSafe(t.isHidden),
+                name: deploy_helpers.toStringSafe(t.name),
+                type: deploy_helpers.normalizeString(t.type),
+            };
+        }));
+    }
+
+    /**
+     * Starts the API.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public start(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let startCompleted = (err?: any) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(me);
+                }
+            };
+
+            if (me._server) {
+                startCompleted();  // already started
+                return;
+            }
+
+            try {
+                let cfg = me.config;
+                let settings = cfg.api || <deploy_contracts.ApiSettings>{};
+
+                let token = deploy_helpers.toStringSafe(settings.token);
+                if ('' === token.trim()) {
+                    startCompleted(new Error(i18.t('api.errors.noToken')));
+                    return;
+                }
+
+                let address = deploy_helpers.toStringSafe(settings.address).trim();
+                if ('' === address) {
+                    address = deploy_contracts.DEFAULT_HOST;
+                }
+
+                let port = parseInt(deploy_helpers.toStringSafe(settings.port,
+                                                                '' + deploy_contracts.DEFAULT_API_PORT));
+
+                let server = Http.createServer((request, response) => {
+                    let ctx: ApiRequestContext = {
+                        path: URL.parse(request.url).pathname,
+                        request: request,
+                        response: response,
+                    };
+
+                    try {
+                        if (!me.checkToken(request, token)) {
+                            me.sendError(ctx, createError(401, i18.t('api.errors.unauthorized')));
+                            return;
+                        }
+
+                        me.handleRequest(ctx);
+                    }
+                    catch (e) {
+                        me.sendError(ctx, e);
+                    }
+                });
+
+                server.once('error', (err) => {
+                    if (!me._server) {
+                        startCompleted(err);
+                    }
+                });
+
+                server.listen(port, address, () => {
+                    me._server = server;
+
+                    startCompleted();
+                });
+            }
+            catch (e) {
+                startCompleted(e);
+            }
+        });
+    }
+
+    /**
+     * Starts a deployment.
+     * 
+     * @param {deploy_contracts.DeployTarget[]} targets The targets.
+     * @param {Function} action The action that does the deployment
+     *                          with the symbol that identifies it in global events.
+     * 
+     * @return {ApiDeployment} The new deployment.
+     */
+    protected startDeployment(targets: deploy_contracts.DeployTarget[],
+                              action: (sym: symbol) => Promise<number | void>): ApiDeployment {
+        let me = this;
+
+        let deployment: ApiDeployment = {
+            id: '' + (++me._nextDeploymentId),
+            start: Moment.utc().toISOString(),
+            state: 'running',
+            targets: targets.map(t => deploy_helpers.toStringSafe(t.name)),
+        };
+
+        me._deployments.push(deployment);
+        while (me._deployments.length > MAX_DEPLOYMENTS) {
+            me._deployments.shift();
+        }
+
+        let sym = Symbol('api.deployment.' + deployment.id);
+
+        // collect the files of that deployment,
+        // which could not be deployed
+        let failedFiles: string[] = [];
+        let fileCompletedListener = (e: deploy_contracts.FileCompletedEventArguments) => {
+            if ('deploy' !== e.type || !e.error || sym !== e.symbol) {
+                return;
+            }
+
+            let relativePath = deploy_helpers.toRelativePath(e.file);
+            failedFiles.push(false === relativePath ? e.file : relativePath);
+        };
+
+        deploy_globals.EVENTS.on(deploy_contracts.EVENT_FILE_COMPLETED,
+                                 fileCompletedListener);
+
+        let completed = (err: any, code?: number | void) => {
+            deploy_globals.EVENTS.removeListener(deploy_contracts.EVENT_FILE_COMPLETED,
+                                                 fileCompletedListener);
+
+            deployment.end = Moment.utc().toISOString();
+
+            if ('number' === typeof code) {
+                deployment.code = code;
+            }
+
+            if (failedFiles.length > 0) {
+                deployment.failedFiles = failedFiles;
+            }
+
+            if (err) {
+                deployment.error = toErrorString(err);
+                deployment.state = 'failed';
+            }
+            else if (CODE_CANCELED === deployment.code) {
+                deployment.state = 'canceled';
+            }
+            else if (CODE_NO_FILES === deployment.code) {
+                deployment.state = 'noFiles';
+            }
+            else if (deployment.code || failedFiles.length > 0) {
+                deployment.state = 'failed';
+            }
+            else {
+                deployment.state = 'succeeded';
+            }
+        };
+
+        try {
+            action(sym).then((code) => {
+                completed(null, code);
+            }).catch((err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+
+        return deployment;
+    }
+
+    /**
+     * Registers listeners for global events, which write to
+     * a response until the connection is closed or the API is stopped.
+     * 
+     * @param {ApiRequestContext} ctx The request context.
+     * @param {Object} listeners The listeners by event names.
+     */
+    protected startStream(ctx: ApiRequestContext, listeners: { [event: string]: (...args: any[]) => void }) {
+        let me = this;
+
+        // keep connection open
+        ctx.request.socket.setTimeout(0);
+
+        me._streams.push(ctx.response);
+        Object.keys(listeners).forEach(event => {
+            deploy_globals.EVENTS.on(event, listeners[event]);
+        });
+
+        let streamClosed = () => {
+            Object.keys(listeners).forEach(event => {
+                deploy_globals.EVENTS.removeListener(event, listeners[event]);
+            });
+
+            me._streams = me._streams.filter(s => s !== ctx.response);
+        };
+
+        ctx.request.once('close', streamClosed);
+        ctx.response.once('finish', streamClosed);
+    }
+
+    /**
+     * Stops the API.
+     * 
+     * @return {Promise<any>} The promise.
+     */
+    public stop(): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let stopCompleted = (err?: any) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(me);
+                }
+            };
+
+            let srv = me._server;
+            if (!srv) {
+                stopCompleted();  // already stopped / not running
+                return;
+            }
+
+            // end open streams, otherwise
+            // the server will not close
+            me._streams.forEach(s => {
+                try {
+                    s.end();
+                }
+                catch (e) {
+                    me.log(i18.t('errors.withCategory', 'ApiHost.stop()', e));
+                }
+            });
+            me._streams = [];
+
+            srv.close((err) => {
+                if (!err) {
+                    me._server = null;
+                }
+
+                stopCompleted(err);
+            });
+        });
+    }
+}
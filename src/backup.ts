@@ -0,0 +1,525 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as deploy_objects from './objects';
+import * as deploy_plugins from './plugins';
+import * as deploy_workspace from './workspace';
+import * as FS from 'fs';
+import * as FSExtra from 'fs-extra';
+import * as i18 from './i18';
+import * as Moment from 'moment';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as UUID from 'uuid';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * A backup of the remote versions of deployed files.
+ */
+export interface Backup {
+    /**
+     * The ID of the deployment, the backup belongs to.
+     */
+    deployment?: string;
+    /**
+     * The backuped files.
+     */
+    files: BackupFile[];
+    /**
+     * The ID of the backup.
+     */
+    id: string;
+    /**
+     * The name of the target.
+     */
+    target: string;
+    /**
+     * The time the backup was created (ISO string / UTC).
+     */
+    time: string;
+    /**
+     * The type of the target.
+     */
+    type: string;
+}
+
+/**
+ * A backuped file.
+ */
+export interface BackupFile {
+    /**
+     * Indicates if the file existed on the target or not.
+     */
+    existed: boolean;
+    /**
+     * The path of the file, relative to the workspace.
+     */
+    file: string;
+}
+
+interface BackupToRestore {
+    backup: Backup;
+    plugins: deploy_contracts.DeployPluginWithContext[];
+    target: deploy_contracts.DeployTarget;
+}
+
+const BACKUP_FILE = 'backup.json';
+const FILES_DIR = 'files';
+const ID_FORMAT = 'YYYYMMDDHHmmssSSS';
+const MAX_BACKUPS = 10;
+
+
+/**
+ * Stores the current remote versions of files in the local backup store,
+ * before they are replaced by a deployment.
+ * 
+ * @param {string[]} files The files to deploy.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * @param {deploy_contracts.DeployPlugin} plugin The plugin that deploys the files.
+ * @param {boolean} [incremental] Deploy changed files only or not. If not defined, the setting of the target is used.
+ * @param {string} [deployment] The ID of the deployment, if it deploys to more than one target.
+ * 
+ * @returns {Promise<Backup>} The promise with the backup (if created).
+ */
+export async function backupFiles(files: string[], target: deploy_contracts.DeployTarget,
+                                  plugin: deploy_contracts.DeployPlugin,
+                                  incremental?: boolean, deployment?: string): Promise<Backup> {
+    let me: vs_deploy.Deployer = this;
+
+    if (!deploy_helpers.toBooleanSafe(target.backup)) {
+        return null;  // not enabled
+    }
+
+    if (!deploy_helpers.toBooleanSafe(plugin.canPull) || !plugin.downloadFile) {
+        return null;  // cannot download remote versions
+    }
+
+    // only files of the workspace
+    files = deploy_helpers.asArray(files).filter(f => !deploy_helpers.isEmptyString(f) &&
+                                                      false !== deploy_helpers.toRelativePath(f));
+
+    if (deploy_helpers.toBooleanSafe(incremental, deploy_helpers.toBooleanSafe(target.incremental))) {
+        // only the files, which will be uploaded
+        let manifest = await (new deploy_objects.DeployTargetManifest(target)).load();
+
+        files = await manifest.filterChangedFiles(files);
+    }
+
+    if (files.length < 1) {
+        return null;
+    }
+
+    let id = createId();
+
+    let backup: Backup = {
+        deployment: deploy_helpers.isEmptyString(deployment) ? id : deploy_helpers.toStringSafe(deployment),
+        files: [],
+        id: id,
+        target: deploy_helpers.toStringSafe(target.name),
+        time: Moment().utc().toISOString(),
+        type: deploy_helpers.parseTargetType(target.type),
+    };
+
+    let backupDir = Path.join(getBackupRoot.apply(me, []), backup.id);
+
+    me.outputChannel.appendLine('');
+    me.outputChannel.appendLine(i18.t('deploy.backup.creating', files.length, target.name));
+
+    let addFile = async (file: string, info: deploy_contracts.FileInfo, data: Buffer) => {
+        let relativePath = <string>deploy_helpers.toRelativePath(file);
+
+        let existed = true;
+        if (info) {
+            existed = deploy_helpers.toBooleanSafe(info.exists);
+        }
+
+        if (existed) {
+            await outputFile(Path.join(backupDir, FILES_DIR, relativePath),
+                             data);
+        }
+
+        backup.files.push({
+            existed: existed,
+            file: relativePath,
+        });
+    };
+
+    let fileFailed = (file: string, err: any) => {
+        me.outputChannel.appendLine(i18.t('deploy.backup.fileFailed',
+                                          deploy_helpers.toRelativePath(file), err));
+    };
+
+    if (plugin.downloadWorkspace) {
+        // all files with one connection
+        await Promise.resolve(plugin.downloadWorkspace(files, target, {
+            onFileDownloaded: async (sender, e) => {
+                if (e.error) {
+                    fileFailed(e.file, e.error);
+                    return;
+                }
+
+                try {
+                    await addFile(e.file, e.info, e.data);
+                }
+                catch (err) {
+                    fileFailed(e.file, err);
+                }
+            },
+        }));
+    }
+    else {
+        for (let i = 0; i < files.length; i++) {
+            let file = files[i];
+
+            try {
+                let info: deploy_contracts.FileInfo;
+                if (deploy_helpers.toBooleanSafe(plugin.canGetFileInfo) && plugin.getFileInfo) {
+                    info = await Promise.resolve(plugin.getFileInfo(file, target));
+                }
+
+                let data: Buffer;
+                if (!info || deploy_helpers.toBooleanSafe(info.exists)) {
+                    data = await Promise.resolve(plugin.downloadFile(file, target));
+                }
+
+                await addFile(file, info, data);
+            }
+            catch (e) {
+                fileFailed(file, e);
+            }
+        }
+    }
+
+    if (backup.files.length < 1) {
+        return null;
+    }
+
+    await outputFile(Path.join(backupDir, BACKUP_FILE),
+                     new Buffer(JSON.stringify(backup, null, 2), 'utf8'));
+
+    try {
+        await removeOldBackups.apply(me, []);
+    }
+    catch (e) {
+        me.log(i18.t('errors.withCategory', 'backup.backupFiles(1)', e));
+    }
+
+    return backup;
+}
+
+/**
+ * Creates a new (unique) ID for a backup or a deployment.
+ * 
+ * @return {string} The new ID.
+ */
+export function createId(): string {
+    // the time prefix keeps the backups sortable
+    let suffix = deploy_helpers.replaceAllStrings(deploy_helpers.toStringSafe(UUID.v4()), '-', '')
+                               .substr(0, 8);
+
+    return `${Moment().utc().format(ID_FORMAT)}-${suffix}`;
+}
+
+function getBackupRoot(): string {
+    let me: vs_deploy.Deployer = this;
+
+    let storagePath = me.context.storagePath;
+    if (deploy_helpers.isEmptyString(storagePath)) {
+        storagePath = Path.join(OS.tmpdir(), 'vs-deploy');
+    }
+
+    return Path.join(storagePath, 'backups');
+}
+
+function getBackupIds(): string[] {
+    let me: vs_deploy.Deployer = this;
+
+    let backupRoot = getBackupRoot.apply(me, []);
+    if (!FS.existsSync(backupRoot)) {
+        return [];
+    }
+
+    return FS.readdirSync(backupRoot).filter(x => {
+        return FS.existsSync(Path.join(backupRoot, x, BACKUP_FILE));
+    }).sort();
+}
+
+/**
+ * Returns the backups of the last deployment.
+ * 
+ * @returns {Backup[]} The backups (one per target).
+ */
+export function getLastBackups(): Backup[] {
+    let me: vs_deploy.Deployer = this;
+
+    let backupRoot: string = getBackupRoot.apply(me, []);
+
+    let backups: Backup[] = getBackupIds.apply(me, []).map((id: string) => {
+        let backup: Backup = JSON.parse(FS.readFileSync(Path.join(backupRoot, id, BACKUP_FILE)).toString('utf8'));
+        if (deploy_helpers.isEmptyString(backup.deployment)) {
+            backup.deployment = backup.id;  // older backup
+        }
+
+        return backup;
+    });
+    if (backups.length < 1) {
+        return [];
+    }
+
+    let lastDeployment = backups[backups.length - 1].deployment;
+
+    return backups.filter(x => x.deployment === lastDeployment);
+}
+
+function outputFile(file: string, data: Buffer): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        FSExtra.outputFile(file, data, (err) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve();
+            }
+        });
+    });
+}
+
+function removeBackup(id: string): Promise<void> {
+    let me: vs_deploy.Deployer = this;
+
+    return new Promise<void>((resolve, reject) => {
+        FSExtra.remove(Path.join(getBackupRoot.apply(me, []), id), (err) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve();
+            }
+        });
+    });
+}
+
+async function removeOldBackups() {
+    let me: vs_deploy.Deployer = this;
+
+    let ids: string[] = getBackupIds.apply(me, []);
+    while (ids.length > MAX_BACKUPS) {
+        await removeBackup.apply(me, [ ids.shift() ]);
+    }
+}
+
+/**
+ * Restores the previous remote versions of the files of the last deployment.
+ */
+export async function rollback() {
+    let me: vs_deploy.Deployer = this;
+
+    let backups: Backup[] = getLastBackups.apply(me, []);
+    if (backups.length < 1) {
+        vscode.window.showInformationMessage(i18.t('deploy.rollback.noBackup'));
+        return;
+    }
+
+    // a deployment to several targets
+    // has one backup per target
+    let backupsToRestore: BackupToRestore[] = [];
+    for (let i = 0; i < backups.length; i++) {
+        let backup = backups[i];
+
+        let target = me.getTargets().filter(t => {
+            return deploy_helpers.normalizeString(t.name) === deploy_helpers.normalizeString(backup.target) &&
+                   deploy_helpers.parseTargetType(t.type) === backup.type;
+        })[0];
+        if (!target) {
+            vscode.window.showWarningMessage(i18.t('deploy.rollback.targetNotFound', backup.target));
+            return;
+        }
+
+        let matchingPlugins = me.pluginsWithContextes.filter(x => {
+            return x.plugin.__type === backup.type && x.plugin.deployWorkspace;
+        });
+        if (matchingPlugins.length < 1) {
+            vscode.window.showWarningMessage(i18.t('deploy.noPluginsForType', backup.type));
+            return;
+        }
+
+        backupsToRestore.push({
+            backup: backup,
+            plugins: matchingPlugins,
+            target: target,
+        });
+    }
+
+    let fileCount = 0;
+    backups.forEach(x => fileCount += x.files.length);
+
+    let targetNames = backups.map(x => x.target)
+                             .join(', ');
+
+    // ask before overwrite files on target
+    let startRollback = await new Promise<boolean>((resolve) => {
+        // [BUTTON] yes
+        let yesBtn: deploy_contracts.PopupButton = new deploy_objects.SimplePopupButton();
+        yesBtn.action = () => {
+            resolve(true);
+        };
+        yesBtn.title = i18.t('yes');
+
+        vscode.window
+              .showWarningMessage(i18.t('deploy.rollback.question', fileCount, targetNames,
+                                        Moment(backups[0].time).format(i18.t('format.dateTime'))),
+                                  yesBtn)
+              .then((item) => {
+                        if (!item || !item.action) {
+                            resolve(false);
+                            return;
+                        }
+
+                        item.action();
+                    }, () => {
+                        resolve(false);
+                    });
+    });
+    if (!startRollback) {
+        return;
+    }
+
+    let failed = 0;
+    for (let i = 0; i < backupsToRestore.length; i++) {
+        try {
+            failed += await restoreBackup.apply(me, [ backupsToRestore[i] ]);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(i18.t('deploy.rollback.failed', e));
+            return;
+        }
+    }
+
+    if (failed > 0) {
+        vscode.window.showErrorMessage(i18.t('deploy.rollback.someFailed', failed, fileCount));
+        return;
+    }
+
+    // the previous deployment
+    // is the "last" one now
+    for (let i = 0; i < backups.length; i++) {
+        await removeBackup.apply(me, [ backups[i].id ]);
+    }
+
+    me.outputChannel.appendLine(i18.t('deploy.rollback.finished'));
+    vscode.window.showInformationMessage(i18.t('deploy.rollback.succeeded', fileCount, targetNames));
+}
+
+async function restoreBackup(toRestore: BackupToRestore): Promise<number> {
+    let me: vs_deploy.Deployer = this;
+
+    let backup = toRestore.backup;
+    let target = toRestore.target;
+
+    let filesDir = Path.join(getBackupRoot.apply(me, []), backup.id, FILES_DIR);
+
+    // files that existed before
+    // are uploaded from backup store
+    let filesToRestore = backup.files.filter(x => x.existed)
+                                     .map(x => Path.join(filesDir, x.file));
+
+    // files that did not exist before
+    // are removed from target
+    let filesToRemove = backup.files.filter(x => !x.existed)
+                                    .map(x => Path.join(deploy_workspace.getRootPath(), x.file));
+
+    me.outputChannel.appendLine('');
+    me.outputChannel.appendLine(i18.t('deploy.rollback.running', backup.files.length, backup.target));
+
+    let failed = 0;
+    for (let i = 0; i < toRestore.plugins.length; i++) {
+        let pwc = toRestore.plugins[i];
+        let contextToUse = deploy_plugins.createPluginContext(pwc.context);
+
+        try {
+            if (filesToRestore.length > 0) {
+                await new Promise<any>((resolve, reject) => {
+                    // no new release and no manifest
+                    // with paths of the backup store
+                    pwc.plugin.deployWorkspace(filesToRestore, target, {
+                        baseDirectory: filesDir,
+                        context: contextToUse,
+                        restore: true,
+
+                        onCompleted: (sender, e) => {
+                            if (e.error) {
+                                reject(e.error);
+                            }
+                            else {
+                                resolve();
+                            }
+                        },
+
+                        onFileCompleted: (sender, e) => {
+                            if (e.error) {
+                                ++failed;
+
+                                me.outputChannel.appendLine(i18.t('deploy.rollback.fileFailed',
+                                                                  Path.relative(filesDir, e.file), e.error));
+                            }
+                        },
+                    });
+                });
+            }
+
+            if (deploy_helpers.toBooleanSafe(pwc.plugin.canRemove) && pwc.plugin.removeFile) {
+                for (let j = 0; j < filesToRemove.length; j++) {
+                    let file = filesToRemove[j];
+
+                    await new Promise<any>((resolve) => {
+                        pwc.plugin.removeFile(file, target, {
+                            context: contextToUse,
+
+                            onCompleted: (sender, e) => {
+                                if (e.error) {
+                                    ++failed;
+
+                                    me.outputChannel.appendLine(i18.t('deploy.rollback.fileFailed',
+                                                                      file, e.error));
+                                }
+
+                                resolve();
+                            },
+                        });
+                    });
+                }
+            }
+        }
+        finally {
+            deploy_helpers.tryDispose(contextToUse);
+        }
+    }
+
+    return failed;
+}
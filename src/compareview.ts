@@ -0,0 +1,307 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_diff from './diff';
+import * as deploy_explorer from './explorer';
+import * as deploy_globals from './globals';
+import * as deploy_helpers from './helpers';
+import * as i18 from './i18';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * An item of the compare view.
+ */
+export interface CompareViewItem {
+    /**
+     * The child items (for 'group' items).
+     */
+    children?: CompareViewItem[];
+    /**
+     * The underlying entry of the report.
+     */
+    entry?: deploy_diff.CompareEntry;
+    /**
+     * The label.
+     */
+    label: string;
+}
+
+
+/**
+ * The ID of the view.
+ */
+export const VIEW_ID = 'vsDeployCompare';
+const CONTEXT_HAS_REPORT = 'vsDeployHasCompareReport';
+const GROUPS: deploy_diff.CompareGroup[] = [
+    'onlyLocal',
+    'onlyRemote',
+    'newerRemote',
+    'newerLocal',
+    'sameSizeDifferentContent',
+];
+
+
+/**
+ * A tree data provider, which shows the current workspace compare report.
+ */
+export class CompareTreeDataProvider implements vscode.TreeDataProvider<CompareViewItem>, vscode.Disposable {
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: vs_deploy.Deployer;
+    /**
+     * Stores the event emitter for changes.
+     */
+    protected readonly _ON_DID_CHANGE_TREE_DATA = new vscode.EventEmitter<CompareViewItem>();
+    /**
+     * Stores the listener for changes of the report.
+     */
+    protected readonly _REPORT_CHANGED_LISTENER: (report: deploy_diff.CompareReport) => void;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vs_deploy.Deployer} deployer The underlying deployer.
+     */
+    constructor(deployer: vs_deploy.Deployer) {
+        this._DEPLOYER = deployer;
+
+        this._REPORT_CHANGED_LISTENER = (report) => {
+            this.refresh();
+        };
+
+        deploy_globals.EVENTS.on(deploy_contracts.EVENT_COMPARE_REPORT_CHANGED,
+                                 this._REPORT_CHANGED_LISTENER);
+    }
+
+    /**
+     * Gets the underlying deployer.
+     */
+    public get deployer(): vs_deploy.Deployer {
+        return this._DEPLOYER;
+    }
+
+    /**
+     * Deploys the file of an item.
+     * 
+     * @param {CompareViewItem} item The item.
+     */
+    public async deploy(item: CompareViewItem) {
+        if (!item || !item.entry || 'onlyRemote' === item.entry.group) {
+            return;
+        }
+
+        let report = this.deployer.compareReport;
+        if (!report) {
+            return;
+        }
+
+        let canceled = await this.deployer.deployFileTo(item.entry.file, report.target);
+        if (!canceled) {
+            this.removeEntry(item.entry);
+        }
+    }
+
+    /**
+     * Opens a side-by-side diff for an item.
+     * 
+     * @param {CompareViewItem} item The item.
+     */
+    public async diff(item: CompareViewItem) {
+        if (!item || !item.entry) {
+            return;
+        }
+
+        let report = this.deployer.compareReport;
+        if (!report) {
+            return;
+        }
+
+        let entry = item.entry;
+
+        if ('onlyLocal' === entry.group) {
+            await vscode.window.showTextDocument(vscode.Uri.file(entry.file));
+            return;
+        }
+
+        let remoteUri = deploy_explorer.toRemoteUri(entry.file, report.target);
+
+        if ('onlyRemote' === entry.group) {
+            await vscode.window.showTextDocument(remoteUri);
+            return;
+        }
+
+        let relativePath = deploy_helpers.toRelativePath(entry.file);
+        if (false === relativePath) {
+            relativePath = entry.file;
+        }
+
+        await vscode.commands.executeCommand('vscode.diff',
+                                             remoteUri, vscode.Uri.file(entry.file),
+                                             `[vs-deploy] Diff '${relativePath}' (${deploy_helpers.toStringSafe(report.target.name).trim()})`);
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        deploy_globals.EVENTS.removeListener(deploy_contracts.EVENT_COMPARE_REPORT_CHANGED,
+                                             this._REPORT_CHANGED_LISTENER);
+
+        deploy_helpers.tryDispose(this._ON_DID_CHANGE_TREE_DATA);
+    }
+
+    /** @inheritdoc */
+    public getChildren(element?: CompareViewItem): CompareViewItem[] {
+        if (element) {
+            return element.children || [];
+        }
+
+        let report = this.deployer.compareReport;
+        if (!report) {
+            return [];
+        }
+
+        return GROUPS.filter(g => 'onlyRemote' !== g || report.hasRemoteFiles).map(g => {
+            let children = report.entries.filter(e => e.group === g).map(e => {
+                let relativePath = deploy_helpers.toRelativePath(e.file);
+                if (false === relativePath) {
+                    relativePath = e.file;
+                }
+
+                return {
+                    entry: e,
+                    label: relativePath,
+                };
+            });
+
+            return {
+                children: children,
+                label: i18.t(`compare.workspace.groups.${g}`, children.length),
+            };
+        });
+    }
+
+    /** @inheritdoc */
+    public getTreeItem(element: CompareViewItem): vscode.TreeItem {
+        let children = element.children || [];
+
+        let item = new vscode.TreeItem(element.label,
+                                       children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded
+                                                           : vscode.TreeItemCollapsibleState.None);
+
+        let entry = element.entry;
+        if (entry) {
+            item.contextValue = entry.group;
+            item.command = {
+                arguments: [ element ],
+                command: 'extension.deploy.compareWorkspace.diff',
+                title: '',
+            };
+
+            let description = i18.t('compare.workspace.details',
+                                    toDetails(entry.left), toDetails(entry.right));
+
+            item.tooltip = description;
+
+            // 'description' is not available in older versions
+            (<any>item).description = description;
+        }
+        else {
+            item.contextValue = 'group';
+        }
+
+        return item;
+    }
+
+    /** @inheritdoc */
+    public get onDidChangeTreeData(): vscode.Event<CompareViewItem> {
+        return this._ON_DID_CHANGE_TREE_DATA.event;
+    }
+
+    /**
+     * Pulls the file of an item.
+     * 
+     * @param {CompareViewItem} item The item.
+     */
+    public async pull(item: CompareViewItem) {
+        if (!item || !item.entry || 'onlyLocal' === item.entry.group) {
+            return;
+        }
+
+        let report = this.deployer.compareReport;
+        if (!report) {
+            return;
+        }
+
+        let canceled = await this.deployer.pullWorkspaceFrom([ item.entry.file ], report.target);
+        if (!canceled) {
+            this.removeEntry(item.entry);
+        }
+    }
+
+    /**
+     * Refreshes the view.
+     */
+    public refresh() {
+        vscode.commands.executeCommand('setContext', CONTEXT_HAS_REPORT,
+                                       !!this.deployer.compareReport);
+
+        this._ON_DID_CHANGE_TREE_DATA.fire();
+    }
+
+    /**
+     * Removes an entry from the current report.
+     * 
+     * @param {deploy_diff.CompareEntry} entry The entry to remove.
+     */
+    protected removeEntry(entry: deploy_diff.CompareEntry) {
+        let report = this.deployer.compareReport;
+        if (!report) {
+            return;
+        }
+
+        let index = report.entries.indexOf(entry);
+        if (index > -1) {
+            report.entries.splice(index, 1);
+
+            this.refresh();
+        }
+    }
+}
+
+
+function toDetails(info: deploy_diff.FileInfo): string {
+    if (!info || !info.exists) {
+        return '-';
+    }
+
+    let modifyTime = info.modifyTime ? info.modifyTime.format(i18.t('format.dateTime'))
+                                     : '?';
+
+    return i18.t('compare.workspace.fileDetails',
+                 isNaN(info.size) ? '?' : info.size, modifyTime);
+}
@@ -27,6 +27,14 @@ import * as Moment from 'moment';
 import * as vscode from 'vscode';
 
 
+/**
+ * Default TCP port of the local HTTP API.
+ */
+export const DEFAULT_API_PORT = 23981;
+/**
+ * Default UDP port, a host answers discovery requests on.
+ */
+export const DEFAULT_DISCOVERY_PORT = 23980;
 /**
  * Default host address.
  */
@@ -56,6 +64,11 @@ export const EVENT_CANCEL_DEPLOY = 'deploy.cancel';
  * Name of the event to cancel a pull.
  */
 export const EVENT_CANCEL_PULL = 'pull.cancel';
+/**
+ * Name of the event that is raised when
+ * the workspace compare report has been changed.
+ */
+export const EVENT_COMPARE_REPORT_CHANGED = 'deploy.compare.report.changed';
 /**
  * Name of the event that is raised when
  * configuration has been reloaded.
@@ -110,6 +123,21 @@ export const EVENT_DEPLOYONSAVE_ENABLE = 'deploy.deployOnSave.enable';
  * feature should be toggled.
  */
 export const EVENT_DEPLOYONSAVE_TOGGLE = 'deploy.deployOnSave.toggle';
+/**
+ * Name of the event that is raised when a single file
+ * of a deployment or pull has been completed.
+ */
+export const EVENT_FILE_COMPLETED = 'deploy.file.completed';
+/**
+ * Name of the event that is raised when the state
+ * of the deploy host has been changed.
+ */
+export const EVENT_HOST_CHANGED = 'deploy.host.changed';
+/**
+ * Name of the event that is raised when a value
+ * has been written to the output channel.
+ */
+export const EVENT_OUTPUT = 'deploy.output';
 /**
  * Name of the event that is raised when 'sync when open'
  * feature should be disabled.
@@ -231,6 +259,28 @@ export interface Applyable {
     applyValuesTo?: { [prop: string]: any };
 }
 
+/**
+ * Settings of the local HTTP API.
+ */
+export interface ApiSettings {
+    /**
+     * The address to bind to. Default: 127.0.0.1
+     */
+    address?: string;
+    /**
+     * Start the API or not.
+     */
+    enabled?: boolean;
+    /**
+     * The TCP port.
+     */
+    port?: number;
+    /**
+     * The token, clients have to send as 'Bearer' in the 'Authorization' header.
+     */
+    token: string;
+}
+
 /**
  * Describes an event handler that is raised BEFORE a file starts to be deployed.
  * 
@@ -495,6 +545,10 @@ export interface DeployConfiguration extends vscode.WorkspaceConfiguration {
      * Always synchronize a local file with a newer one when using 'sync when open' in a package.
      */
     alwaysSyncIfNewer?: boolean;
+    /**
+     * Settings of the local HTTP API.
+     */
+    api?: ApiSettings;
     /**
      * Select the workspace by active text editor automatically or not.
      */
@@ -593,6 +647,10 @@ export interface DeployConfiguration extends vscode.WorkspaceConfiguration {
      * The time in seconds the result item in the status bar should disapear.
      */
     hideDeployResultInStatusBarAfter?: number;
+    /**
+     * Write deployments and pulls to the history or not.
+     */
+    history?: boolean;
     /**
      * Deploy host settings.
      */
@@ -601,10 +659,19 @@ export interface DeployConfiguration extends vscode.WorkspaceConfiguration {
          * Run on startup or not.
          */
         autoStart?: boolean;
+        /**
+         * List of known clients. If defined, only these clients
+         * are allowed to send files.
+         */
+        clients?: HostClient[];
         /**
          * The root directory where files should be stored.
          */
         dir?: string;
+        /**
+         * Answer discovery requests of clients in the network or not.
+         */
+        discovery?: boolean | HostDiscoverySettings;
         /**
          * Maximum size of a JSON message.
          */
@@ -631,10 +698,19 @@ export interface DeployConfiguration extends vscode.WorkspaceConfiguration {
          * The TCP port on that the host should listen.
          */
         port?: number;
+        /**
+         * One or more operations to invoke after all files
+         * of a session have been received.
+         */
+        received?: DeployOperation | DeployOperation[];
         /**
          * Show popup if host has been started or stopped successfully.
          */
         showPopupOnSuccess?: boolean;
+        /**
+         * TLS settings. If defined, the host only accepts encrypted connections.
+         */
+        tls?: HostTlsSettings;
         /**
          * The path to a module that UNtransforms received file data.
          * 
@@ -980,6 +1056,14 @@ export enum DeployDirection {
      * Get information about a file.
      */
     FileInfo = 4,
+    /**
+     * Remove from target
+     */
+    Remove = 5,
+    /**
+     * List a directory of a target
+     */
+    List = 6,
 }
 
 /**
@@ -1002,6 +1086,14 @@ export interface DeployFileEventArguments extends DeployEventArguments {
     target: DeployTarget;
 }
 
+/**
+ * Describes an event handler for a file of a deployment.
+ * 
+ * @param {any} sender The sending object.
+ * @param {DeployFileEventArguments} e The arguments for the event.
+ */
+export type DeployFileEventHandler = (sender: any, e: DeployFileEventArguments) => void;
+
 /**
  * Additional options for a 'DeployFileCallback'.
  */
@@ -1014,6 +1106,10 @@ export interface DeployFileOptions {
      * The custom deploy context.
      */
     context?: DeployContext;
+    /**
+     * Only report what would be deployed (dry run) and do not touch the target.
+     */
+    dryRun?: boolean;
     /**
      * The "before deploy" callback.
      */
@@ -1102,6 +1198,29 @@ export interface DeployHttpOperation extends DeployOperation {
     username?: string;
 }
 
+/**
+ * An entry of a manifest of a target, which stores
+ * information about a file that has been deployed.
+ */
+export interface DeployManifestEntry {
+    /**
+     * The time (ISO 8601, UTC) the file has been deployed.
+     */
+    deployTime: string;
+    /**
+     * The hash (SHA-256) of the content.
+     */
+    hash: string;
+    /**
+     * The path of the file, relative to the workspace.
+     */
+    path: string;
+    /**
+     * The size of the file.
+     */
+    size: number;
+}
+
 /**
  * 'Deploy on change' file filter.
  */
@@ -1168,6 +1287,10 @@ export enum DeployOperationKind {
      * After successful deployment.
      */
     After = 1,
+    /**
+     * After a deploy host has received all files of a session.
+     */
+    Received = 2,
 }
 
 /**
@@ -1221,6 +1344,23 @@ export interface DeployPackage extends Applyable, CanLoadFrom, ConditionalItem,
      * Files to include.
      */
     files?: string[];
+    /**
+     * Deploy only files, which have been changed in git.
+     * 
+     * (true) means uncommitted changes only, a string is the commit, tag or branch
+     * to compare with.
+     */
+    gitChanges?: boolean | string | DeployPackageGitChanges;
+    /**
+     * Deploy only files, which have been changed since their last deployment
+     * to a target (s. manifest of the target), or not.
+     */
+    incremental?: boolean;
+    /**
+     * Remove files from a target, which have been deployed before, but do not exist
+     * anymore or do not match the filters of the package anymore ("mirror" mode).
+     */
+    mirror?: boolean;
     /**
      * The name.
      */
@@ -1290,6 +1430,21 @@ export interface DeployPackageButton {
     tooltip?: string;
 }
 
+/**
+ * Settings for deploying files, which have been changed in git.
+ */
+export interface DeployPackageGitChanges {
+    /**
+     * The commit, tag or branch to compare with. For a branch, the changes
+     * since the merge base with the current HEAD are used.
+     */
+    since?: string;
+    /**
+     * Include uncommitted (and untracked) changes or not. Default: (true)
+     */
+    uncommitted?: boolean;
+}
+
 /**
  * A quick pick for a package.
  */
@@ -1333,10 +1488,22 @@ export interface DeployPlugin {
      * Indicates if plugin is able to get information about remote files or not.
      */
     canGetFileInfo?: boolean;
+    /**
+     * Indicates if plugin can list the content of a remote directory or not.
+     */
+    canList?: boolean;
     /**
      * Indicates if plugin can pull files or not.
      */
     canPull?: boolean;
+    /**
+     * Indicates if plugin can remove files from a target or not.
+     */
+    canRemove?: boolean;
+    /**
+     * Indicates if plugin can switch a target back to a previous release or not.
+     */
+    canRollbackRelease?: boolean;
     /**
      * Compares a local file with a remote one.
      * 
@@ -1365,6 +1532,14 @@ export interface DeployPlugin {
      * @param {DeployFileOptions} [opts] Additional options.
      */
     deployFile?: (file: string, target: DeployTarget, opts?: DeployFileOptions) => void;
+    /**
+     * Deploys a file and retries it by the retry policy of the target (s. 'retry').
+     * 
+     * @param {string} file The path of the local file.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     */
+    deployFileWithRetry?: (file: string, target: DeployTarget, opts?: DeployFileOptions) => void;
     /**
      * Deploys files of a workspace.
      * 
@@ -1387,6 +1562,17 @@ export interface DeployPlugin {
      * @return {Promise<Buffer>} The promise.
      */
     downloadFile?: (file: string, target: DeployTarget, opts?: DeployFileOptions) => Promise<Buffer> | Buffer;
+    /**
+     * Downloads files of the workspace from target, by using one context / connection
+     * for all of them.
+     * 
+     * @param {string[]} files The files to download.
+     * @param {DeployTarget} target The source from where to download the files from.
+     * @param {DownloadWorkspaceOptions} [opts] Additional options.
+     * 
+     * @return {PromiseLike<any>} The promise.
+     */
+    downloadWorkspace?: (files: string[], target: DeployTarget, opts?: DownloadWorkspaceOptions) => PromiseLike<any>;
     /**
      * Gets information about a file from target.
      * 
@@ -1403,6 +1589,16 @@ export interface DeployPlugin {
      * @return {DeployPluginInfo} The plugin info.
      */
     info?: () => DeployPluginInfo;
+    /**
+     * Lists the content of a directory on a target.
+     * 
+     * @param {string} dir The path of the local directory.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     * 
+     * @return {PromiseLike<DirectoryEntry[]>|DirectoryEntry[]} The entries.
+     */
+    listDirectory?: (dir: string, target: DeployTarget, opts?: DeployFileOptions) => PromiseLike<DirectoryEntry[]> | DirectoryEntry[];
     /**
      * Pulls a file.
      * 
@@ -1419,6 +1615,22 @@ export interface DeployPlugin {
      * @param {DeployWorkspaceOptions} [opts] Additional options.
      */
     pullWorkspace?: (files: string[], target: DeployTarget, opts?: DeployWorkspaceOptions) => void;
+    /**
+     * Removes a file from a target.
+     * 
+     * @param {string} file The path of the local file.
+     * @param {DeployTarget} target The target that contains the file to remove.
+     * @param {DeployFileOptions} [opts] Additional options.
+     */
+    removeFile?: (file: string, target: DeployTarget, opts?: DeployFileOptions) => void;
+    /**
+     * Switches a target back to its previous release.
+     * 
+     * @param {DeployTarget} target The target.
+     * 
+     * @return {PromiseLike<string>|string} The name of the release, which is active now.
+     */
+    rollbackRelease?: (target: DeployTarget) => PromiseLike<string> | string;
 }
 
 /**
@@ -1465,6 +1677,34 @@ export interface DeployPluginWithContext {
 export interface DeployQuickPickItem extends vscode.QuickPickItem {
 }
 
+/**
+ * A policy for retrying the deployment of a file, which failed
+ * because of a transient error.
+ */
+export interface DeployRetryPolicy {
+    /**
+     * The maximum number of attempts, including the first one. Default: 3
+     */
+    attempts?: number;
+    /**
+     * The time in milliseconds to wait before the first retry. Default: 1000
+     */
+    delay?: number;
+    /**
+     * One or more error codes, like 'ECONNRESET' or '503', which should be handled
+     * as transient errors. Use '*' to retry on any error.
+     */
+    errors?: string | string[];
+    /**
+     * The factor the delay is multiplied with after each retry (backoff). Default: 2
+     */
+    factor?: number;
+    /**
+     * The maximum time in milliseconds to wait before a retry. Default: 30000
+     */
+    maxDelay?: number;
+}
+
 /**
  * A deploy operation that uses a script.
  */
@@ -1518,6 +1758,27 @@ export interface DeployScriptOperationArguments extends ScriptArguments, FileDep
      * @return {string} The parsed value.
      */
     replaceWithValues: (val: any) => string;
+    /**
+     * The remote client, which has send the files (only for 'received' operations of a deploy host).
+     */
+    remote?: {
+        /**
+         * The address of the client.
+         */
+        address: string;
+        /**
+         * The name of the client, if it has been identified.
+         */
+        name?: string;
+        /**
+         * The port of the client.
+         */
+        port: number;
+    };
+    /**
+     * The ID of the session (only for 'received' operations of a deploy host).
+     */
+    session?: string;
     /**
      * A state value for the current script that exists while the
      * current session.
@@ -1577,6 +1838,11 @@ export interface DeployTarget extends Applyable, CanLoadFrom, ConditionalItem, H
      */
     __id?: any;
     
+    /**
+     * Store the remote versions of files in a local backup,
+     * before they are replaced by a deployment, or not.
+     */
+    backup?: boolean;
     /**
      * List of operations that should be invoked BEFORE
      * target is being deployed.
@@ -1586,6 +1852,10 @@ export interface DeployTarget extends Applyable, CanLoadFrom, ConditionalItem, H
      * Check for newer files before a deployment starts or not.
      */
     checkBeforeDeploy?: boolean;
+    /**
+     * The maximum number of files, which are deployed at the same time.
+     */
+    concurrency?: number;
     /**
      * List of operations that should be invoked AFTER
      * ALL files have been deployed.
@@ -1608,6 +1878,11 @@ export interface DeployTarget extends Applyable, CanLoadFrom, ConditionalItem, H
      * if that target is hidden from GUI if one of the package(s) has been selected.
      */
     hideIf?: string | string[];
+    /**
+     * Deploy only files, which have been changed since their last deployment
+     * to that target (s. manifest of the target), or not.
+     */
+    incremental?: boolean;
     /**
      * One or more folder mapping.
      */
@@ -1616,6 +1891,11 @@ export interface DeployTarget extends Applyable, CanLoadFrom, ConditionalItem, H
      * The name.
      */
     name?: string;
+    /**
+     * Retry the deployment of a file, if it failed because of a transient error.
+     * (true) uses the default policy.
+     */
+    retry?: boolean | DeployRetryPolicy;
     /**
      * A list of one or more package names that indicates
      * if that target is only shown in GUI if one of the package(s) has been selected.
@@ -1809,10 +2089,31 @@ export interface DeployWorkspaceOptions {
      * The custom deploy context.
      */
     context?: DeployContext;
+    /**
+     * Only report what would be deployed (dry run) and do not touch the target.
+     */
+    dryRun?: boolean;
+    /**
+     * Deploy only files, which have been changed since their last deployment
+     * to the target, or not.
+     */
+    incremental?: boolean;
+    /**
+     * Remove files from the target, which have been deployed before (s. manifest of the target),
+     * but are not part of the list of files anymore.
+     * 
+     * A filter can be used to decide, if such a file should be removed or not.
+     */
+    mirror?: boolean | MirrorFileFilter;
     /**
      * The "before deploy" file callback.
      */
     onBeforeDeployFile?: BeforeDeployFileEventHandler;
+    /**
+     * The callback for a file, which is removed (or would be removed in a dry run)
+     * from the target in "mirror" mode.
+     */
+    onBeforeRemoveFile?: DeployFileEventHandler;
     /**
      * The "completed" callback for the whole operation.
      */
@@ -1821,6 +2122,21 @@ export interface DeployWorkspaceOptions {
      * The "completed" callback for the a single file.
      */
     onFileCompleted?: FileDeployCompletedEventHandler;
+    /**
+     * Restore files, like from a backup: the files are written directly to the target,
+     * without creating a new release and without updating the manifest of the target.
+     */
+    restore?: boolean;
+}
+
+/**
+ * An entry of a (remote) directory.
+ */
+export interface DirectoryEntry extends FileInfo {
+    /**
+     * Is directory or not.
+     */
+    isDirectory: boolean;
 }
 
 /**
@@ -1849,6 +2165,20 @@ export interface Document {
     title?: string;
 }
 
+/**
+ * Options for downloading files of the workspace from a target.
+ */
+export interface DownloadWorkspaceOptions {
+    /**
+     * The custom deploy context.
+     */
+    context?: DeployContext;
+    /**
+     * The callback for a single file, which has been downloaded (or not).
+     */
+    onFileDownloaded?: FileDownloadedEventHandler;
+}
+
 /**
  * A value with a name that accesses an environment variable with the same name.
  */
@@ -1993,6 +2323,36 @@ export interface FileCompareResult {
     right: FileInfo;
 }
 
+/**
+ * Arguments for the global 'EVENT_FILE_COMPLETED' event.
+ */
+export interface FileCompletedEventArguments {
+    /**
+     * Gets if the operation has been canceled or not.
+     */
+    canceled?: boolean;
+    /**
+     * The error (if occurred).
+     */
+    error?: any;
+    /**
+     * The file.
+     */
+    file: string;
+    /**
+     * The symbol that identifies the operation (if available).
+     */
+    symbol?: symbol;
+    /**
+     * The target.
+     */
+    target: DeployTarget;
+    /**
+     * The type of the operation.
+     */
+    type: 'deploy' | 'pull';
+}
+
 /**
  * Arguments for a "file deployed completed" event.
  */
@@ -2009,6 +2369,14 @@ export interface FileDeployCompletedEventArguments extends DeployEventArguments
      * The file.
      */
     file: string;
+    /**
+     * The results of the destinations (if reported by the plugin).
+     */
+    results?: FileDeployResult[];
+    /**
+     * The number of retries, which have been made (s. 'retry' of target).
+     */
+    retries?: number;
     /**
      * The target.
      */
@@ -2036,6 +2404,28 @@ export interface FileDeployer {
     deployFiles(files: string | string[], targets: DeployTargetList): Promise<DeployFilesEventArguments>;
 }
 
+/**
+ * The result of a destination, like a remote host, a file has been deployed to.
+ */
+export interface FileDeployResult {
+    /**
+     * The destination, like the address of a host.
+     */
+    destination: string;
+    /**
+     * The error (if occurred).
+     */
+    error?: any;
+    /**
+     * Indicates if the file has been rejected by the destination or not.
+     */
+    isRejected?: boolean;
+    /**
+     * The path the file has been written to (if known).
+     */
+    path?: string;
+}
+
 /**
  * A file filter.
  */
@@ -2054,6 +2444,42 @@ export interface FileFilter {
     useGitIgnoreStylePatterns?: boolean;
 }
 
+/**
+ * Arguments for a "file downloaded" event.
+ */
+export interface FileDownloadedEventArguments {
+    /**
+     * The downloaded data or (undefined) if the file does not exist on the target.
+     */
+    data?: Buffer;
+    /**
+     * The error (if occurred).
+     */
+    error?: any;
+    /**
+     * The local file.
+     */
+    file: string;
+    /**
+     * The information about the remote file (if available).
+     */
+    info?: FileInfo;
+    /**
+     * The target.
+     */
+    target: DeployTarget;
+}
+
+/**
+ * Describes an event handler that is raised AFTER a file has been downloaded.
+ * 
+ * @param {any} sender The sending object.
+ * @param {FileDownloadedEventArguments} e The Arguments of the event.
+ * 
+ * @return {PromiseLike<any>|void} The result.
+ */
+export type FileDownloadedEventHandler = (sender: any, e: FileDownloadedEventArguments) => PromiseLike<any> | void;
+
 /**
  * Information about a file.
  */
@@ -2062,6 +2488,14 @@ export interface FileInfo {
      * Files exists or not.
      */
     exists: boolean;
+    /**
+     * The hash of the content (hex), if available.
+     */
+    hash?: string;
+    /**
+     * The algorithm of 'hash', like 'md5', 'sha256' or 'dropbox'.
+     */
+    hashAlgorithm?: string;
     /**
      * Is remote file or not.
      */
@@ -2123,6 +2557,83 @@ export interface Hideable {
     isHidden?: boolean;
 }
 
+/**
+ * A (named) client of a deploy host.
+ */
+export interface HostClient {
+    /**
+     * One or more sub directories (relative to 'dir' of the host)
+     * the client is allowed to write to. Default: all
+     */
+    dirs?: string | string[];
+    /**
+     * One or more glob patterns (relative to 'dir' of the host)
+     * of files the client is allowed to send. Default: all
+     */
+    files?: string | string[];
+    /**
+     * The SHA-1 fingerprint of the TLS certificate of the client.
+     */
+    fingerprint?: string;
+    /**
+     * The maximum size of a file, in bytes.
+     */
+    maxSize?: number;
+    /**
+     * The name of the client.
+     */
+    name: string;
+    /**
+     * The token the client has to send.
+     */
+    token?: string;
+}
+
+/**
+ * Discovery settings of a deploy host.
+ */
+export interface HostDiscoverySettings {
+    /**
+     * The name to announce. Default: The name of the machine.
+     */
+    name?: string;
+    /**
+     * The UDP port on that discovery requests should be answered.
+     */
+    port?: number;
+}
+
+/**
+ * TLS settings of a deploy host.
+ */
+export interface HostTlsSettings {
+    /**
+     * One or more files with CA certificates that are used to verify
+     * the certificates of the clients.
+     */
+    ca?: string | string[];
+    /**
+     * The file of the server certificate (PEM).
+     */
+    cert: string;
+    /**
+     * The file of the private key of the server (PEM).
+     */
+    key: string;
+    /**
+     * The passphrase for the private key.
+     */
+    passphrase?: string;
+    /**
+     * Reject clients that do not send a valid certificate or not. Default: (true)
+     */
+    rejectUnauthorized?: boolean;
+    /**
+     * Request a certificate from the clients or not. Default: (true)
+     */
+    requestCert?: boolean;
+}
+
 /**
  * An import entry.
  */
@@ -2170,6 +2681,16 @@ export interface MachineItem {
     isFor?: string | string[];
 }
 
+/**
+ * Checks if a file, which is not part of a deployment anymore,
+ * should be removed from a target ("mirror" mode).
+ * 
+ * @param {string} file The path of the local file.
+ * 
+ * @return {boolean} Remove file or not.
+ */
+export type MirrorFileFilter = (file: string) => boolean;
+
 /**
  * A cache for objects.
  */
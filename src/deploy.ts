@@ -23,17 +23,23 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 // DEALINGS IN THE SOFTWARE.
 
+import { ApiHost } from './api';
+import * as deploy_backup from './backup';
 import * as deploy_buttons from './buttons';
 import * as deploy_commands from './commands';
 import * as deploy_config from './config';
 import * as deploy_contracts from './contracts';
 import * as deploy_diff from './diff';
+import * as deploy_discovery from './discovery';
+import * as deploy_dryrun from './dryrun';
 import * as deploy_helpers from './helpers';
+import * as deploy_history from './history';
 import * as deploy_globals from './globals';
 import * as deploy_objects from './objects';
 import * as deploy_operations from './operations';
 import * as deploy_packages from './packages';
 import * as deploy_plugins from './plugins';
+import * as deploy_resume from './resume';
 import * as deploy_switch from './switch';
 import * as deploy_sync from './sync';
 import * as deploy_targets from './targets';
@@ -41,7 +47,7 @@ import * as deploy_templates from './templates';
 import * as deploy_urls from './urls';
 import * as deploy_values from './values';
 import * as deploy_workspace from './workspace';
-import { DeployHost } from './host';
+import { DeployHost, RemoteClient } from './host';
 import * as Events from 'events';
 import * as FS from 'fs';
 const Glob = require('glob');
@@ -91,6 +97,11 @@ interface EventEntry {
     name: string;
 }
 
+interface PackageWithTarget {
+    package: deploy_contracts.DeployPackage;
+    target: deploy_contracts.DeployTarget;
+}
+
 
 /**
  * Deployer class.
@@ -108,6 +119,14 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * Stores all known targets from config as copies.
      */
     protected _allTargets: deploy_contracts.DeployTarget[];
+    /**
+     * Stores the current local HTTP API.
+     */
+    protected _api: ApiHost;
+    /**
+     * Stores the current workspace compare report.
+     */
+    protected _compareReport: deploy_diff.CompareReport;
     /**
      * Stores the current configuration.
      */
@@ -315,6 +334,67 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         });
     }
 
+    /**
+     * Invokes 'received' operations of the deploy host.
+     * 
+     * @param {string[]} files The files that have been received.
+     * @param {string} session The ID of the session.
+     * @param {RemoteClient} remote The client that has send the files.
+     * 
+     * @return {Promise<boolean>} The promise.
+     */
+    public afterReceived(files: string[], session: string, remote: RemoteClient): Promise<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let receivedOperations: deploy_contracts.DeployOperation[] = [];
+            if (me.config.host) {
+                receivedOperations = deploy_helpers.asArray(me.config.host.received)
+                                                   .filter(x => x);
+            }
+
+            let workflow = Workflows.create();
+
+            receivedOperations.forEach((currentOperation, i) => {
+                workflow.next(() => {
+                    return new Promise<any>((res, rej) => {
+                        let operationName = deploy_operations.getOperationName(currentOperation);
+                    
+                        me.outputChannel.append(`[AFTER RECEIVED #${i + 1}] '${operationName}' `);
+
+                        me.handleCommonDeployOperation(currentOperation,
+                                                       deploy_contracts.DeployOperationKind.Received,
+                                                       files,
+                                                       null,
+                                                       {
+                                                           remote: deploy_helpers.cloneObject(remote),
+                                                           session: session,
+                                                       }).then((handled) => {
+                            if (handled) {
+                                me.outputChannel.appendLine(i18.t('deploy.operations.finished'));
+                            }
+                            else {
+                                me.outputChannel.appendLine(i18.t('deploy.operations.unknownType', currentOperation.type));
+                            }
+
+                            res();
+                        }).catch((err) => {
+                            me.outputChannel.appendLine(i18.t('deploy.operations.failed', err));
+
+                            rej(err);
+                        });
+                    });
+                });
+            });
+
+            workflow.start().then(() => {
+                resolve(false);
+            }).catch((e) => {
+                reject(e);
+            });
+        });
+    }
+
     /**
      * Returns all targets from config.
      */
@@ -402,6 +482,16 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                   .apply(this, arguments);
     }
 
+    /**
+     * Removes the current workspace compare report.
+     */
+    public clearCompareReport() {
+        this._compareReport = null;
+
+        deploy_globals.EVENTS.emit(deploy_contracts.EVENT_COMPARE_REPORT_CHANGED,
+                                   this._compareReport);
+    }
+
     /**
      * Clears the output on startup depending on the current configuration.
      */
@@ -646,6 +736,82 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         });
     }
 
+    /**
+     * Gets the current workspace compare report.
+     */
+    public get compareReport(): deploy_diff.CompareReport {
+        return this._compareReport;
+    }
+
+    /**
+     * Compares the files of a package with a target and shows
+     * the differences as report.
+     * 
+     * @param {deploy_contracts.DeployPackage} [pkg] The package. If not defined, the user is asked.
+     * @param {deploy_contracts.DeployTarget} [target] The target. If not defined, the user is asked.
+     * 
+     * @return {Promise<deploy_diff.CompareReport>} The promise with the report (if created).
+     */
+    public async compareWorkspace(pkg?: deploy_contracts.DeployPackage,
+                                  target?: deploy_contracts.DeployTarget): Promise<deploy_diff.CompareReport> {
+        let me = this;
+
+        let getPlugins = (t: deploy_contracts.DeployTarget) => {
+            let type = deploy_helpers.parseTargetType(t.type);
+
+            return me.plugins.filter(x => {
+                return x.__type === type &&
+                       deploy_helpers.toBooleanSafe(x.canGetFileInfo) && (x.compareFiles || x.compareWorkspace);
+            });
+        };
+
+        let selected = await me.selectPackageAndTarget(pkg, target,
+                                                       t => getPlugins(t).length > 0,
+                                                       i18.t('compare.workspace.selectPackage'), i18.t('compare.workspace.selectTarget'),
+                                                       i18.t('compare.workspace.noTargets'));
+        if (!selected) {
+            return;
+        }
+
+        pkg = selected.package;
+        target = selected.target;
+
+        let plugins = getPlugins(target);
+        if (plugins.length < 1) {
+            vscode.window.showWarningMessage(i18.t('compare.noPluginsForType',
+                                                   deploy_helpers.parseTargetType(target.type)));
+            return;
+        }
+
+        let statusBarItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+        );
+        try {
+            statusBarItem.text = i18.t('compare.workspace.running');
+            statusBarItem.show();
+
+            let files = deploy_helpers.getFilesOfPackage(pkg,
+                                                         me.useGitIgnoreStylePatternsInFilter(pkg));
+
+            let report: deploy_diff.CompareReport = await deploy_diff.compareWorkspace.apply(me,
+                                                                                            [ files, pkg, target, plugins[0] ]);
+
+            me._compareReport = report;
+
+            deploy_globals.EVENTS.emit(deploy_contracts.EVENT_COMPARE_REPORT_CHANGED,
+                                       report);
+
+            if (report.entries.length < 1) {
+                vscode.window.showInformationMessage(i18.t('compare.workspace.noDifferences'));
+            }
+
+            return report;
+        }
+        finally {
+            deploy_helpers.tryDispose(statusBarItem);
+        }
+    }
+
     /**
      * Gets the current configuration.
      */
@@ -784,10 +950,12 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @param {string} file The file to deploy.
      * @param {deploy_contracts.DeployTarget} target The target to deploy to.
+     * @param {string} [deployment] The ID of the deployment, if the file is deployed to more than one target.
      * 
      * @return {Promise<boolean>} The promise.
      */
-    protected deployFileTo(file: string, target: deploy_contracts.DeployTarget): Promise<boolean> {
+    public deployFileTo(file: string, target: deploy_contracts.DeployTarget,
+                        deployment?: string): Promise<boolean> {
         let me = this;
 
         return new Promise<boolean>((resolve, reject) => {
@@ -886,6 +1054,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 });
                                 statusBarItem.command = cancelCommandName;
 
+                                let history = new deploy_history.HistoryRecorder(me, 'deploy', target);
+
                                 let showResult = (err?: any) => {
                                     let afterDeployButtonMsg = 'Deployment finished.';
 
@@ -937,6 +1107,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                                                             err ? [] : [ file ],
                                                                             err ? [ file ] : []);
 
+                                        history.finish(err, hasCancelled);
+
                                         completed(err);
                                     }
                                 };
@@ -944,7 +1116,10 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 try {
                                     statusBarItem.show();
 
-                                    currentPlugin.deployFile(file, target, {
+                                    let deployFile = currentPlugin.deployFileWithRetry ? currentPlugin.deployFileWithRetry
+                                                                                       : currentPlugin.deployFile;
+
+                                    deployFile.apply(currentPlugin, [ file, target, {
                                         context: contextToUse,
 
                                         onBeforeDeploy: (sender, e) => {
@@ -966,6 +1141,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
                                             me.outputChannel.append(deployMsg);
 
+                                            history.fileStarted(file);
+
                                             if (deploy_helpers.toBooleanSafe(me.config.openOutputOnDeploy, true)) {
                                                 me.outputChannel.show();
                                             }
@@ -981,10 +1158,13 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                                 me.outputChannel.appendLine(i18.t('ok'));
                                             }
 
+                                            history.fileCompleted(file, e.error);
+                                            me.raiseFileCompleted('deploy', file, target, e);
+
                                             hasCancelled = hasCancelled || e.canceled;
                                             showResult(e.error);
                                         }
-                                    });
+                                    } ]);
                                 }
                                 catch (e) {
                                     showResult(e);
@@ -997,12 +1177,25 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                             }
                         };
 
+                        // backup the remote versions
+                        // before they are replaced
+                        let backupAndDeploy = () => {
+                            // the file has been selected explicitly,
+                            // so it is deployed, even if it has not been changed
+                            deploy_backup.backupFiles.apply(me,
+                                                            [ [ file ], target, currentPlugin, false, deployment ]).then(() => {
+                                deployPlugin();
+                            }).catch((e) => {
+                                completed(e);
+                            });
+                        };
+
                         let checkForNewer = () => {
                             if (deploy_helpers.toBooleanSafe(target.checkBeforeDeploy)) {
                                 deploy_diff.checkForNewerFiles.apply(me,
                                                                      [ [ file ], target, currentPlugin ]).then((startDeploy: boolean) => {
                                     if (startDeploy) {
-                                        deployPlugin();
+                                        backupAndDeploy();
                                     }
                                     else {
                                         deployNextPlugin();
@@ -1012,7 +1205,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 });
                             }
                             else {
-                                deployPlugin();
+                                backupAndDeploy();
                             }
                         };
 
@@ -1021,24 +1214,42 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 // make a diff and ask the
                                 // if (s)he really wants to deploy
 
-                                me.compareFiles(vscode.Uri.file(file)).then(() => {
-                                    // [BUTTON] yes
-                                    let yesBtn: deploy_contracts.PopupButton = new deploy_objects.SimplePopupButton();
-                                    yesBtn.action = () => {
-                                        deployPlugin();  // user wants to deploy
-                                    };
-                                    yesBtn.title = i18.t('yes');
-
-                                    vscode.window
-                                          .showWarningMessage(i18.t('deploy.startQuestion'),
-                                                              yesBtn)
-                                          .then((item) => {
-                                                    if (!item || !item.action) {
-                                                        return;
-                                                    }
+                                let sameContent = Promise.resolve<boolean>(null);
+                                if (deploy_helpers.toBooleanSafe(currentPlugin.canGetFileInfo) && currentPlugin.getFileInfo) {
+                                    // no need for a diff, if the
+                                    // target provides the same hash
+                                    sameContent = Promise.resolve(currentPlugin.getFileInfo(file, target)).then((fi) => {
+                                        return deploy_diff.compareByHash(file, fi, target);
+                                    }).catch((err) => {
+                                        return null;
+                                    });
+                                }
 
-                                                    item.action();
-                                                });
+                                sameContent.then((isSame) => {
+                                    if (isSame) {
+                                        backupAndDeploy();
+                                        return;
+                                    }
+
+                                    return me.compareFiles(vscode.Uri.file(file)).then(() => {
+                                        // [BUTTON] yes
+                                        let yesBtn: deploy_contracts.PopupButton = new deploy_objects.SimplePopupButton();
+                                        yesBtn.action = () => {
+                                            backupAndDeploy();  // user wants to deploy
+                                        };
+                                        yesBtn.title = i18.t('yes');
+
+                                        vscode.window
+                                              .showWarningMessage(i18.t('deploy.startQuestion'),
+                                                                  yesBtn)
+                                              .then((item) => {
+                                                        if (!item || !item.action) {
+                                                            return;
+                                                        }
+
+                                                        item.action();
+                                                    });
+                                    });
                                 }).catch((err) => {
                                     completed(err);
                                 });
@@ -1138,16 +1349,76 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         }
     }
 
+    /**
+     * Deploys the files of a package, which have been changed in git.
+     * 
+     * @returns {Promise<number>} The promise.
+     */
+    public async deployGitChanges(): Promise<number> {
+        let me = this;
+
+        let packages = me.getPackages()
+                         .filter(x => !deploy_helpers.toBooleanSafe(x.isHidden) &&
+                                      deploy_helpers.toBooleanSafe(x.showForDeploy, true));
+        if (packages.length < 1) {
+            vscode.window.showWarningMessage(i18.t('packages.noneDefined'));
+            return 1;
+        }
+
+        let pkg: deploy_contracts.DeployPackage;
+
+        let packageQuickPicks = packages.map((x, i) => deploy_helpers.createPackageQuickPick(x, i,
+                                                                                             me.getValues()));
+        if (packageQuickPicks.length > 1 || deploy_helpers.toBooleanSafe(me.config.alwaysShowPackageList)) {
+            let item = await vscode.window.showQuickPick(packageQuickPicks, {
+                placeHolder: i18.t('deploy.workspace.selectPackage'),
+            });
+            if (item) {
+                pkg = item.package;
+            }
+        }
+        else {
+            // auto select
+            pkg = packageQuickPicks[0].package;
+        }
+
+        if (!pkg) {
+            return 3;  // aborted
+        }
+
+        let currentSettings = deploy_packages.getGitChangesSetting(pkg) || {};
+
+        let since = await vscode.window.showInputBox({
+            ignoreFocusOut: true,
+            placeHolder: i18.t('git.inputSince'),
+            value: deploy_helpers.toStringSafe(currentSettings.since),
+        });
+        if ('undefined' === typeof since) {
+            return 3;  // aborted
+        }
+
+        let pkgToDeploy = deploy_helpers.cloneObject(pkg);
+        pkgToDeploy.gitChanges = {
+            since: since.trim(),
+            uncommitted: true,
+        };
+
+        return await me.deployWorkspace(pkgToDeploy);
+    }
+
     /**
      * Deploys files of the workspace.
      * 
      * @param {deploy_contracts.DeployPackage|deploy_contracts.DeployPackage[]} [packagesToDeploy] The package(s) to deploy.
      * @param {deploy_contracts.DeployTarget|deploy_contracts.DeployTarget[]} [targetsToDeployTo] The target(s) to deploy to.
+     * @param {boolean} [dryRun] Only show what would be deployed (dry run) or not.
+     * @param {symbol} [sym] The symbol that identifies the operation in global events.
      * 
      * @return {Promise<number>} The promise.
      */
     public deployWorkspace(packagesToDeploy?: deploy_contracts.DeployPackage | deploy_contracts.DeployPackage[],
-                           targetsToDeployTo?: deploy_contracts.DeployTarget | deploy_contracts.DeployTarget[]): Promise<number> {
+                           targetsToDeployTo?: deploy_contracts.DeployTarget | deploy_contracts.DeployTarget[],
+                           dryRun?: boolean, sym?: symbol): Promise<number> {
         let me = this;
 
         return new Promise<number>((resolve, reject) => {
@@ -1216,6 +1487,24 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
                         me.outputChannel.appendLine('');
 
+                        if (deploy_helpers.toBooleanSafe(dryRun)) {
+                            // only show what would be done
+
+                            deploy_packages.getFilesToDeploy.apply(me,
+                                                                   [ pkg ]).then((files: string[]) => {
+                                return deploy_dryrun.dryRunWorkspace.apply(me,
+                                                                           [ files, t, pkg ]);
+                            }).then(() => {
+                                completed(null, 0);
+                            }).catch((err) => {
+                                me.outputChannel.appendLine(i18.t('failed', err));
+
+                                completed(new Error(i18.t('deploy.dryRun.failed', err)));
+                            });
+
+                            return;
+                        }
+
                         let deployMsg: string;
                         if (targetName) {
                             deployMsg = i18.t('deploy.workspace.deployingWithTarget', packageName, targetName);
@@ -1236,20 +1525,26 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 return;
                             }
 
-                            filesToDeploy = deploy_helpers.getFilesOfPackage(pkg,
-                                                                             me.useGitIgnoreStylePatternsInFilter(pkg));  // now update file list
-                            if (filesToDeploy.length < 1) {
-                                vscode.window.showWarningMessage(i18.t('deploy.noFiles'));
+                            // now update file list
+                            deploy_packages.getFilesToDeploy.apply(me,
+                                                                   [ pkg ]).then((files: string[]) => {
+                                filesToDeploy = files;
+                                if (filesToDeploy.length < 1) {
+                                    vscode.window.showWarningMessage(i18.t('deploy.noFiles'));
 
-                                completed(null, 8);  // no files
-                                return;
-                            }
-                            
-                            me.deployWorkspaceTo(filesToDeploy, t).then(() => {
-                                completed(null, 0);  // anthing finished
+                                    completed(null, 8);  // no files
+                                    return;
+                                }
+                                
+                                me.deployWorkspaceTo(filesToDeploy, t, pkg, sym).then(() => {
+                                    completed(null, 0);  // anthing finished
+                                }).catch((err) => {
+                                    completed(new Error(i18.t('deploy.workspace.failedWithCategory',
+                                                            2, err)));
+                                });
                             }).catch((err) => {
                                 completed(new Error(i18.t('deploy.workspace.failedWithCategory',
-                                                        2, err)));
+                                                          3, err)));
                             });
                         }).catch((err) => {
                             completed(new Error(i18.t('deploy.before.failed',
@@ -1343,10 +1638,13 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @param {string[]} files The files to deploy.
      * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {deploy_contracts.DeployPackage} [pkg] The underlying package (if available).
+     * @param {symbol} [sym] The symbol that identifies the operation in global events.
      * 
      * @returns {Promise<boolean>} The promise.
      */
-    protected deployWorkspaceTo(files: string[], target: deploy_contracts.DeployTarget): Promise<boolean> {
+    public deployWorkspaceTo(files: string[], target: deploy_contracts.DeployTarget,
+                             pkg?: deploy_contracts.DeployPackage, sym?: symbol): Promise<boolean> {
         let me = this;
         let nameOfTarget = deploy_helpers.normalizeString(target.name);
 
@@ -1436,6 +1734,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
                                     let failed: string[] = [];
                                     let succeeded: string[] = [];
+                                    let history = new deploy_history.HistoryRecorder(me, 'deploy', target, pkg);
                                     let showResult = (err?: any) => {
                                         let afterDeployButtonMsg = 'Deployment finished.';
 
@@ -1513,6 +1812,10 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                                 else {
                                                     resultMsg = i18.t('deploy.finished2');
 
+                                                    if (session) {
+                                                        deploy_resume.finishSession(me.context.workspaceState, session);
+                                                    }
+
                                                     me.afterDeployment(files, target).catch((err) => {
                                                         vscode.window.showErrorMessage(i18.t('deploy.after.failed', err));
                                                     });
@@ -1526,18 +1829,33 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                             }
                                         }
                                         finally {
+                                            if (session) {
+                                                // keep the progress of a
+                                                // deployment that can be resumed
+                                                deploy_resume.flushSession(me.context.workspaceState, session);
+                                            }
+
                                             me.showStatusBarItemAfterDeployment(afterDeployButtonMsg,
                                                                                 files,
                                                                                 succeeded, failed);
 
+                                            history.finish(err, hasCancelled);
+
                                             completed(err);
                                         }
                                     };
 
                                     statusBarItem.show();
 
+                                    // remember progress, so it can be resumed later
+                                    let session = deploy_resume.startSession(me.context.workspaceState,
+                                                                             files, target);
+
                                     currentPlugin.deployWorkspace(files, target, {
                                         context: contextToUse,
+                                        incremental: deploy_packages.getIncrementalSetting(pkg),
+                                        mirror: deploy_packages.getMirrorSetting(pkg,
+                                                                                 me.useGitIgnoreStylePatternsInFilter(pkg)),
 
                                         onBeforeDeployFile: (sender, e) => {
                                             let relativePath = deploy_helpers.toRelativePath(e.file);
@@ -1559,6 +1877,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                             statusBarItem.tooltip = statusMsg + ` (${i18.t('deploy.workspace.clickToCancel')})`;
 
                                             me.outputChannel.append(statusMsg);
+
+                                            history.fileStarted(e.file);
                                         },
 
                                         onCompleted: (sender, e) => {
@@ -1567,6 +1887,12 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                         },
 
                                         onFileCompleted: (sender, e) => {
+                                            history.fileCompleted(e.file, e.error);
+
+                                            // the plugin of a virtual "batch" target
+                                            // submits the underlying "real" target
+                                            me.raiseFileCompleted('deploy', e.file, e.target || target, e, sym);
+
                                             if (e.error) {
                                                 me.outputChannel.appendLine(i18.t('failed', e.error));
 
@@ -1576,6 +1902,9 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                                 me.outputChannel.appendLine(i18.t('ok'));
 
                                                 succeeded.push(e.file);
+
+                                                deploy_resume.markAsCompleted(me.context.workspaceState,
+                                                                              session, e.file);
                                             }
                                         }
                                     });
@@ -1587,12 +1916,24 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 }
                             };
 
+                            // backup the remote versions
+                            // before they are replaced
+                            let backupAndDeploy = () => {
+                                deploy_backup.backupFiles.apply(me,
+                                                                [ files, target, currentPlugin,
+                                                                  deploy_packages.getIncrementalSetting(pkg) ]).then(() => {
+                                    deployPlugin();
+                                }).catch((e) => {
+                                    completed(e);
+                                });
+                            };
+
                             let checkForNewer = () => {
                                 if (deploy_helpers.toBooleanSafe(target.checkBeforeDeploy)) {
                                     deploy_diff.checkForNewerFiles.apply(me,
                                                                         [ files, target, currentPlugin ]).then((startDeploy: boolean | null) => {
                                         if (startDeploy) {
-                                            deployPlugin();
+                                            backupAndDeploy();
                                         }
                                         else {
                                             deployNextPlugin();
@@ -1602,7 +1943,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                     });
                                 }
                                 else {
-                                    deployPlugin();
+                                    backupAndDeploy();
                                 }
                             };
 
@@ -1908,7 +2249,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @return {deploy_contracts.DeployTarget[]} The found targets.
      */
-    protected getTargetsFromPackage(pkg: deploy_contracts.DeployPackage): deploy_contracts.DeployTarget[] {
+    public getTargetsFromPackage(pkg: deploy_contracts.DeployPackage): deploy_contracts.DeployTarget[] {
         let pkgTargets: deploy_contracts.DeployTarget[] = [];
 
         let normalizeString = (val: any): string => {
@@ -1959,13 +2300,15 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * @param {deploy_contracts.DeployOperationKind} kind The kind of operation.
      * @param {string[]} files The files to deploy.
      * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {any} [additionalScriptArgs] Additional properties for the arguments of a script operation.
      * 
      * @return Promise<boolean> The promise.
      */
     protected handleCommonDeployOperation(operation: deploy_contracts.DeployOperation,
                                           kind: deploy_contracts.DeployOperationKind,
                                           files: string[],
-                                          target: deploy_contracts.DeployTarget): Promise<boolean> {
+                                          target: deploy_contracts.DeployTarget,
+                                          additionalScriptArgs?: any): Promise<boolean> {
         let me = this;
 
         return new Promise<boolean>((resolve, reject) => {
@@ -2045,6 +2388,9 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                 },
                                 target: target,
                             };
+                            if (additionalScriptArgs) {
+                                Object.assign(scriptArgs, additionalScriptArgs);
+                            }
 
                             // scriptArgs.globalState
                             Object.defineProperty(scriptArgs, 'globalState', {
@@ -2151,6 +2497,13 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         this._AFTER_DEPLOYMENT_STATUS_ITEM.hide();
     }
 
+    /**
+     * Gets the current deploy host (if running).
+     */
+    public get host(): DeployHost {
+        return this._host;
+    }
+
     /**
      * Gets the list of HTML documents.
      */
@@ -2173,6 +2526,10 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * @return {boolean} Is ignored or not. 
      */
     public isFileIgnored(fileOrDir: string): boolean {
+        if (deploy_workspace.isDataFile(fileOrDir)) {
+            return true;  // data of the extension, like history or manifests
+        }
+
         return deploy_helpers.isFileIgnored(fileOrDir, this.config.ignore,
                                             this.config.useGitIgnoreStylePatterns,
                                             this.config.fastCheckForIgnores);
@@ -2356,6 +2713,16 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         deploy_helpers.tryDispose(this._QUICK_DEPLOY_STATUS_ITEM);
 
         deploy_buttons.unloadPackageButtons();
+
+        // stop local API
+        const API = this._api;
+        if (API) {
+            this._api = null;
+
+            API.stop().catch((err) => {
+                this.log(i18.t('errors.withCategory', 'Deployer.onDeactivate()', err));
+            });
+        }
     }
 
     /**
@@ -2491,9 +2858,11 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @param {string} fileName The path of the file.
      * @param {deploy_contracts.DeployPackage[]} [packagesToDeploy] The custom package list.
+     * @param {boolean} [removed] File has been removed and should be removed from the targets, too.
      */
     public onDidSaveFile(fileName: string,
-                         packagesToDeploy?: deploy_contracts.DeployPackage[]) {
+                         packagesToDeploy?: deploy_contracts.DeployPackage[],
+                         removed?: boolean) {
         if (deploy_helpers.isEmptyString(fileName)) {
             return;
         }
@@ -2629,23 +2998,35 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                 return false;
             });
 
+            // one backup per target, which
+            // are restored together by a rollback
+            let deployment = deploy_backup.createId();
+
             // deploy file to targets
             targets.forEach(t => {
                 let showError = (err: any) => {
                     let targetName = deploy_helpers.toStringSafe(t.name).trim();
 
-                    vscode.window.showWarningMessage(i18.t('deploy.onSave.failedTarget',
+                    vscode.window.showWarningMessage(i18.t(removed ? 'deploy.mirror.failedTarget' : 'deploy.onSave.failedTarget',
                                                            relativeDocFilePath,
                                                            targetName ? `'${targetName}'` : 'target',
                                                            err));
                 };
 
+                if (removed) {
+                    me.removeFileFrom(docFile, t).catch((err) => {
+                        showError(err);
+                    });
+
+                    return;
+                }
+
                 me.beforeDeploy([ docFile ], t).then((canceled) => {
                     if (canceled) {
                         return;
                     }
 
-                    me.deployFileTo(docFile, t).then((canceled) => {
+                    me.deployFileTo(docFile, t, deployment).then((canceled) => {
                         if (canceled) {
                             return;
                         }
@@ -2738,6 +3119,14 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
         try {
             let filePath = Path.resolve(e.fsPath);
+            if (deploy_workspace.isDataFile(filePath)) {
+                return;  // data of the extension
+            }
+
+            if ('delete' === type) {
+                me.onFileDeleted(filePath);
+                return;
+            }
 
             let normalizePath = (str: string) => {
                 return str ? deploy_helpers.replaceAllStrings(str, Path.sep, '/')
@@ -2815,6 +3204,36 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         }
     }
 
+    /**
+     * Is invoked after a file has been deleted and removes it
+     * from the targets of all packages, which use "deploy on change"
+     * and "mirror" mode.
+     * 
+     * @param {string} filePath The path of the deleted file.
+     */
+    protected onFileDeleted(filePath: string) {
+        let me = this;
+
+        // the file does not exist anymore,
+        // so we can only use minimatch here
+        let packagesToDeploy = me.getPackages().filter(pkg => {
+            if (deploy_helpers.isNullOrUndefined(pkg.deployOnChange) ||
+                !deploy_helpers.toBooleanSafe(pkg.mirror)) {
+                return false;
+            }
+
+            if (true === pkg.deployOnChange) {
+                return deploy_helpers.doesFileMatchByFilter(filePath, pkg);
+            }
+
+            return deploy_helpers.doesFileMatchByFilter(filePath, pkg.deployOnChange);
+        });
+
+        if (packagesToDeploy.length > 0) {
+            me.onDidSaveFile(filePath, packagesToDeploy, true);
+        }
+    }
+
     /**
      * Opens the files that are defined in the config.
      */
@@ -3215,6 +3634,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                             });
                             statusBarItem.command = cancelCommandName;
 
+                            let history = new deploy_history.HistoryRecorder(me, 'pull', target);
+
                             let showResult = (err?: any) => {
                                 try {
                                     cleanUps();
@@ -3253,6 +3674,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                     }
                                 }
                                 finally {
+                                    history.finish(err, hasCancelled);
+
                                     completed(err);
                                 }
                             };
@@ -3282,6 +3705,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
                                         me.outputChannel.append(pullMsg);
 
+                                        history.fileStarted(file);
+
                                         statusBarItem.text = i18.t('pull.button.text');
                                     },
 
@@ -3293,6 +3718,9 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                             me.outputChannel.appendLine(i18.t('ok'));
                                         }
 
+                                        history.fileCompleted(file, e.error);
+                                        me.raiseFileCompleted('pull', file, target, e);
+
                                         hasCancelled = hasCancelled || e.canceled;
                                         showResult(e.error);
                                     }
@@ -3524,7 +3952,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
      * 
      * @returns {Promise<boolean>} The promise.
      */
-    protected pullWorkspaceFrom(files: string[], target: deploy_contracts.DeployTarget): Promise<boolean> {
+    public pullWorkspaceFrom(files: string[], target: deploy_contracts.DeployTarget): Promise<boolean> {
         let me = this;
         let nameOfTarget = deploy_helpers.normalizeString(target.name);
 
@@ -3611,6 +4039,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
 
                                 let failed: string[] = [];
                                 let succeeded: string[] = [];
+                                let history = new deploy_history.HistoryRecorder(me, 'pull', target);
                                 let showResult = (err?: any) => {
                                     try {
                                         cleanUps();
@@ -3693,6 +4122,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                         }
                                     }
                                     finally {
+                                        history.finish(err, hasCancelled);
+
                                         completed(err);
                                     }
                                 };
@@ -3722,6 +4153,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                         statusBarItem.tooltip = statusMsg + ` (${i18.t('pull.workspace.clickToCancel')})`;
 
                                         me.outputChannel.append(statusMsg);
+
+                                        history.fileStarted(e.file);
                                     },
 
                                     onCompleted: (sender, e) => {
@@ -3730,6 +4163,9 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                                     },
 
                                     onFileCompleted: (sender, e) => {
+                                        history.fileCompleted(e.file, e.error);
+                                        me.raiseFileCompleted('pull', e.file, target, e);
+
                                         if (e.error) {
                                             me.outputChannel.appendLine(i18.t('failed', e.error));
 
@@ -3902,10 +4338,12 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                             try {
                                 me.beforeDeploy(files, currentTarget).then(() => {
                                     // update package files
-                                    files = deploy_helpers.getFilesOfPackage(currentPackage,
-                                                                             me.useGitIgnoreStylePatternsInFilter(currentPackage));
+                                    return deploy_packages.getFilesToDeploy.apply(me,
+                                                                                  [ currentPackage ]);
+                                }).then((filesToDeploy: string[]) => {
+                                    files = filesToDeploy;
 
-                                    me.deployWorkspaceTo(files, currentTarget).then(() => {
+                                    me.deployWorkspaceTo(files, currentTarget, currentPackage).then(() => {
                                         deployNextTarget();
                                     }).catch((err) => {
                                         completed(err);
@@ -4063,7 +4501,7 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                         targets: targetObjects.map(x => x.name),
                     };
 
-                    me.deployWorkspaceTo(filesToDeploy, batchTarget).then(() => {
+                    me.deployWorkspaceTo(filesToDeploy, batchTarget, undefined, sym).then(() => {
                         completed();
                     }).catch((err) => {
                         completed(err);
@@ -4079,6 +4517,78 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         });
     }
 
+    /**
+     * Raises the global event for a completed file of a deployment or pull.
+     * 
+     * @param {string} type The type of the operation.
+     * @param {string} file The file.
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {deploy_contracts.FileDeployCompletedEventArguments} e The arguments of the plugin callback.
+     * @param {symbol} [sym] The symbol that identifies the operation (if available).
+     */
+    protected raiseFileCompleted(type: 'deploy' | 'pull',
+                                 file: string, target: deploy_contracts.DeployTarget,
+                                 e: deploy_contracts.FileDeployCompletedEventArguments,
+                                 sym?: symbol) {
+        try {
+            let args: deploy_contracts.FileCompletedEventArguments = {
+                canceled: e.canceled,
+                error: e.error,
+                file: file,
+                symbol: sym,
+                target: target,
+                type: type,
+            };
+
+            deploy_globals.EVENTS.emit(deploy_contracts.EVENT_FILE_COMPLETED,
+                                       args);
+        }
+        catch (e) {
+            this.log(i18.t('errors.withCategory', 'Deployer.raiseFileCompleted()', e));
+        }
+    }
+
+    /**
+     * Reloads the local HTTP API.
+     */
+    protected reloadApi() {
+        const ME = this;
+        const CFG = ME.config;
+
+        const START_API = () => {
+            let settings = CFG.api;
+            if (!settings || !deploy_helpers.toBooleanSafe(settings.enabled)) {
+                return;  // disabled
+            }
+
+            let api = new ApiHost(ME);
+
+            api.start().then(() => {
+                ME._api = api;
+
+                ME.outputChannel.appendLine(i18.t('api.started',
+                                                  deploy_helpers.toStringSafe(settings.address, deploy_contracts.DEFAULT_HOST),
+                                                  deploy_helpers.toStringSafe(settings.port, '' + deploy_contracts.DEFAULT_API_PORT)));
+            }).catch((err) => {
+                vscode.window.showErrorMessage(i18.t('api.errors.cannotStart', err));
+            });
+        };
+
+        const CURRENT_API = ME._api;
+        if (CURRENT_API) {
+            ME._api = null;
+
+            CURRENT_API.stop().then(() => {
+                START_API();
+            }).catch((err) => {
+                ME.log(i18.t('errors.withCategory', 'Deployer.reloadApi()', err));
+            });
+        }
+        else {
+            START_API();
+        }
+    }
+
     /**
      * Reloads the defined commands from the config.
      */
@@ -4179,6 +4689,8 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
                         }
                     }
 
+                    ME.reloadApi();
+
                     const AFTER_GIT_PULL = (err: any) => {
                         try {
                             deploy_config.runBuildTask
@@ -4788,6 +5300,115 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         }
     }
 
+    /**
+     * Removes a file from a target.
+     * 
+     * @param {string} file The file to remove.
+     * @param {deploy_contracts.DeployTarget} target The target to remove the file from.
+     * 
+     * @return {Promise<boolean>} The promise.
+     */
+    protected removeFileFrom(file: string, target: deploy_contracts.DeployTarget): Promise<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let hasCancelled = false;
+            let completed = (err?: any) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(hasCancelled);
+                }
+            };
+
+            if (me.isFileIgnored(file)) {
+                hasCancelled = true;
+                completed(null);
+                return;
+            }
+
+            try {
+                let type = deploy_helpers.parseTargetType(target.type);
+
+                let matchIngPlugins = me.pluginsWithContextes.filter(x => {
+                    return (!type || x.plugin.__type === type) &&
+                           deploy_helpers.toBooleanSafe(x.plugin.canRemove) && x.plugin.removeFile;
+                });
+
+                if (matchIngPlugins.length < 1) {
+                    if (type) {
+                        completed(new Error(i18.t('deploy.mirror.noPluginsForType', type)));
+                    }
+                    else {
+                        completed(new Error(i18.t('deploy.mirror.noPlugins')));
+                    }
+
+                    return;
+                }
+
+                let relativePath = deploy_helpers.toRelativePath(file);
+                if (false === relativePath) {
+                    relativePath = file;
+                }
+
+                let targetName = deploy_helpers.toStringSafe(target.name).trim();
+                if (targetName) {
+                    targetName = ` ('${targetName}')`;
+                }
+
+                let removeNextPlugin: () => void;
+                removeNextPlugin = () => {
+                    if (matchIngPlugins.length < 1) {
+                        completed();
+                        return;
+                    }
+
+                    let currentPluginWithContext = matchIngPlugins.shift();
+                    let contextToUse = deploy_plugins.createPluginContext(currentPluginWithContext.context);
+
+                    let pluginCompleted = (err?: any) => {
+                        deploy_helpers.tryDispose(contextToUse);
+
+                        if (err) {
+                            me.outputChannel.appendLine(i18.t('failed', err));
+
+                            completed(err);
+                        }
+                        else {
+                            me.outputChannel.appendLine(i18.t('ok'));
+
+                            removeNextPlugin();
+                        }
+                    };
+
+                    try {
+                        me.outputChannel.append(i18.t('deploy.mirror.removingFile',
+                                                      relativePath, targetName));
+
+                        currentPluginWithContext.plugin.removeFile(file, target, {
+                            context: contextToUse,
+
+                            onCompleted: (sender, e) => {
+                                hasCancelled = hasCancelled || e.canceled;
+
+                                pluginCompleted(e.error);
+                            },
+                        });
+                    }
+                    catch (e) {
+                        pluginCompleted(e);
+                    }
+                };
+
+                removeNextPlugin();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     /**
      * Handles a value as string and replaces placeholders.
      * 
@@ -4799,6 +5420,208 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         return deploy_values.replaceWithValues(this.getValues(), val);
     }
 
+    /**
+     * Resumes the last workspace deployment, which has been cancelled or
+     * has not been finished, by deploying the remaining files.
+     * 
+     * @returns {Promise<boolean>} The promise.
+     */
+    public async resumeLastDeployment(): Promise<boolean> {
+        let me = this;
+
+        let session = deploy_resume.getLastSession(me.context.workspaceState);
+        if (!session) {
+            vscode.window.showInformationMessage(i18.t('deploy.resume.noSession'));
+            return false;
+        }
+
+        let target = me.getTargets().filter(t => {
+            return deploy_helpers.normalizeString(t.name) === deploy_helpers.normalizeString(session.target) &&
+                   deploy_helpers.parseTargetType(t.type) === session.type;
+        })[0];
+        if (!target) {
+            vscode.window.showWarningMessage(i18.t('deploy.resume.targetNotFound', session.target));
+            return false;
+        }
+
+        let remainingFiles = deploy_resume.getRemainingFiles(session).filter(f => {
+            return FS.existsSync(f) && !me.isFileIgnored(f);
+        });
+        if (remainingFiles.length < 1) {
+            await deploy_resume.finishSession(me.context.workspaceState, session);
+
+            vscode.window.showInformationMessage(i18.t('deploy.resume.nothingLeft', session.target));
+            return false;
+        }
+
+        me.outputChannel.appendLine(i18.t('deploy.resume.resuming',
+                                          remainingFiles.length, session.files.length, session.target));
+
+        // no package here, so a partial list
+        // of files never removes anything on the target
+        return await me.deployWorkspaceTo(remainingFiles, target);
+    }
+
+    /**
+     * Restores the previous remote versions of the files of the last deployment.
+     */
+    public async rollback() {
+        await deploy_backup.rollback
+                           .apply(this, arguments);
+    }
+
+    /**
+     * Switches a target back to its previous release.
+     */
+    public async rollbackRelease() {
+        let me = this;
+
+        let getPlugins = (target: deploy_contracts.DeployTarget) => {
+            let type = deploy_helpers.parseTargetType(target.type);
+
+            return me.plugins.filter(x => {
+                return x.__type === type &&
+                       deploy_helpers.toBooleanSafe(x.canRollbackRelease) && x.rollbackRelease;
+            });
+        };
+
+        let targets = me.getTargets()
+                        .filter(x => !deploy_helpers.toBooleanSafe(x.isHidden))
+                        .filter(x => getPlugins(x).length > 0);
+        if (targets.length < 1) {
+            vscode.window.showWarningMessage(i18.t('deploy.releases.noTargets'));
+            return;
+        }
+
+        let target: deploy_contracts.DeployTarget;
+
+        let quickPicks = targets.map((x, i) => deploy_helpers.createTargetQuickPick(x, i,
+                                                                                    me.getValues()));
+        if (quickPicks.length > 1) {
+            let item = await vscode.window.showQuickPick(quickPicks, {
+                placeHolder: i18.t('deploy.releases.selectTarget'),
+            });
+            if (item) {
+                target = item.target;
+            }
+        }
+        else {
+            // auto select
+            target = quickPicks[0].target;
+        }
+
+        if (!target) {
+            return;
+        }
+
+        try {
+            let plugins = getPlugins(target);
+            for (let i = 0; i < plugins.length; i++) {
+                let release = await Promise.resolve(plugins[i].rollbackRelease(target));
+                if (release) {
+                    vscode.window.showInformationMessage(i18.t('deploy.releases.rolledBack',
+                                                               release, target.name));
+                }
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(i18.t('deploy.releases.failed', e));
+        }
+    }
+
+    /**
+     * Lets the user select a package and one of its targets,
+     * if not already defined.
+     * 
+     * @param {deploy_contracts.DeployPackage} pkg The package (if already defined).
+     * @param {deploy_contracts.DeployTarget} target The target (if already defined).
+     * @param {(t: deploy_contracts.DeployTarget) => boolean} targetFilter The filter for the targets to select.
+     * @param {string} selectPackageText The placeholder for selecting a package.
+     * @param {string} selectTargetText The placeholder for selecting a target.
+     * @param {string} noTargetsText The message, if no target is available.
+     * 
+     * @return {Promise<PackageWithTarget>} The promise with the selection or (null) if aborted.
+     */
+    protected async selectPackageAndTarget(pkg: deploy_contracts.DeployPackage, target: deploy_contracts.DeployTarget,
+                                           targetFilter: (t: deploy_contracts.DeployTarget) => boolean,
+                                           selectPackageText: string, selectTargetText: string,
+                                           noTargetsText: string): Promise<PackageWithTarget> {
+        let me = this;
+
+        if (!pkg) {
+            let packages = me.getPackages()
+                             .filter(x => !deploy_helpers.toBooleanSafe(x.isHidden) &&
+                                          deploy_helpers.toBooleanSafe(x.showForDeploy, true));
+            if (packages.length < 1) {
+                vscode.window.showWarningMessage(i18.t('packages.noneDefined'));
+                return null;
+            }
+
+            let packageQuickPicks = packages.map((x, i) => deploy_helpers.createPackageQuickPick(x, i,
+                                                                                                 me.getValues()));
+
+            let item: deploy_contracts.DeployPackageQuickPickItem;
+            if (packageQuickPicks.length > 1) {
+                item = await vscode.window.showQuickPick(packageQuickPicks, {
+                    placeHolder: selectPackageText,
+                });
+            }
+            else {
+                // auto select
+                item = packageQuickPicks[0];
+            }
+
+            if (!item) {
+                return null;
+            }
+
+            pkg = item.package;
+        }
+
+        if (!target) {
+            let targets = me.filterTargetsByPackage(pkg)
+                            .filter(x => !deploy_helpers.toBooleanSafe(x.isHidden))
+                            .filter(x => targetFilter(x));
+            if (targets.length < 1) {
+                vscode.window.showWarningMessage(noTargetsText);
+                return null;
+            }
+
+            let targetQuickPicks = targets.map((x, i) => deploy_helpers.createTargetQuickPick(x, i,
+                                                                                              me.getValues()));
+
+            let item: deploy_contracts.DeployTargetQuickPickItem;
+            if (targetQuickPicks.length > 1) {
+                item = await vscode.window.showQuickPick(targetQuickPicks, {
+                    placeHolder: selectTargetText,
+                });
+            }
+            else {
+                // auto select
+                item = targetQuickPicks[0];
+            }
+
+            if (!item) {
+                return null;
+            }
+
+            target = item.target;
+        }
+
+        return {
+            package: pkg,
+            target: target,
+        };
+    }
+
+    /**
+     * Selects a discovered host as destination for a 'remote' target.
+     */
+    public async selectRemoteHost() {
+        await deploy_discovery.selectRemoteHost
+                              .apply(this, arguments);
+    }
+
     /**
      * Gets the underlying settings file.
      */
@@ -4823,13 +5646,16 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
             let newWatcher: vscode.FileSystemWatcher;
             try {
                 newWatcher = vscode.workspace.createFileSystemWatcher('**',
-                                                                      false, false, true);
+                                                                      false, false, false);
                 newWatcher.onDidChange((e) => {
                     me.onFileChange(e, 'change');
                 }, newWatcher);
                 newWatcher.onDidCreate((e) => {
                     me.onFileChange(e, 'create');
                 }, newWatcher);
+                newWatcher.onDidDelete((e) => {
+                    me.onFileChange(e, 'delete');
+                }, newWatcher);
 
                 me._fileSystemWatcher = newWatcher;
             }
@@ -4859,6 +5685,14 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         this.showNewVersionPopup();
     }
 
+    /**
+     * Shows the deployment history.
+     */
+    public async showHistory() {
+        await deploy_history.showHistory
+                            .apply(this, arguments);
+    }
+
     /**
      * Shows the popup of for new version.
      */
@@ -5202,6 +6036,97 @@ export class Deployer extends Events.EventEmitter implements vscode.Disposable {
         return this._startTime;
     }
 
+    /**
+     * Stops the deploy host (if running).
+     */
+    public stopHost() {
+        if (this._host) {
+            this.listen();
+        }
+    }
+
+    /**
+     * Synchronizes the files of a package with a target in both directions.
+     * 
+     * @param {deploy_contracts.DeployPackage} [pkg] The package. If not defined, the user is asked.
+     * @param {deploy_contracts.DeployTarget} [target] The target. If not defined, the user is asked.
+     * 
+     * @return {Promise<deploy_sync.SyncResult>} The promise with the result (if synchronized).
+     */
+    public async synchronizeWorkspace(pkg?: deploy_contracts.DeployPackage,
+                                      target?: deploy_contracts.DeployTarget): Promise<deploy_sync.SyncResult> {
+        let me = this;
+
+        let getPlugins = (t: deploy_contracts.DeployTarget) => {
+            let type = deploy_helpers.parseTargetType(t.type);
+
+            return me.plugins.filter(x => {
+                return x.__type === type &&
+                       deploy_helpers.toBooleanSafe(x.canGetFileInfo) && (x.compareFiles || x.compareWorkspace) &&
+                       deploy_helpers.toBooleanSafe(x.canPull) && x.downloadFile;
+            });
+        };
+
+        let selected = await me.selectPackageAndTarget(pkg, target,
+                                                       t => getPlugins(t).length > 0,
+                                                       i18.t('sync.workspace.selectPackage'), i18.t('sync.workspace.selectTarget'),
+                                                       i18.t('sync.workspace.noTargets'));
+        if (!selected) {
+            return;
+        }
+
+        pkg = selected.package;
+        target = selected.target;
+
+        let plugins = getPlugins(target);
+        if (plugins.length < 1) {
+            vscode.window.showWarningMessage(i18.t('sync.workspace.notSupported', target.name));
+            return;
+        }
+
+        let packageName = deploy_helpers.toStringSafe(pkg.name).trim();
+        let targetName = deploy_helpers.toStringSafe(target.name).trim();
+
+        me.outputChannel.appendLine('');
+        me.outputChannel.appendLine(i18.t('sync.workspace.synchronizing', packageName, targetName));
+
+        let statusBarItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+        );
+        try {
+            statusBarItem.text = i18.t('sync.workspace.running');
+            statusBarItem.show();
+
+            let result: deploy_sync.SyncResult = await deploy_sync.synchronizeWorkspace.apply(me,
+                                                                                             [ pkg, target, plugins[0] ]);
+
+            result.skipped.forEach(f => {
+                me.outputChannel.appendLine(i18.t('sync.workspace.skipped', f));
+            });
+            result.conflicts.forEach(f => {
+                me.outputChannel.appendLine(i18.t('sync.workspace.unresolved', f));
+            });
+
+            let resultMsg = i18.t('sync.workspace.finished',
+                                  result.pushed.length, result.pulled.length,
+                                  result.conflicts.length, result.skipped.length);
+
+            me.outputChannel.appendLine(resultMsg);
+
+            if (result.conflicts.length > 0) {
+                vscode.window.showWarningMessage(resultMsg);
+            }
+            else if (deploy_helpers.toBooleanSafe(me.config.showPopupOnSuccess, true)) {
+                vscode.window.showInformationMessage(resultMsg);
+            }
+
+            return result;
+        }
+        finally {
+            deploy_helpers.tryDispose(statusBarItem);
+        }
+    }
+
     /**
      * Gets if a file filter should also use patterns for directories
      * like in .gitignore files or not.
@@ -25,21 +25,73 @@
 
 import * as deploy_contracts from './contracts';
 import * as deploy_helpers from './helpers';
+import * as deploy_markdown from './markdown';
 import * as deploy_objects from './objects';
-import * as deploy_res_css from './resources/css';
-import * as deploy_res_html from './resources/html';
-import * as deploy_res_javascript from './resources/javascript';
-import * as deploy_urls from './urls';
-import * as deploy_values from './values';
+import * as deploy_workspace from './workspace';
+import * as FS from 'fs';
 import * as HtmlEntities from 'html-entities';
 import * as i18 from './i18';
-import * as Marked from 'marked';
+import * as Moment from 'moment';
 import * as Path from 'path';
 import * as vs_deploy from './deploy';
 import * as vscode from 'vscode';
 import * as Workflows from 'node-workflows';
 
 
+/**
+ * An entry of a workspace compare report.
+ */
+export interface CompareEntry {
+    /**
+     * The path of the local file.
+     */
+    file: string;
+    /**
+     * The group.
+     */
+    group: CompareGroup;
+    /**
+     * Information about the local file (if available).
+     */
+    left?: FileInfo;
+    /**
+     * Information about the remote file (if available).
+     */
+    right?: FileInfo;
+}
+
+/**
+ * Groups of a workspace compare report.
+ */
+export type CompareGroup = 'newerLocal' | 'newerRemote' | 'onlyLocal' | 'onlyRemote' | 'sameSizeDifferentContent';
+
+/**
+ * A workspace compare report.
+ */
+export interface CompareReport {
+    /**
+     * The entries.
+     */
+    entries: CompareEntry[];
+    /**
+     * Indicates if remote files have been listed, so 'onlyRemote'
+     * entries are available or not.
+     */
+    hasRemoteFiles: boolean;
+    /**
+     * The underlying package.
+     */
+    package: deploy_contracts.DeployPackage;
+    /**
+     * The underlying target.
+     */
+    target: deploy_contracts.DeployTarget;
+    /**
+     * The time the report has been created.
+     */
+    time: Moment.Moment;
+}
+
 /**
  * An extended compare result.
  */
@@ -111,6 +163,107 @@ export async function checkFiles(files: string[], target: deploy_contracts.Deplo
     return await wf.start();
 }
 
+/**
+ * Compares a local file with a remote one by the hash of its content.
+ * 
+ * @param {string} file The path of the local file.
+ * @param {deploy_contracts.FileInfo} remote The info of the remote file.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * 
+ * @returns {Promise<boolean>} The promise with the value that indicates if contents are the same or not.
+ *                             (null) if the remote file provides no (supported) hash.
+ */
+export async function compareByHash(file: string, remote: deploy_contracts.FileInfo,
+                                    target: deploy_contracts.DeployTarget): Promise<boolean> {
+    if (!remote || !remote.exists) {
+        return null;
+    }
+
+    let transformer = target ? (<deploy_contracts.TransformableDeployTarget>target).transformer : undefined;
+    if (!deploy_helpers.isEmptyString(transformer)) {
+        return null;  // the remote data is transformed
+    }
+
+    let remoteHash = deploy_helpers.normalizeString(remote.hash);
+    let algorithm = deploy_helpers.normalizeString(remote.hashAlgorithm);
+    if ('' === remoteHash || '' === algorithm) {
+        return null;
+    }
+
+    let localHash: string;
+    try {
+        localHash = await deploy_helpers.hashFile(file, algorithm);
+    }
+    catch (e) {
+        deploy_helpers.log(i18.t('errors.withCategory', 'diff.compareByHash()', e));
+
+        return null;  // algorithm is not supported
+    }
+
+    return deploy_helpers.normalizeString(localHash) === remoteHash;
+}
+
+/**
+ * Compares the files of a package with a target.
+ * 
+ * @param {string[]} files The (local) files of the package.
+ * @param {deploy_contracts.DeployPackage} pkg The package.
+ * @param {deploy_contracts.DeployTarget} target The target. 
+ * @param {deploy_contracts.DeployPlugin} plugin The plugin.
+ * 
+ * @returns {Promise<CompareReport>} The promise with the report.
+ */
+export async function compareWorkspace(files: string[], pkg: deploy_contracts.DeployPackage,
+                                       target: deploy_contracts.DeployTarget, plugin: deploy_contracts.DeployPlugin): Promise<CompareReport> {
+    let me: vs_deploy.Deployer = this;
+
+    let differences = await checkFiles(files, target, plugin);
+    if (!Array.isArray(differences)) {
+        throw new Error(i18.t('compare.workspace.notSupported', target.name));
+    }
+
+    let report: CompareReport = {
+        entries: [],
+        hasRemoteFiles: false,
+        package: pkg,
+        target: target,
+        time: Moment(),
+    };
+
+    for (let i = 0; i < differences.length; i++) {
+        let d = differences[i];
+
+        let file = files[i];
+        if (d.left && !deploy_helpers.isEmptyString(d.left.name)) {
+            file = Path.join(d.left.path, d.left.name);
+        }
+
+        let group = await getCompareGroup(file, d, target, plugin);
+        if (group) {
+            report.entries.push({
+                file: file,
+                group: group,
+                left: d.left,
+                right: d.right,
+            });
+        }
+    }
+
+    if (deploy_helpers.toBooleanSafe(plugin.canList) && plugin.listDirectory) {
+        report.entries = report.entries.concat(await findRemoteOnlyFiles.apply(me,
+                                                                               [ files, pkg, target, plugin ]));
+
+        report.hasRemoteFiles = true;
+    }
+
+    report.entries.sort((x, y) => {
+        return deploy_helpers.compareValuesBy(x, y,
+                                              e => deploy_helpers.normalizeString(e.file));
+    });
+
+    return report;
+}
+
 /**
  * Checks for newer files.
  * 
@@ -170,29 +323,14 @@ export async function checkForNewerFiles(files: string[], target: deploy_contrac
 
                 if (!nf.right.error) {
                     try {
-                        if (plugin.canPull) {
-                            let leftData = (await deploy_helpers.loadFrom(Path.join(nf.left.path, nf.left.name))).data;
-                            let rightdata = await plugin.downloadFile(Path.join(nf.left.path, nf.left.name), target);
-                            
-                            let toComparableBuffer = async (b: Buffer): Promise<Buffer> => {
-                                let isBinary = await deploy_helpers.isBinaryContent(b);
-                                if (!isBinary) {
-                                    let str = b.toString('ascii');
-                                    str = deploy_helpers.replaceAllStrings(str, "\r", "");
-                                    str = deploy_helpers.replaceAllStrings(str, "\t", "    ");
-
-                                    b = new Buffer(str, 'ascii');
-                                }
-
-                                return b;
-                            };
-
-                            leftData = await toComparableBuffer(leftData);
-                            rightdata = await toComparableBuffer(rightdata);
-
-                            if (leftData.equals(rightdata)) {
-                                remove = true;
-                            }
+                        let file = Path.join(nf.left.path, nf.left.name);
+
+                        let sameContent = await compareByHash(file, nf.right, target);
+                        if (null !== sameContent) {
+                            remove = sameContent;
+                        }
+                        else if (plugin.canPull) {
+                            remove = await hasSameContent(file, target, plugin);
                         }
                     }
                     catch (e) {
@@ -280,6 +418,162 @@ export async function checkForNewerFiles(files: string[], target: deploy_contrac
     return await wf.start();
 }
 
+/**
+ * Searches for files of a package, which only exist on remote side.
+ * 
+ * @param {string[]} files The (local) files of the package.
+ * @param {deploy_contracts.DeployPackage} pkg The package.
+ * @param {deploy_contracts.DeployTarget} target The target. 
+ * @param {deploy_contracts.DeployPlugin} plugin The plugin.
+ * 
+ * @returns {Promise<CompareEntry[]>} The promise with the (sorted) entries.
+ */
+export async function findRemoteOnlyFiles(files: string[], pkg: deploy_contracts.DeployPackage,
+                                          target: deploy_contracts.DeployTarget, plugin: deploy_contracts.DeployPlugin): Promise<CompareEntry[]> {
+    let me: vs_deploy.Deployer = this;
+
+    let result: CompareEntry[] = [];
+    if (!deploy_helpers.toBooleanSafe(plugin.canList) || !plugin.listDirectory) {
+        return result;  // not supported
+    }
+
+    let rootPath = Path.resolve(deploy_workspace.getRootPath());
+    let localFiles = files.map(f => Path.resolve(f));
+
+    // only the directories of the files of the package
+    // and their parents, instead of the whole workspace
+    let dirsToList: string[] = [ rootPath ];
+    localFiles.forEach(f => {
+        let dir = Path.dirname(f);
+        while (false !== deploy_helpers.toRelativePath(dir) &&
+               dirsToList.indexOf(dir) < 0) {
+            dirsToList.push(dir);
+
+            dir = Path.dirname(dir);
+        }
+    });
+
+    let listDirectory: (dir: string) => Promise<void>;
+    listDirectory = async (dir) => {
+        let entries = await Promise.resolve(plugin.listDirectory(dir, target));
+
+        for (let e of (entries || []).filter(x => x && !deploy_helpers.isEmptyString(x.name))) {
+            let file = Path.join(dir, e.name);
+
+            if (e.isDirectory) {
+                // directories, which do not exist on local side
+                // anymore, have no files in the list of the package
+                if (dirsToList.indexOf(Path.resolve(file)) < 0 && !FS.existsSync(file)) {
+                    await listDirectory(file);
+                }
+
+                continue;
+            }
+
+            if (localFiles.indexOf(Path.resolve(file)) > -1 || FS.existsSync(file)) {
+                continue;  // exists on local side
+            }
+
+            let relativePath = deploy_helpers.toRelativePath(file);
+            if (false === relativePath) {
+                continue;
+            }
+
+            // use the filter of the package
+            if (!deploy_helpers.doesFileMatchByFilter(relativePath.substr(1), pkg) ||
+                me.isFileIgnored(file)) {
+                continue;
+            }
+
+            result.push({
+                file: file,
+                group: 'onlyRemote',
+                right: e,
+            });
+        }
+    };
+
+    for (let i = 0; i < dirsToList.length; i++) {
+        await listDirectory(dirsToList[i]);
+    }
+
+    return result.sort((x, y) => {
+        return deploy_helpers.compareValuesBy(x, y,
+                                              e => deploy_helpers.normalizeString(e.file));
+    });
+}
+
+async function getCompareGroup(file: string, d: FileCompareResult,
+                                target: deploy_contracts.DeployTarget, plugin: deploy_contracts.DeployPlugin): Promise<CompareGroup> {
+    if (!d.right || !d.right.exists) {
+        return 'onlyLocal';
+    }
+
+    let getNewerGroup = (): CompareGroup => {
+        if (d.left.modifyTime && d.right.modifyTime &&
+            d.right.modifyTime.utc().isAfter(d.left.modifyTime.utc())) {
+            return 'newerRemote';
+        }
+
+        return 'newerLocal';
+    };
+
+    let hasSizes = !isNaN(d.left.size) && !isNaN(d.right.size);
+    if (hasSizes && d.left.size !== d.right.size) {
+        return getNewerGroup();
+    }
+
+    let sameContent = await compareByHash(file, d.right, target);
+    if (null === sameContent &&
+        deploy_helpers.toBooleanSafe(plugin.canPull) && plugin.downloadFile) {
+        sameContent = await hasSameContent(file, target, plugin);
+    }
+
+    if (null !== sameContent) {
+        if (sameContent) {
+            return null;  // no difference
+        }
+
+        return hasSizes ? 'sameSizeDifferentContent' : getNewerGroup();
+    }
+
+    // cannot compare content
+    if (d.left.modifyTime && d.right.modifyTime &&
+        !d.right.modifyTime.utc().isSame(d.left.modifyTime.utc())) {
+        return getNewerGroup();
+    }
+
+    return null;
+}
+
+/**
+ * Checks if a local file has the same content as its remote version.
+ * 
+ * @param {string} file The path of the local file.
+ * @param {deploy_contracts.DeployTarget} target The target. 
+ * @param {deploy_contracts.DeployPlugin} plugin The plugin.
+ * @param {deploy_contracts.FileInfo} [remote] The known info of the remote file.
+ *                                             If it provides a hash, the file is not downloaded.
+ * 
+ * @returns {Promise<boolean>} The promise with the value that indicates if contents are the same or not.
+ */
+export async function hasSameContent(file: string,
+                                     target: deploy_contracts.DeployTarget, plugin: deploy_contracts.DeployPlugin,
+                                     remote?: deploy_contracts.FileInfo): Promise<boolean> {
+    let sameContent = await compareByHash(file, remote, target);
+    if (null !== sameContent) {
+        return sameContent;
+    }
+
+    let leftData = (await deploy_helpers.loadFrom(file)).data;
+    let rightData = await Promise.resolve(plugin.downloadFile(file, target));
+
+    leftData = await toComparableBuffer(leftData || Buffer.alloc(0));
+    rightData = await toComparableBuffer(rightData || Buffer.alloc(0));
+
+    return leftData.equals(rightData);
+}
+
 async function showFilesInBrowsers(me: vs_deploy.Deployer,
                                    files: FileCompareResult[], target: deploy_contracts.DeployTarget): Promise<any> {
     let title: string;
@@ -381,72 +675,18 @@ async function showFilesInBrowsers(me: vs_deploy.Deployer,
         markdown += "|\n";
     });
 
-    let header = deploy_res_html.getContentSync('header_markdown_template.html').toString('utf8');
-    let footer = deploy_res_html.getContentSync('footer_markdown_template.html').toString('utf8');
-    let jquery = deploy_res_javascript.getContentSync('jquery.min.js').toString('utf8');
-    let script = deploy_res_javascript.getContentSync('script.js').toString('utf8');
-    
-    let highlightJS = deploy_res_javascript.getContentSync('highlight.pack.js').toString('utf8');
-
-    let css_highlightJS_css = deploy_res_css.getContentSync('highlight.darkula.css').toString('utf8');
-    let css_highlightJS_css_default = deploy_res_css.getContentSync('highlight.default.css').toString('utf8');
-    let css = deploy_res_css.getContentSync('styles.css').toString('utf8');
-
-    let html = header + footer;
-
-    let values: deploy_values.ValueBase[] = [];
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-jQuery',
-        value: JSON.stringify(stringToBase64(jquery)),
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-CSS',
-        value: css,
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-highlightjs-CSS',
-        value: css_highlightJS_css,
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-highlightjs-CSS-default',
-        value: css_highlightJS_css_default,
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-highlightjs',
-        value: JSON.stringify(stringToBase64(highlightJS)),
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-content',
-        value: JSON.stringify(stringToBase64(Marked(markdown, {
-            breaks: true,
-            gfm: true,
-            tables: true,
-        }))),
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-header',
-        value: '',
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-footer',
-        value: '',
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-project-page',
-        value: deploy_urls.PROJECT_PAGE,
-    }));
-    values.push(new deploy_values.StaticValue({
-        name: 'vsDeploy-script',
-        value: JSON.stringify(stringToBase64(script)),
-    }));
-
-    html = deploy_values.replaceWithValues(values, html);
-
-    await me.openHtml(html, '[vs-deploy] ' + title);
+    await deploy_markdown.openMarkdown(me, markdown, title);
 }
 
-function stringToBase64(str: any): string {
-    str = deploy_helpers.toStringSafe(str);
-                                                                
-    return (new Buffer(str, 'utf8')).toString('base64');
+async function toComparableBuffer(b: Buffer): Promise<Buffer> {
+    let isBinary = await deploy_helpers.isBinaryContent(b);
+    if (!isBinary) {
+        let str = b.toString('ascii');
+        str = deploy_helpers.replaceAllStrings(str, "\r", "");
+        str = deploy_helpers.replaceAllStrings(str, "\t", "    ");
+
+        b = new Buffer(str, 'ascii');
+    }
+
+    return b;
 }
@@ -0,0 +1,460 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as Dgram from 'dgram';
+import * as i18 from './i18';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * A deploy host, which has been found in the network.
+ */
+export interface DiscoveredHost {
+    /**
+     * The IP address.
+     */
+    address: string;
+    /**
+     * The name of the host.
+     */
+    name?: string;
+    /**
+     * The TCP port of the host.
+     */
+    port: number;
+    /**
+     * Indicates if the host only accepts TLS connections or not.
+     */
+    tls?: boolean;
+    /**
+     * The name of the workspace of the host.
+     */
+    workspace?: string;
+}
+
+/**
+ * A target, which can use a discovered host as destination.
+ */
+export interface DiscoverableTarget extends deploy_contracts.DeployTarget {
+    /**
+     * Use a discovered host as destination instead of the defined ones.
+     */
+    discover?: boolean;
+    /**
+     * The UDP port, which is used for the discovery.
+     */
+    discoveryPort?: number;
+    /**
+     * The time, in milliseconds, to wait for the answers of the hosts.
+     */
+    discoveryTimeout?: number;
+}
+
+/**
+ * Data, a host announces itself with.
+ */
+export interface HostAnnouncement {
+    /**
+     * The name of the host.
+     */
+    name: string;
+    /**
+     * The TCP port of the host.
+     */
+    port: number;
+    /**
+     * Indicates if the host only accepts TLS connections or not.
+     */
+    tls: boolean;
+    /**
+     * The name of the workspace.
+     */
+    workspace: string;
+}
+
+interface Message {
+    type: string;
+}
+
+
+/**
+ * The default time, in milliseconds, to wait for the answers of the hosts.
+ */
+export const DEFAULT_DISCOVERY_TIMEOUT = 2000;
+const MESSAGE_TYPE_DISCOVER = 'vs-deploy.discover';
+const MESSAGE_TYPE_HOST = 'vs-deploy.host';
+
+let selectedHosts: { [targetName: string]: DiscoveredHost } = {};
+
+
+/**
+ * Starts a responder, which answers discovery requests of clients.
+ * 
+ * @param {number} port The UDP port.
+ * @param {HostAnnouncement} announcement The data to announce.
+ * 
+ * @return {Promise<Dgram.Socket>} The promise with the socket of the responder.
+ */
+export function createResponder(port: number, announcement: HostAnnouncement): Promise<Dgram.Socket> {
+    return new Promise<Dgram.Socket>((resolve, reject) => {
+        let completedInvoked = false;
+        let completed = (err: any, socket?: Dgram.Socket) => {
+            if (completedInvoked) {
+                return;
+            }
+            completedInvoked = true;
+
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(socket);
+            }
+        };
+
+        try {
+            let socket = Dgram.createSocket({
+                reuseAddr: true,
+                type: 'udp4',
+            });
+
+            socket.on('error', (err) => {
+                completed(err);
+            });
+
+            socket.on('message', (msg, rinfo) => {
+                try {
+                    let request = parseMessage(msg);
+                    if (!request || MESSAGE_TYPE_DISCOVER !== request.type) {
+                        return;
+                    }
+
+                    let answer = new Buffer(JSON.stringify({
+                        name: announcement.name,
+                        port: announcement.port,
+                        tls: announcement.tls,
+                        type: MESSAGE_TYPE_HOST,
+                        workspace: announcement.workspace,
+                    }), 'utf8');
+
+                    socket.send(answer, 0, answer.length, rinfo.port, rinfo.address);
+                }
+                catch (e) {
+                    deploy_helpers.log(i18.t('errors.withCategory', 'discovery.createResponder()', e));
+                }
+            });
+
+            socket.bind({
+                port: port,
+            }, () => {
+                completed(null, socket);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Searches for deploy hosts in the network.
+ * 
+ * @param {number} [port] The UDP port of the hosts.
+ * @param {number} [timeout] The time, in milliseconds, to wait for answers.
+ * 
+ * @return {Promise<DiscoveredHost[]>} The promise with the found hosts.
+ */
+export function discoverHosts(port = deploy_contracts.DEFAULT_DISCOVERY_PORT,
+                              timeout = DEFAULT_DISCOVERY_TIMEOUT): Promise<DiscoveredHost[]> {
+    return new Promise<DiscoveredHost[]>((resolve, reject) => {
+        let hosts: DiscoveredHost[] = [];
+
+        let socket: Dgram.Socket;
+
+        let completedInvoked = false;
+        let completed = (err: any) => {
+            if (completedInvoked) {
+                return;
+            }
+            completedInvoked = true;
+
+            try {
+                if (socket) {
+                    socket.close();
+                }
+            }
+            catch (e) {
+                deploy_helpers.log(i18.t('errors.withCategory', 'discovery.discoverHosts()', e));
+            }
+
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(hosts.sort((x, y) => {
+                    return deploy_helpers.compareValuesBy(x, y,
+                                                          h => deploy_helpers.normalizeString(h.name));
+                }));
+            }
+        };
+
+        try {
+            socket = Dgram.createSocket('udp4');
+
+            socket.on('error', (err) => {
+                completed(err);
+            });
+
+            socket.on('message', (msg, rinfo) => {
+                let answer = <HostAnnouncement & Message>parseMessage(msg);
+                if (!answer || MESSAGE_TYPE_HOST !== answer.type) {
+                    return;
+                }
+
+                let hostPort = parseInt(deploy_helpers.toStringSafe(answer.port).trim());
+                if (isNaN(hostPort)) {
+                    return;
+                }
+
+                let alreadyFound = hosts.some(h => {
+                    return h.address === rinfo.address &&
+                           h.port === hostPort;
+                });
+                if (alreadyFound) {
+                    return;
+                }
+
+                hosts.push({
+                    address: rinfo.address,
+                    name: deploy_helpers.toStringSafe(answer.name).trim(),
+                    port: hostPort,
+                    tls: deploy_helpers.toBooleanSafe(answer.tls),
+                    workspace: deploy_helpers.toStringSafe(answer.workspace).trim(),
+                });
+            });
+
+            socket.bind({
+                port: 0,  // random port
+            }, () => {
+                try {
+                    socket.setBroadcast(true);
+
+                    let request = new Buffer(JSON.stringify({
+                        type: MESSAGE_TYPE_DISCOVER,
+                    }), 'utf8');
+
+                    socket.send(request, 0, request.length, port, '255.255.255.255', (err) => {
+                        if (err) {
+                            completed(err);
+                        }
+                        else {
+                            setTimeout(() => {
+                                completed(null);
+                            }, timeout);
+                        }
+                    });
+                }
+                catch (e) {
+                    completed(e);
+                }
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Returns the discovered host, which has been selected for a target.
+ * 
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * 
+ * @return {DiscoveredHost|false} The host or (false) if no host has been selected.
+ */
+export function getSelectedHostOf(target: deploy_contracts.DeployTarget): DiscoveredHost | false {
+    if (target) {
+        let host = selectedHosts[deploy_helpers.normalizeString(target.name)];
+        if (host) {
+            return host;
+        }
+    }
+
+    return false;
+}
+
+function parseMessage(msg: Buffer): Message {
+    try {
+        let obj = JSON.parse(msg.toString('utf8'));
+        if (obj && 'object' === typeof obj) {
+            return obj;
+        }
+    }
+    catch (e) { /* no valid JSON */ }
+
+    return null;
+}
+
+/**
+ * Searches for deploy hosts in the network and lets the user select one for a target.
+ * 
+ * @param {DiscoverableTarget} target The target.
+ * 
+ * @return {Promise<DiscoveredHost>} The promise with the selected host (if selected).
+ */
+export async function selectHostFor(target: DiscoverableTarget): Promise<DiscoveredHost> {
+    let port = parseInt(deploy_helpers.toStringSafe(target.discoveryPort).trim());
+    if (isNaN(port)) {
+        port = deploy_contracts.DEFAULT_DISCOVERY_PORT;
+    }
+
+    let timeout = parseInt(deploy_helpers.toStringSafe(target.discoveryTimeout).trim());
+    if (isNaN(timeout)) {
+        timeout = DEFAULT_DISCOVERY_TIMEOUT;
+    }
+
+    let targetName = deploy_helpers.toStringSafe(target.name).trim();
+
+    const SEARCH = discoverHosts(port, timeout);
+    vscode.window.setStatusBarMessage(i18.t('discovery.searching'), SEARCH);
+
+    const HOSTS = await SEARCH;
+    if (HOSTS.length < 1) {
+        vscode.window.showWarningMessage('[vs-deploy] ' + i18.t('discovery.noHosts'));
+        return;
+    }
+
+    const CURRENT_HOST = getSelectedHostOf(target);
+
+    const QUICK_PICKS = HOSTS.map(h => {
+        let isSelected = false;
+        if (CURRENT_HOST) {
+            isSelected = CURRENT_HOST.address === h.address &&
+                         CURRENT_HOST.port === h.port;
+        }
+
+        let label = h.name;
+        if ('' === label) {
+            label = h.address;
+        }
+
+        let detail = h.workspace;
+        if (isSelected) {
+            detail = `${detail} (${i18.t('selected')})`.trim();
+        }
+
+        return {
+            description: `${h.address}:${h.port}` + (h.tls ? ' (TLS)' : ''),
+            detail: detail,
+            host: h,
+            label: label,
+        };
+    });
+
+    const SELECTED_ITEM = await vscode.window.showQuickPick(QUICK_PICKS, {
+        placeHolder: i18.t('discovery.selectHost', targetName),
+    });
+    if (!SELECTED_ITEM) {
+        return;
+    }
+
+    const HOST = SELECTED_ITEM.host;
+    setSelectedHostFor(target, HOST);
+
+    return HOST;
+}
+
+/**
+ * Lets the user select a discovered host as destination for a 'remote' target.
+ */
+export async function selectRemoteHost() {
+    const ME: vs_deploy.Deployer = this;
+
+    const TARGETS = <DiscoverableTarget[]>ME.getTargets().filter(t => {
+        return 'remote' === deploy_helpers.normalizeString(t.type);
+    });
+
+    if (TARGETS.length < 1) {
+        vscode.window.showWarningMessage('[vs-deploy] ' + i18.t('discovery.noTargets'));
+        return;
+    }
+
+    let target: DiscoverableTarget;
+    if (1 === TARGETS.length) {
+        target = TARGETS[0];
+    }
+    else {
+        const SELECTED_ITEM = await vscode.window.showQuickPick(TARGETS.map((t, i) => {
+            let label = deploy_helpers.toStringSafe(t.name).trim();
+            if ('' === label) {
+                label = i18.t('targets.defaultName', i + 1);
+            }
+
+            return {
+                description: deploy_helpers.toStringSafe(t.description).trim(),
+                label: label,
+                target: t,
+            };
+        }), {
+            placeHolder: i18.t('discovery.selectTarget'),
+        });
+        if (SELECTED_ITEM) {
+            target = SELECTED_ITEM.target;
+        }
+    }
+
+    if (!target) {
+        return;
+    }
+
+    const HOST = await selectHostFor(target);
+    if (HOST) {
+        ME.outputChannel.appendLine(i18.t('discovery.selected',
+                                          `${HOST.address}:${HOST.port}`, target.name));
+    }
+}
+
+/**
+ * Sets the discovered host for a target.
+ * 
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * @param {DiscoveredHost} host The host.
+ */
+export function setSelectedHostFor(target: deploy_contracts.DeployTarget, host: DiscoveredHost) {
+    if (!target) {
+        return;
+    }
+
+    let name = deploy_helpers.normalizeString(target.name);
+    if (host) {
+        selectedHosts[name] = host;
+    }
+    else {
+        delete selectedHosts[name];
+    }
+}
@@ -0,0 +1,307 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as deploy_markdown from './markdown';
+import * as deploy_packages from './packages';
+import * as deploy_plugins from './plugins';
+import * as HtmlEntities from 'html-entities';
+import * as i18 from './i18';
+import * as vs_deploy from './deploy';
+
+
+/**
+ * A planned operation of a dry run.
+ */
+export interface PlannedOperation {
+    /**
+     * The destination, as reported by the plugin.
+     */
+    destination?: string;
+    /**
+     * The error (if occurred).
+     */
+    error?: any;
+    /**
+     * The local file.
+     */
+    file: string;
+}
+
+interface PlannedOperationTreeNode {
+    children: { [name: string]: PlannedOperationTreeNode };
+    files: PlannedOperationTreeNodeFile[];
+}
+
+interface PlannedOperationTreeNodeFile {
+    file: string;
+    name: string;
+}
+
+const REGEX_DESTINATION_PREFIX = /^(\s*)(\[)([^\]]*)(\])(\s*)/;
+
+
+/**
+ * Simulates the deployment of files to a target (dry run)
+ * and shows the planned operations.
+ * 
+ * @param {string[]} files The files to deploy.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * @param {deploy_contracts.DeployPackage} [pkg] The underlying package (if available).
+ * 
+ * @returns {Promise<PlannedOperation[]>} The promise with the planned operations.
+ */
+export async function dryRunWorkspace(files: string[], target: deploy_contracts.DeployTarget,
+                                      pkg?: deploy_contracts.DeployPackage): Promise<PlannedOperation[]> {
+    let me: vs_deploy.Deployer = this;
+
+    files = deploy_helpers.asArray(files).filter(f => !deploy_helpers.isEmptyString(f));
+
+    let skippedFiles = files.filter(f => me.isFileIgnored(f));
+    files = files.filter(f => skippedFiles.indexOf(f) < 0);
+
+    me.outputChannel.append(i18.t('deploy.dryRun.running', files.length, target.name));
+
+    let type = deploy_helpers.parseTargetType(target.type);
+
+    let matchingPlugins = me.pluginsWithContextes.filter(x => {
+        return !type ||
+               (x.plugin.__type === type && x.plugin.deployWorkspace);
+    });
+    if (matchingPlugins.length < 1) {
+        me.outputChannel.appendLine('');
+
+        if (type) {
+            throw new Error(i18.t('deploy.noPluginsForType', type));
+        }
+        else {
+            throw new Error(i18.t('deploy.noPlugins'));
+        }
+    }
+
+    let operations: PlannedOperation[] = [];
+    let filesToRemove: string[] = [];
+    for (let i = 0; i < matchingPlugins.length; i++) {
+        let pwc = matchingPlugins[i];
+        let contextToUse = deploy_plugins.createPluginContext(pwc.context);
+
+        try {
+            await new Promise<any>((resolve, reject) => {
+                pwc.plugin.deployWorkspace(files, target, {
+                    context: contextToUse,
+                    dryRun: true,
+                    incremental: deploy_packages.getIncrementalSetting(pkg),
+                    mirror: deploy_packages.getMirrorSetting(pkg,
+                                                             me.useGitIgnoreStylePatternsInFilter(pkg)),
+
+                    onBeforeDeployFile: (sender, e) => {
+                        operations.push({
+                            destination: deploy_helpers.toStringSafe(e.destination),
+                            file: e.file,
+                        });
+                    },
+
+                    onBeforeRemoveFile: (sender, e) => {
+                        if (filesToRemove.indexOf(e.file) < 0) {
+                            filesToRemove.push(e.file);
+                        }
+                    },
+
+                    onCompleted: (sender, e) => {
+                        if (e.error) {
+                            reject(e.error);
+                        }
+                        else {
+                            resolve();
+                        }
+                    },
+
+                    onFileCompleted: (sender, e) => {
+                        if (e.error) {
+                            operations.push({
+                                error: e.error,
+                                file: e.file,
+                            });
+                        }
+                    },
+                });
+            });
+        }
+        finally {
+            deploy_helpers.tryDispose(contextToUse);
+        }
+    }
+
+    me.outputChannel.appendLine(i18.t('ok'));
+
+    await showPlannedOperations(me, operations, skippedFiles, filesToRemove, target);
+
+    return operations;
+}
+
+async function showPlannedOperations(me: vs_deploy.Deployer,
+                                     operations: PlannedOperation[], skippedFiles: string[], filesToRemove: string[],
+                                     target: deploy_contracts.DeployTarget): Promise<any> {
+    let title: string;
+    if (deploy_helpers.isNullUndefinedOrEmptyString(target.name)) {
+        title = i18.t('deploy.dryRun.titleNoTarget');
+    }
+    else {
+        title = i18.t('deploy.dryRun.title', target.name);
+    }
+
+    let htmlEncoder = new HtmlEntities.AllHtmlEntities();
+
+    let toDisplayPath = (file: string) => {
+        let relativePath = deploy_helpers.toRelativePath(file);
+
+        return false === relativePath ? file : relativePath;
+    };
+
+    let plannedOperations = operations.filter(x => !x.error);
+    let failedOperations = operations.filter(x => x.error);
+
+    // build tree from destinations
+    let root: PlannedOperationTreeNode = {
+        children: {},
+        files: [],
+    };
+    plannedOperations.forEach(x => {
+        let dest = deploy_helpers.toStringSafe(x.destination);
+
+        let segments: string[] = [];
+
+        // prefixes like '[target] ' of
+        // "multi target" plugins, like 'batch'
+        let match: RegExpExecArray;
+        while (match = REGEX_DESTINATION_PREFIX.exec(dest)) {
+            segments.push(`[${match[3]}]`);
+            dest = dest.substr(match[0].length);
+        }
+
+        let pathSegments = deploy_helpers.replaceAllStrings(dest, "\\", '/')
+                                         .split('/')
+                                         .map(s => s.trim())
+                                         .filter(s => '' !== s);
+
+        let name = pathSegments.pop();
+        segments = segments.concat(pathSegments);
+
+        if (deploy_helpers.isEmptyString(x.destination)) {
+            segments = [ i18.t('deploy.dryRun.unknownDestination') ];
+        }
+
+        let node = root;
+        segments.forEach(s => {
+            if (!node.children[s]) {
+                node.children[s] = {
+                    children: {},
+                    files: [],
+                };
+            }
+
+            node = node.children[s];
+        });
+
+        node.files.push({
+            file: toDisplayPath(x.file),
+            name: deploy_helpers.toStringSafe(name),
+        });
+    });
+
+    let markdown = `# ${htmlEncoder.encode(title)}\n\n`;
+    markdown += htmlEncoder.encode(i18.t('deploy.dryRun.summary',
+                                         plannedOperations.length, skippedFiles.length)) + "\n\n";
+
+    // planned operations
+    markdown += `## ${htmlEncoder.encode(i18.t('deploy.dryRun.plannedOperations'))}\n\n`;
+    {
+        let appendNode = (node: PlannedOperationTreeNode, level: number) => {
+            let indent = '    '.repeat(level);
+
+            Object.keys(node.children).sort((x, y) => {
+                return deploy_helpers.compareValues(deploy_helpers.normalizeString(x),
+                                                    deploy_helpers.normalizeString(y));
+            }).forEach(name => {
+                markdown += `${indent}- **${htmlEncoder.encode(name)}/**\n`;
+
+                appendNode(node.children[name], level + 1);
+            });
+
+            node.files.slice().sort((x, y) => {
+                return deploy_helpers.compareValuesBy(x, y,
+                                                      t => deploy_helpers.normalizeString(t.name));
+            }).forEach(x => {
+                markdown += indent + '- ';
+                if ('' !== x.name) {
+                    markdown += `${htmlEncoder.encode(x.name)} &larr; `;
+                }
+                markdown += `*${htmlEncoder.encode(x.file)}*\n`;
+            });
+        };
+
+        appendNode(root, 0);
+    }
+    markdown += "\n";
+
+    // files, which would be removed ("mirror" mode)
+    if (filesToRemove.length > 0) {
+        markdown += `## ${htmlEncoder.encode(i18.t('deploy.dryRun.filesToRemove'))}\n\n`;
+
+        filesToRemove.map(f => toDisplayPath(f)).sort((x, y) => {
+            return deploy_helpers.compareValues(deploy_helpers.normalizeString(x),
+                                                deploy_helpers.normalizeString(y));
+        }).forEach(f => {
+            markdown += `- *${htmlEncoder.encode(f)}*\n`;
+        });
+        markdown += "\n";
+    }
+
+    // skipped files
+    if (skippedFiles.length > 0) {
+        markdown += `## ${htmlEncoder.encode(i18.t('deploy.dryRun.skippedFiles'))}\n\n`;
+
+        skippedFiles.map(f => toDisplayPath(f)).sort((x, y) => {
+            return deploy_helpers.compareValues(deploy_helpers.normalizeString(x),
+                                                deploy_helpers.normalizeString(y));
+        }).forEach(f => {
+            markdown += `- *${htmlEncoder.encode(f)}*\n`;
+        });
+        markdown += "\n";
+    }
+
+    // errors
+    if (failedOperations.length > 0) {
+        markdown += `## ${htmlEncoder.encode(i18.t('deploy.dryRun.failedFiles'))}\n\n`;
+
+        failedOperations.forEach(x => {
+            markdown += `- *${htmlEncoder.encode(toDisplayPath(x.file))}*: ${htmlEncoder.encode(deploy_helpers.toStringSafe(x.error))}\n`;
+        });
+        markdown += "\n";
+    }
+
+    await deploy_markdown.openMarkdown(me, markdown, title);
+}
@@ -0,0 +1,415 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_globals from './globals';
+import * as deploy_helpers from './helpers';
+import * as deploy_workspace from './workspace';
+import * as FS from 'fs';
+import * as i18 from './i18';
+import * as Path from 'path';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * An item of the remote explorer.
+ */
+export interface RemoteExplorerItem {
+    /**
+     * The entry of the remote directory (if available).
+     */
+    entry?: deploy_contracts.DirectoryEntry;
+    /**
+     * The path of the local file / directory.
+     */
+    file: string;
+    /**
+     * The label.
+     */
+    label: string;
+    /**
+     * The underlying target.
+     */
+    target: deploy_contracts.DeployTarget;
+    /**
+     * The type.
+     */
+    type: RemoteExplorerItemType;
+}
+
+/**
+ * Type of a remote explorer item.
+ */
+export type RemoteExplorerItemType = 'directory' | 'file' | 'target';
+
+
+/**
+ * The URI scheme for remote files.
+ */
+export const URI_SCHEME = 'vs-deploy-remote';
+/**
+ * The ID of the view.
+ */
+export const VIEW_ID = 'vsDeployRemoteExplorer';
+
+
+/**
+ * A tree data provider, which browses the targets that can list and pull files.
+ */
+export class RemoteExplorerTreeDataProvider implements vscode.TreeDataProvider<RemoteExplorerItem>, vscode.Disposable {
+    /**
+     * Stores the listener for reloaded configurations.
+     */
+    protected readonly _CONFIG_RELOADED_LISTENER: () => void;
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: vs_deploy.Deployer;
+    /**
+     * Stores the event emitter for changes.
+     */
+    protected readonly _ON_DID_CHANGE_TREE_DATA = new vscode.EventEmitter<RemoteExplorerItem>();
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vs_deploy.Deployer} deployer The underlying deployer.
+     */
+    constructor(deployer: vs_deploy.Deployer) {
+        this._DEPLOYER = deployer;
+
+        this._CONFIG_RELOADED_LISTENER = () => {
+            this.refresh();
+        };
+
+        deploy_globals.EVENTS.on(deploy_contracts.EVENT_CONFIG_RELOADED,
+                                 this._CONFIG_RELOADED_LISTENER);
+    }
+
+    /**
+     * Collects the local paths of all files inside an item.
+     * 
+     * @param {RemoteExplorerItem} item The item.
+     * 
+     * @return {Promise<string[]>} The promise with the paths.
+     */
+    protected async collectFiles(item: RemoteExplorerItem): Promise<string[]> {
+        if ('file' === item.type) {
+            return [ item.file ];
+        }
+
+        let files: string[] = [];
+        for (let child of await this.listItems(item)) {
+            files = files.concat(await this.collectFiles(child));
+        }
+
+        return files;
+    }
+
+    /**
+     * Gets the underlying deployer.
+     */
+    public get deployer(): vs_deploy.Deployer {
+        return this._DEPLOYER;
+    }
+
+    /**
+     * Compares a remote file with its local copy.
+     * 
+     * @param {RemoteExplorerItem} item The item of the file.
+     */
+    public async diffFile(item: RemoteExplorerItem) {
+        if (!item || 'file' !== item.type) {
+            return;
+        }
+
+        if (!FS.existsSync(item.file)) {
+            vscode.window.showWarningMessage(i18.t('remoteExplorer.localFileNotFound', item.file));
+            return;
+        }
+
+        let relativePath = toRelativePathSafe(item.file);
+
+        await vscode.commands.executeCommand('vscode.diff',
+                                             toRemoteUri(item.file, item.target), vscode.Uri.file(item.file),
+                                             `[vs-deploy] Diff '${relativePath}' (${deploy_helpers.toStringSafe(item.target.name).trim()})`);
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        deploy_globals.EVENTS.removeListener(deploy_contracts.EVENT_CONFIG_RELOADED,
+                                             this._CONFIG_RELOADED_LISTENER);
+
+        deploy_helpers.tryDispose(this._ON_DID_CHANGE_TREE_DATA);
+    }
+
+    /** @inheritdoc */
+    public async getChildren(element?: RemoteExplorerItem): Promise<RemoteExplorerItem[]> {
+        let me = this;
+
+        if (!element) {
+            let rootPath = deploy_workspace.getRootPath();
+
+            return deploy_helpers.sortTargets(me.deployer.getTargets())
+                                 .filter(t => !deploy_helpers.toBooleanSafe(t.isHidden))
+                                 .filter(t => getListingPlugins(me.deployer, t).length > 0)
+                                 .map(t => {
+                                          return {
+                                              file: rootPath,
+                                              label: deploy_helpers.toStringSafe(t.name).trim(),
+                                              target: t,
+                                              type: <RemoteExplorerItemType>'target',
+                                          };
+                                      });
+        }
+
+        if ('file' === element.type) {
+            return [];
+        }
+
+        try {
+            return await me.listItems(element);
+        }
+        catch (e) {
+            me.deployer.log(i18.t('errors.withCategory', 'RemoteExplorerTreeDataProvider.getChildren()', e));
+
+            vscode.window.showErrorMessage(i18.t('remoteExplorer.errors.listFailed',
+                                                 toRelativePathSafe(element.file), element.target.name, e));
+            return [];
+        }
+    }
+
+    /** @inheritdoc */
+    public getTreeItem(element: RemoteExplorerItem): vscode.TreeItem {
+        let item = new vscode.TreeItem(element.label,
+                                       'file' === element.type ? vscode.TreeItemCollapsibleState.None
+                                                               : vscode.TreeItemCollapsibleState.Collapsed);
+        item.contextValue = element.type;
+
+        if ('file' === element.type) {
+            item.command = {
+                arguments: [ element ],
+                command: 'extension.deploy.remoteExplorer.open',
+                title: '',
+            };
+
+            let entry = element.entry;
+            if (entry) {
+                let modifyTime = entry.modifyTime ? entry.modifyTime.format('YYYY-MM-DD HH:mm:ss')
+                                                  : '';
+
+                let description = i18.t('remoteExplorer.fileDetails',
+                                        isNaN(entry.size) ? '?' : entry.size, modifyTime);
+
+                item.tooltip = description;
+
+                // 'description' is not available in older versions
+                (<any>item).description = description;
+            }
+        }
+        else if ('target' === element.type) {
+            item.tooltip = deploy_helpers.toStringSafe(element.target.description).trim() ||
+                           deploy_helpers.parseTargetType(element.target.type);
+        }
+
+        return item;
+    }
+
+    /**
+     * Lists the children of a directory item.
+     * 
+     * @param {RemoteExplorerItem} item The item.
+     * 
+     * @return {Promise<RemoteExplorerItem[]>} The promise with the child items.
+     */
+    protected async listItems(item: RemoteExplorerItem): Promise<RemoteExplorerItem[]> {
+        let plugins = getListingPlugins(this.deployer, item.target);
+        if (plugins.length < 1) {
+            return [];
+        }
+
+        let entries = await Promise.resolve(plugins[0].listDirectory(item.file, item.target));
+
+        return (entries || []).filter(e => e && !deploy_helpers.isEmptyString(e.name))
+                              .sort((x, y) => {
+                                        let comp0 = deploy_helpers.compareValues(x.isDirectory ? 0 : 1,
+                                                                                 y.isDirectory ? 0 : 1);
+                                        if (0 !== comp0) {
+                                            return comp0;
+                                        }
+
+                                        return deploy_helpers.compareValues(deploy_helpers.normalizeString(x.name),
+                                                                            deploy_helpers.normalizeString(y.name));
+                                    })
+                              .map(e => {
+                                       return {
+                                           entry: e,
+                                           file: Path.join(item.file, e.name),
+                                           label: e.name,
+                                           target: item.target,
+                                           type: <RemoteExplorerItemType>(e.isDirectory ? 'directory' : 'file'),
+                                       };
+                                   });
+    }
+
+    /** @inheritdoc */
+    public get onDidChangeTreeData(): vscode.Event<RemoteExplorerItem> {
+        return this._ON_DID_CHANGE_TREE_DATA.event;
+    }
+
+    /**
+     * Opens a remote file (read-only).
+     * 
+     * @param {RemoteExplorerItem} item The item of the file.
+     */
+    public async openFile(item: RemoteExplorerItem) {
+        if (!item || 'file' !== item.type) {
+            return;
+        }
+
+        let doc = await vscode.workspace.openTextDocument(toRemoteUri(item.file, item.target));
+
+        await vscode.window.showTextDocument(doc);
+    }
+
+    /**
+     * Pulls the file(s) of an item.
+     * 
+     * @param {RemoteExplorerItem} item The item.
+     */
+    public async pull(item: RemoteExplorerItem) {
+        if (!item) {
+            return;
+        }
+
+        let files = await this.collectFiles(item);
+        if (files.length < 1) {
+            vscode.window.showWarningMessage(i18.t('remoteExplorer.noFiles'));
+            return;
+        }
+
+        await this.deployer.pullWorkspaceFrom(files, item.target);
+    }
+
+    /**
+     * Refreshes the view.
+     */
+    public refresh() {
+        this._ON_DID_CHANGE_TREE_DATA.fire();
+    }
+}
+
+/**
+ * Provides the content of remote files.
+ */
+export class RemoteFileContentProvider implements vscode.TextDocumentContentProvider {
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: vs_deploy.Deployer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vs_deploy.Deployer} deployer The underlying deployer.
+     */
+    constructor(deployer: vs_deploy.Deployer) {
+        this._DEPLOYER = deployer;
+    }
+
+    /**
+     * Gets the underlying deployer.
+     */
+    public get deployer(): vs_deploy.Deployer {
+        return this._DEPLOYER;
+    }
+
+    /** @inheritdoc */
+    public async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+        let params = deploy_helpers.uriParamsToObject(uri);
+
+        let targetName = deploy_helpers.normalizeString(decodeURIComponent(deploy_helpers.getUrlParam(params, 'target')));
+
+        let target = this.deployer.getTargets().filter(t => {
+            return deploy_helpers.normalizeString(t.name) === targetName;
+        })[0];
+        if (!target) {
+            throw new Error(i18.t('targets.notFound', targetName));
+        }
+
+        let plugins = getPullPlugins(this.deployer, target);
+        if (plugins.length < 1) {
+            throw new Error(i18.t('remoteExplorer.errors.notSupported', target.name));
+        }
+
+        let file = Path.join(deploy_workspace.getRootPath(), uri.path);
+
+        let data = await Promise.resolve(plugins[0].downloadFile(file, target));
+
+        return data ? data.toString('utf8') : '';
+    }
+}
+
+
+function getListingPlugins(deployer: vs_deploy.Deployer, target: deploy_contracts.DeployTarget): deploy_contracts.DeployPlugin[] {
+    return getPullPlugins(deployer, target).filter(p => {
+        return deploy_helpers.toBooleanSafe(p.canList) && p.listDirectory;
+    });
+}
+
+function getPullPlugins(deployer: vs_deploy.Deployer, target: deploy_contracts.DeployTarget): deploy_contracts.DeployPlugin[] {
+    let type = deploy_helpers.parseTargetType(target.type);
+
+    return deployer.plugins.filter(p => {
+        return p.__type === type &&
+               deploy_helpers.toBooleanSafe(p.canPull) && p.downloadFile;
+    });
+}
+
+function toRelativePathSafe(file: string): string {
+    let relativePath = deploy_helpers.toRelativePath(file);
+    if (false === relativePath) {
+        relativePath = file;
+    }
+
+    return relativePath;
+}
+
+/**
+ * Returns the URI of the remote version of a local file, which can be
+ * opened (read-only) in an editor.
+ * 
+ * @param {string} file The path of the local file.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * 
+ * @return {vscode.Uri} The URI.
+ */
+export function toRemoteUri(file: string, target: deploy_contracts.DeployTarget): vscode.Uri {
+    let relativePath = toRelativePathSafe(file);
+
+    return vscode.Uri.parse(`${URI_SCHEME}://${encodeURIComponent(deploy_helpers.normalizeString(target.type) || 'target')}` +
+                            `${relativePath.split('/').map(x => encodeURIComponent(x)).join('/')}?target=${encodeURIComponent(deploy_helpers.toStringSafe(target.name))}`);
+}
@@ -25,9 +25,13 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 // DEALINGS IN THE SOFTWARE.
 
+import * as deploy_compareview from './compareview';
 import * as deploy_content from './content';
 import * as deploy_contracts from './contracts';
+import * as deploy_explorer from './explorer';
 import * as deploy_helpers from './helpers';
+import * as deploy_hostview from './hostview';
+import * as deploy_objects from './objects';
 import * as deploy_workspace from './workspace';
 import * as FS from 'fs';
 import * as Moment from 'moment';
@@ -55,7 +59,7 @@ export function activate(context: vscode.ExtensionContext) {
         deploy_helpers.log(`[ERROR] extension.activate().packageFile: ${deploy_helpers.toStringSafe(e)}`);
     }
 
-    let outputChannel = vscode.window.createOutputChannel("Deploy");
+    let outputChannel: vscode.OutputChannel = new deploy_objects.EventOutputChannel(vscode.window.createOutputChannel("Deploy"));
 
     // show infos about the app
     {
@@ -88,6 +92,75 @@ export function activate(context: vscode.ExtensionContext) {
         return code;
     });
 
+    // deploy files changed in git
+    let deployGitChanges = vscode.commands.registerCommand('extension.deploy.deployGitChanges', async () => {
+        let code: number;
+
+        await deployer.showWarningIfNotActive(async () => {
+            try {
+                code = await deployer.deployGitChanges();
+            }
+            catch (e) {
+                vscode.window.showErrorMessage(deploy_helpers.toStringSafe(e));
+            }
+        });
+
+        return code;
+    });
+
+    // simulate deployment of workspace
+    let dryRun = vscode.commands.registerCommand('extension.deploy.dryRun', async () => {
+        let code: number;
+
+        await deployer.showWarningIfNotActive(async () => {
+            try {
+                code = await deployer.deployWorkspace(null, null, true);
+            }
+            catch (e) {
+                vscode.window.showErrorMessage(deploy_helpers.toStringSafe(e));
+            }
+        });
+
+        return code;
+    });
+
+    // resume last (unfinished) deployment of workspace
+    let resumeLastDeployment = vscode.commands.registerCommand('extension.deploy.resumeLastDeployment', async () => {
+        let result: boolean;
+
+        await deployer.showWarningIfNotActive(async () => {
+            try {
+                result = await deployer.resumeLastDeployment();
+            }
+            catch (e) {
+                vscode.window.showErrorMessage(deploy_helpers.toStringSafe(e));
+            }
+        });
+
+        return result;
+    });
+
+    // show history of deployments
+    let showHistory = vscode.commands.registerCommand('extension.deploy.showHistory', async () => {
+        await deployer.showWarningIfNotActive(async () => {
+            await deployer.showHistory();
+        });
+    });
+
+    // restore previous versions of last deployment
+    let rollback = vscode.commands.registerCommand('extension.deploy.rollback', async () => {
+        await deployer.showWarningIfNotActive(async () => {
+            await deployer.rollback();
+        });
+    });
+
+    // switch target back to previous release
+    let rollbackRelease = vscode.commands.registerCommand('extension.deploy.rollbackRelease', async () => {
+        await deployer.showWarningIfNotActive(async () => {
+            await deployer.rollbackRelease();
+        });
+    });
+
     // compare local file with remote
     let compareFiles = vscode.commands.registerCommand('extension.deploy.compareFiles', async (u?) => {
         await deployer.showWarningIfNotActive(async () => {
@@ -250,6 +323,163 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    let selectRemoteHost = vscode.commands.registerCommand('extension.deploy.selectRemoteHost', async () => {
+        try {
+            await deployer.selectRemoteHost();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[SELECT REMOTE HOST ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    // deploy host view
+    let hostView = new deploy_hostview.HostTreeDataProvider(deployer);
+    let hostViewRegistration = vscode.window.registerTreeDataProvider(deploy_hostview.VIEW_ID, hostView);
+
+    let stopHost = vscode.commands.registerCommand('extension.deploy.host.stop', () => {
+        try {
+            deployer.stopHost();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[STOP HOST ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let blockClient = vscode.commands.registerCommand('extension.deploy.host.blockClient', (item?: deploy_hostview.HostViewItem) => {
+        try {
+            if (item && deployer.host) {
+                deployer.host.blockAddress(item.address);
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[BLOCK CLIENT ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let unblockClient = vscode.commands.registerCommand('extension.deploy.host.unblockClient', (item?: deploy_hostview.HostViewItem) => {
+        try {
+            if (item && deployer.host) {
+                deployer.host.unblockAddress(item.address);
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[UNBLOCK CLIENT ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    // remote explorer
+    let remoteExplorer = new deploy_explorer.RemoteExplorerTreeDataProvider(deployer);
+    let remoteExplorerRegistration = vscode.window.registerTreeDataProvider(deploy_explorer.VIEW_ID, remoteExplorer);
+
+    let remoteFileViewer = vscode.workspace.registerTextDocumentContentProvider(deploy_explorer.URI_SCHEME,
+                                                                                new deploy_explorer.RemoteFileContentProvider(deployer));
+
+    let refreshRemoteExplorer = vscode.commands.registerCommand('extension.deploy.remoteExplorer.refresh', () => {
+        try {
+            remoteExplorer.refresh();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[REFRESH REMOTE EXPLORER ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let openRemoteFile = vscode.commands.registerCommand('extension.deploy.remoteExplorer.open', async (item?: deploy_explorer.RemoteExplorerItem) => {
+        try {
+            await remoteExplorer.openFile(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[OPEN REMOTE FILE ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let diffRemoteFile = vscode.commands.registerCommand('extension.deploy.remoteExplorer.diff', async (item?: deploy_explorer.RemoteExplorerItem) => {
+        try {
+            await remoteExplorer.diffFile(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[DIFF REMOTE FILE ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let pullRemoteItem = vscode.commands.registerCommand('extension.deploy.remoteExplorer.pull', async (item?: deploy_explorer.RemoteExplorerItem) => {
+        try {
+            await remoteExplorer.pull(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[PULL REMOTE ITEM ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    // workspace compare report
+    let compareView = new deploy_compareview.CompareTreeDataProvider(deployer);
+    let compareViewRegistration = vscode.window.registerTreeDataProvider(deploy_compareview.VIEW_ID, compareView);
+
+    let compareWorkspace = vscode.commands.registerCommand('extension.deploy.compareWorkspace', async () => {
+        try {
+            await deployer.compareWorkspace();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[COMPARE WORKSPACE ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let clearCompareReport = vscode.commands.registerCommand('extension.deploy.compareWorkspace.clear', () => {
+        try {
+            deployer.clearCompareReport();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[CLEAR COMPARE REPORT ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let refreshCompareReport = vscode.commands.registerCommand('extension.deploy.compareWorkspace.refresh', async () => {
+        try {
+            let report = deployer.compareReport;
+            if (report) {
+                await deployer.compareWorkspace(report.package, report.target);
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[REFRESH COMPARE REPORT ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let deployCompareEntry = vscode.commands.registerCommand('extension.deploy.compareWorkspace.deploy', async (item?: deploy_compareview.CompareViewItem) => {
+        try {
+            await compareView.deploy(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[DEPLOY COMPARE ENTRY ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let diffCompareEntry = vscode.commands.registerCommand('extension.deploy.compareWorkspace.diff', async (item?: deploy_compareview.CompareViewItem) => {
+        try {
+            await compareView.diff(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[DIFF COMPARE ENTRY ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let pullCompareEntry = vscode.commands.registerCommand('extension.deploy.compareWorkspace.pull', async (item?: deploy_compareview.CompareViewItem) => {
+        try {
+            await compareView.pull(item);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[PULL COMPARE ENTRY ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
+    let syncWorkspace = vscode.commands.registerCommand('extension.deploy.syncWorkspace', async () => {
+        try {
+            await deployer.synchronizeWorkspace();
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`[SYNC WORKSPACE ERROR]: ${deploy_helpers.toStringSafe(e)}`);
+        }
+    });
+
     let htmlViewer = vscode.workspace.registerTextDocumentContentProvider('vs-deploy-html',
                                                                           new deploy_content.HtmlTextDocumentContentProvider(deployer));
 
@@ -265,15 +495,20 @@ export function activate(context: vscode.ExtensionContext) {
                                                                          deployer));
 
     context.subscriptions.push(deployer,
-                               changeSwitch,
-                               compareFiles,
-                               deploy, deployFileOrFolder, deployFilesTo, getTargets,
-                               htmlViewer,
+                               blockClient,
+                               changeSwitch, clearCompareReport,
+                               compareFiles, compareView, compareViewRegistration, compareWorkspace,
+                               deploy, deployCompareEntry, deployFileOrFolder, deployFilesTo, deployGitChanges, diffCompareEntry, diffRemoteFile, dryRun, getTargets,
+                               hostView, hostViewRegistration, htmlViewer,
                                listen,
-                               pull, pullFileOrFolder,
-                               selectWorkspace,
-                               openHtmlDoc, openOutputAfterDeploment, openTemplate, 
-                               quickDeploy);
+                               pull, pullCompareEntry, pullFileOrFolder, pullRemoteItem,
+                               selectRemoteHost, selectWorkspace,
+                               openHtmlDoc, openOutputAfterDeploment, openRemoteFile, openTemplate, 
+                               quickDeploy,
+                               refreshCompareReport, refreshRemoteExplorer, remoteExplorer, remoteExplorerRegistration, remoteFileViewer,
+                               resumeLastDeployment, rollback, rollbackRelease,
+                               showHistory, stopHost, syncWorkspace,
+                               unblockClient);
 
     // tell the "deployer" that anything has been activated
     deployer.onActivated();
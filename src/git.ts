@@ -0,0 +1,102 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as ChildProcess from 'child_process';
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as FS from 'fs';
+import * as i18 from './i18';
+import * as Path from 'path';
+
+
+const MAX_OUTPUT_SIZE = 64 * 1024 * 1024;
+
+
+function execGit(cwd: string, args: string[]): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        try {
+            ChildProcess.execFile('git', args, {
+                cwd: cwd,
+                encoding: 'utf8',
+                maxBuffer: MAX_OUTPUT_SIZE,
+            }, (err, stdout, stderr) => {
+                if (err) {
+                    let msg = deploy_helpers.toStringSafe(stderr).trim();
+                    if ('' === msg) {
+                        msg = deploy_helpers.toStringSafe(err);
+                    }
+
+                    reject(new Error(i18.t('git.failed', 'git ' + args.join(' '), msg)));
+                }
+                else {
+                    resolve(deploy_helpers.toStringSafe(stdout));
+                }
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Returns the files of a git repository, which have been changed.
+ * 
+ * @param {deploy_contracts.DeployPackageGitChanges} settings The settings.
+ * @param {string} cwd The working directory, inside the repository.
+ * 
+ * @return {Promise<string[]>} The promise with the full paths of the changed files, which still exist.
+ */
+export async function getChangedFiles(settings: deploy_contracts.DeployPackageGitChanges,
+                                      cwd: string): Promise<string[]> {
+    let gitRoot = (await execGit(cwd, [ 'rev-parse', '--show-toplevel' ])).trim();
+
+    // paths from 'git diff' are relative
+    // to the root of the repository
+    let relativePaths: string[] = [];
+    let appendPaths = (output: string) => {
+        relativePaths = relativePaths.concat(output.split("\0")
+                                                   .filter(x => '' !== x));
+    };
+
+    let since = deploy_helpers.toStringSafe(settings.since).trim();
+    if ('' !== since) {
+        // three dots => since merge base
+        appendPaths(await execGit(cwd, [ 'diff', '--name-only', '-z', '--diff-filter=ACMRT',
+                                         `${since}...HEAD`, '--' ]));
+    }
+
+    if (deploy_helpers.toBooleanSafe(settings.uncommitted, true)) {
+        // staged and unstaged
+        appendPaths(await execGit(cwd, [ 'diff', '--name-only', '-z', '--diff-filter=ACMRT',
+                                         'HEAD', '--' ]));
+
+        // untracked
+        appendPaths(await execGit(cwd, [ 'ls-files', '--others', '--exclude-standard', '--full-name', '-z' ]));
+    }
+
+    return deploy_helpers.distinctArray(relativePaths.map(x => Path.resolve(Path.join(gitRoot, x))))
+                         .filter(x => FS.existsSync(x));
+}
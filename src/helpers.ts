@@ -29,6 +29,7 @@ import * as deploy_contracts from './contracts';
 import * as deploy_globals from './globals';
 import * as deploy_values from './values';
 import * as deploy_workspace from './workspace';
+import * as Crypto from 'crypto';
 import * as FileType from 'file-type';
 import * as FS from 'fs';
 const FTP = require('jsftp');
@@ -100,6 +101,7 @@ export interface OpenOptions {
 export type SimpleCompletedAction<TResult> = (err?: any, result?: TResult) => void;
 
 
+const DROPBOX_HASH_BLOCK_SIZE = 4 * 1024 * 1024;
 let nextHtmlDocId = -1;
 
 
@@ -388,7 +390,7 @@ export function deployFiles(files: string | string[], targets: deploy_contracts.
                               'helpers.deployFiles()', e));
                 }
 
-                completed();
+                completed(null, args);
             };
 
             deploy_globals.EVENTS.on(deploy_contracts.EVENT_DEPLOYFILES_COMPLETE, listener);
@@ -991,6 +993,92 @@ export function getUrlParam(params: Object, name: string): string {
     }
 }
 
+/**
+ * Calculates the hash of a file.
+ * 
+ * @param {string} file The path of the file.
+ * @param {string} [algorithm] The algorithm to use. Default: 'sha256'
+ *                             'dropbox' calculates a Dropbox content hash.
+ * 
+ * @returns {Promise<string>} The promise with the hash (hex).
+ */
+export function hashFile(file: string, algorithm?: string): Promise<string> {
+    algorithm = normalizeString(algorithm);
+    if ('' === algorithm) {
+        algorithm = 'sha256';
+    }
+
+    return new Promise<string>((resolve, reject) => {
+        let completed = createSimplePromiseCompletedAction<string>(resolve, reject);
+
+        try {
+            let update: (chunk: Buffer) => void;
+            let digest: () => string;
+
+            if ('dropbox' === algorithm) {
+                // SHA-256 of the concatenated SHA-256 hashes
+                // of all 4 MB blocks
+                let blockHashes: Buffer[] = [];
+                let blockHash = Crypto.createHash('sha256');
+                let blockSize = 0;
+
+                update = (chunk) => {
+                    while (chunk.length > 0) {
+                        let part = chunk.slice(0, DROPBOX_HASH_BLOCK_SIZE - blockSize);
+
+                        blockHash.update(part);
+                        blockSize += part.length;
+
+                        if (DROPBOX_HASH_BLOCK_SIZE === blockSize) {
+                            blockHashes.push(blockHash.digest());
+
+                            blockHash = Crypto.createHash('sha256');
+                            blockSize = 0;
+                        }
+
+                        chunk = chunk.slice(part.length);
+                    }
+                };
+
+                digest = () => {
+                    if (blockSize > 0) {
+                        blockHashes.push(blockHash.digest());
+                    }
+
+                    return Crypto.createHash('sha256')
+                                 .update(Buffer.concat(blockHashes))
+                                 .digest('hex');
+                };
+            }
+            else {
+                let hash = Crypto.createHash(algorithm);
+
+                update = (chunk) => {
+                    hash.update(chunk);
+                };
+
+                digest = () => {
+                    return hash.digest('hex');
+                };
+            }
+
+            let stream = FS.createReadStream(file);
+            stream.once('error', (err) => {
+                completed(err);
+            });
+            stream.on('data', (chunk: Buffer) => {
+                update(chunk);
+            });
+            stream.once('end', () => {
+                completed(null, digest());
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
 /**
  * Checks if data is binary or text content.
  * 
@@ -2174,6 +2262,32 @@ export function readHttpBody(msg: HTTP.IncomingMessage): Promise<Buffer> {
     });
 }
 
+/**
+ * Reads one or more files, like certificates or keys.
+ * 
+ * @param {string|string[]} files The file(s). Relative paths are mapped to the workspace.
+ * @param {Function} [replaceWithValues] The optional function that replaces placeholders in paths.
+ * 
+ * @return {Buffer[]} The data of the files.
+ */
+export function readFilesSync(files: string | string[],
+                              replaceWithValues?: (val: any) => string): Buffer[] {
+    return asArray(files).map(x => {
+        let f = toStringSafe(x);
+        if (replaceWithValues) {
+            f = toStringSafe(replaceWithValues(f));
+        }
+
+        return f.trim();
+    }).filter(x => '' !== x).map(x => {
+        if (!Path.isAbsolute(x)) {
+            x = Path.join(deploy_workspace.getRootPath(), x);
+        }
+
+        return FS.readFileSync(x);
+    });
+}
+
 /**
  * Reads a number of bytes from a socket.
  * 
@@ -0,0 +1,501 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as deploy_markdown from './markdown';
+import * as deploy_workspace from './workspace';
+import * as FS from 'fs';
+import * as FSExtra from 'fs-extra';
+import * as HtmlEntities from 'html-entities';
+import * as i18 from './i18';
+import * as Moment from 'moment';
+import * as OS from 'os';
+import * as Path from 'path';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * An entry of the deployment history.
+ */
+export interface HistoryEntry {
+    /**
+     * Indicates if the operation has been cancelled or not.
+     */
+    canceled?: boolean;
+    /**
+     * The direction.
+     */
+    direction: HistoryDirection;
+    /**
+     * The duration in milliseconds.
+     */
+    duration: number;
+    /**
+     * The end time (ISO string / UTC).
+     */
+    end: string;
+    /**
+     * The (global) error, if occurred.
+     */
+    error?: string;
+    /**
+     * The files.
+     */
+    files: HistoryEntryFile[];
+    /**
+     * The name of the machine.
+     */
+    machine: string;
+    /**
+     * The name of the package (if available).
+     */
+    package?: string;
+    /**
+     * The start time (ISO string / UTC).
+     */
+    start: string;
+    /**
+     * The name of the target.
+     */
+    target: string;
+    /**
+     * The type of the target.
+     */
+    type: string;
+    /**
+     * The name of the user.
+     */
+    user: string;
+}
+
+/**
+ * A file of a history entry.
+ */
+export interface HistoryEntryFile {
+    /**
+     * The duration in milliseconds (if known).
+     */
+    duration?: number;
+    /**
+     * The error, if occurred.
+     */
+    error?: string;
+    /**
+     * The path of the file, relative to the workspace.
+     */
+    file: string;
+}
+
+/**
+ * A filter for history entries.
+ */
+export interface HistoryFilter {
+    /**
+     * The name of the package.
+     */
+    package?: string;
+    /**
+     * The name of the target.
+     */
+    target?: string;
+}
+
+/**
+ * A history direction.
+ */
+export type HistoryDirection = 'deploy' | 'pull';
+
+const MAX_ENTRIES_TO_SHOW = 100;
+
+
+/**
+ * Records a deployment or pull operation for the history.
+ */
+export class HistoryRecorder {
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: vs_deploy.Deployer;
+    /**
+     * Stores the direction.
+     */
+    protected readonly _DIRECTION: HistoryDirection;
+    /**
+     * Stores the recorded files.
+     */
+    protected readonly _FILES: { [file: string]: HistoryEntryFile } = {};
+    /**
+     * Stores the start times of the files, which are in progress.
+     */
+    protected readonly _FILE_STARTS: { [file: string]: Moment.Moment } = {};
+    /**
+     * Stores the underlying package.
+     */
+    protected readonly _PACKAGE: deploy_contracts.DeployPackage;
+    /**
+     * Stores the start time.
+     */
+    protected readonly _START: Moment.Moment;
+    /**
+     * Stores the underlying target.
+     */
+    protected readonly _TARGET: deploy_contracts.DeployTarget;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vs_deploy.Deployer} deployer The underlying deployer.
+     * @param {HistoryDirection} direction The direction.
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {deploy_contracts.DeployPackage} [pkg] The underlying package (if available).
+     */
+    constructor(deployer: vs_deploy.Deployer, direction: HistoryDirection,
+                target: deploy_contracts.DeployTarget, pkg?: deploy_contracts.DeployPackage) {
+        this._DEPLOYER = deployer;
+        this._DIRECTION = direction;
+        this._PACKAGE = pkg;
+        this._START = Moment().utc();
+        this._TARGET = target;
+    }
+
+    /**
+     * Records that the operation for a file has been completed.
+     * 
+     * @param {string} file The file.
+     * @param {any} [err] The error (if occurred).
+     */
+    public fileCompleted(file: string, err?: any) {
+        let key = Path.resolve(file);
+
+        let entry: HistoryEntryFile = {
+            file: toDisplayPath(file),
+        };
+
+        let start = this._FILE_STARTS[key];
+        if (start) {
+            entry.duration = Moment().utc().diff(start);
+
+            delete this._FILE_STARTS[key];
+        }
+
+        if (err) {
+            entry.error = deploy_helpers.toStringSafe(err);
+        }
+
+        this._FILES[key] = entry;
+    }
+
+    /**
+     * Records that the operation for a file has been started.
+     * 
+     * @param {string} file The file.
+     */
+    public fileStarted(file: string) {
+        this._FILE_STARTS[Path.resolve(file)] = Moment().utc();
+    }
+
+    /**
+     * Finishes the operation and writes it to the history.
+     * 
+     * @param {any} [err] The (global) error (if occurred).
+     * @param {boolean} [canceled] Operation has been cancelled or not.
+     * 
+     * @return {Promise<HistoryEntry>} The promise with the written entry.
+     */
+    public async finish(err?: any, canceled?: boolean): Promise<HistoryEntry> {
+        let me = this;
+
+        let end = Moment().utc();
+
+        let entry: HistoryEntry = {
+            direction: me._DIRECTION,
+            duration: end.diff(me._START),
+            end: end.toISOString(),
+            files: Object.keys(me._FILES).map(k => me._FILES[k]),
+            machine: me._DEPLOYER.name,
+            start: me._START.toISOString(),
+            target: deploy_helpers.toStringSafe(me._TARGET.name),
+            type: deploy_helpers.parseTargetType(me._TARGET.type),
+            user: getUserName(),
+        };
+
+        if (me._PACKAGE) {
+            entry.package = deploy_helpers.toStringSafe(me._PACKAGE.name);
+        }
+        if (err) {
+            entry.error = deploy_helpers.toStringSafe(err);
+        }
+        if (deploy_helpers.toBooleanSafe(canceled)) {
+            entry.canceled = true;
+        }
+
+        try {
+            if (isEnabled(me._DEPLOYER)) {
+                await appendEntry(entry);
+            }
+        }
+        catch (e) {
+            me._DEPLOYER.log(i18.t('errors.withCategory', 'HistoryRecorder.finish(1)', e));
+        }
+
+        return entry;
+    }
+}
+
+
+function appendEntry(entry: HistoryEntry): Promise<void> {
+    let historyFile = getHistoryFile();
+
+    return new Promise<void>((resolve, reject) => {
+        FSExtra.mkdirs(Path.dirname(historyFile), (err) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            FS.appendFile(historyFile, JSON.stringify(entry) + "\n", 'utf8', (err) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            });
+        });
+    });
+}
+
+function getHistoryFile(): string {
+    return deploy_workspace.getDataPath('history.jsonl');
+}
+
+function getUserName(): string {
+    try {
+        return deploy_helpers.toStringSafe(OS.userInfo().username);
+    }
+    catch (e) {
+        return '';
+    }
+}
+
+function isEnabled(deployer: vs_deploy.Deployer): boolean {
+    let cfg = deployer.config;
+
+    return !cfg || deploy_helpers.toBooleanSafe(cfg.history, true);
+}
+
+/**
+ * Loads the entries of the history.
+ * 
+ * @return {HistoryEntry[]} The entries.
+ */
+export function loadHistory(): HistoryEntry[] {
+    let historyFile = getHistoryFile();
+    if (!historyFile || !FS.existsSync(historyFile)) {
+        return [];
+    }
+
+    let entries: HistoryEntry[] = [];
+
+    FS.readFileSync(historyFile).toString('utf8').split("\n").forEach(line => {
+        if (deploy_helpers.isEmptyString(line)) {
+            return;
+        }
+
+        try {
+            entries.push(JSON.parse(line));
+        }
+        catch (e) {
+            // ignore invalid lines
+        }
+    });
+
+    return entries;
+}
+
+/**
+ * Shows the deployment history.
+ */
+export async function showHistory() {
+    let me: vs_deploy.Deployer = this;
+
+    let entries = loadHistory();
+    if (entries.length < 1) {
+        vscode.window.showInformationMessage(i18.t('history.noEntries'));
+        return;
+    }
+
+    let targets = deploy_helpers.distinctArray(entries.map(x => deploy_helpers.toStringSafe(x.target))
+                                                      .filter(x => '' !== x.trim())).sort();
+    let packages = deploy_helpers.distinctArray(entries.map(x => deploy_helpers.toStringSafe(x.package))
+                                                       .filter(x => '' !== x.trim())).sort();
+
+    // select filter
+    let quickPicks: deploy_contracts.DeployActionQuickPick[] = [];
+    quickPicks.push({
+        action: () => {
+            return {};
+        },
+        description: '',
+        label: i18.t('history.filters.all'),
+    });
+    targets.forEach(t => {
+        quickPicks.push({
+            action: () => {
+                return {
+                    target: t,
+                };
+            },
+            description: i18.t('history.filters.target'),
+            label: t,
+        });
+    });
+    packages.forEach(p => {
+        quickPicks.push({
+            action: () => {
+                return {
+                    package: p,
+                };
+            },
+            description: i18.t('history.filters.package'),
+            label: p,
+        });
+    });
+
+    let item = await vscode.window.showQuickPick(quickPicks, {
+        placeHolder: i18.t('history.selectFilter'),
+    });
+    if (!item) {
+        return;
+    }
+
+    let filter: HistoryFilter = item.action(me);
+
+    await showEntries(me, filterEntries(entries, filter), filter);
+}
+
+function filterEntries(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+    return entries.filter(x => {
+        if (!deploy_helpers.isNullOrUndefined(filter.target)) {
+            if (deploy_helpers.normalizeString(x.target) !== deploy_helpers.normalizeString(filter.target)) {
+                return false;
+            }
+        }
+
+        if (!deploy_helpers.isNullOrUndefined(filter.package)) {
+            if (deploy_helpers.normalizeString(x.package) !== deploy_helpers.normalizeString(filter.package)) {
+                return false;
+            }
+        }
+
+        return true;
+    });
+}
+
+async function showEntries(me: vs_deploy.Deployer,
+                           entries: HistoryEntry[], filter: HistoryFilter): Promise<any> {
+    let htmlEncoder = new HtmlEntities.AllHtmlEntities();
+    let encode = (val: any) => {
+        return htmlEncoder.encode(deploy_helpers.toStringSafe(val));
+    };
+
+    let title: string;
+    if (!deploy_helpers.isNullOrUndefined(filter.target)) {
+        title = i18.t('history.titleWithTarget', filter.target);
+    }
+    else if (!deploy_helpers.isNullOrUndefined(filter.package)) {
+        title = i18.t('history.titleWithPackage', filter.package);
+    }
+    else {
+        title = i18.t('history.title');
+    }
+
+    let dateTimeFormat = i18.t('format.dateTime');
+    let toTime = (val: string) => Moment(val).format(dateTimeFormat);
+
+    // newest first
+    let entriesToShow = entries.slice().reverse()
+                                       .slice(0, MAX_ENTRIES_TO_SHOW);
+
+    let markdown = `# ${encode(title)}\n\n`;
+    markdown += encode(i18.t('history.summary', entriesToShow.length, entries.length)) + "\n\n";
+
+    // overview
+    markdown += `| ${encode(i18.t('history.columns.time'))} | ${encode(i18.t('history.columns.direction'))} `;
+    markdown += `| ${encode(i18.t('history.columns.target'))} | ${encode(i18.t('history.columns.package'))} `;
+    markdown += `| ${encode(i18.t('history.columns.user'))} | ${encode(i18.t('history.columns.files'))} `;
+    markdown += `| ${encode(i18.t('history.columns.duration'))} | ${encode(i18.t('history.columns.result'))} |\n`;
+    markdown += "| ---- | ---- | ---- | ---- | ---- | ----: | ----: | ---- |\n";
+    entriesToShow.forEach(x => {
+        let files = deploy_helpers.asArray(x.files);
+        let failed = files.filter(f => f.error);
+
+        let result: string;
+        if (x.error || failed.length > 0) {
+            result = x.canceled ? i18.t('history.results.canceledWithErrors')
+                                : i18.t('history.results.failed', failed.length);
+        }
+        else {
+            result = x.canceled ? i18.t('history.results.canceled')
+                                : i18.t('history.results.succeeded');
+        }
+
+        markdown += `| ${encode(toTime(x.start))} | ${encode(x.direction)} | ${encode(x.target)} | ${encode(x.package)} `;
+        markdown += `| ${encode(x.user)}@${encode(x.machine)} | ${files.length} | ${encode(x.duration)} ms | ${encode(result)} |\n`;
+    });
+    markdown += "\n";
+
+    // details
+    markdown += `## ${encode(i18.t('history.details'))}\n\n`;
+    entriesToShow.forEach(x => {
+        markdown += `### ${encode(toTime(x.start))} - ${encode(x.target)}\n\n`;
+
+        if (x.error) {
+            markdown += `**${encode(i18.t('history.error'))}**: ${encode(x.error)}\n\n`;
+        }
+
+        deploy_helpers.asArray(x.files).forEach(f => {
+            markdown += `- *${encode(f.file)}*`;
+            if (!deploy_helpers.isNullOrUndefined(f.duration)) {
+                markdown += ` (${encode(f.duration)} ms)`;
+            }
+            if (f.error) {
+                markdown += `: ${encode(f.error)}`;
+            }
+            markdown += "\n";
+        });
+        markdown += "\n";
+    });
+
+    await deploy_markdown.openMarkdown(me, markdown, title);
+}
+
+function toDisplayPath(file: string): string {
+    let relativePath = deploy_helpers.toRelativePath(file);
+
+    return false === relativePath ? file : relativePath;
+}
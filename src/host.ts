@@ -28,13 +28,20 @@
 import { Deployer } from './deploy';
 import * as Crypto from 'crypto';
 import * as deploy_contracts from './contracts';
+import * as deploy_discovery from './discovery';
+import * as deploy_globals from './globals';
 import * as deploy_helpers from './helpers';
 import * as deploy_workspace from './workspace';
+import * as Dgram from 'dgram';
 import * as FS from 'fs';
 import * as FSExtra from 'fs-extra';
 import * as i18 from './i18';
+import * as Minimatch from 'minimatch';
 import * as Net from 'net';
+import * as OS from 'os';
 import * as Path from 'path';
+import * as TLS from 'tls';
+import * as TMP from 'tmp';
 import * as vscode from 'vscode';
 import * as ZLib from 'zlib';
 
@@ -63,6 +70,11 @@ export interface RemoteClient {
      * The address of the client.
      */
     address: string;
+    /**
+     * The name of the client, if it has been identified
+     * by one of the 'clients' of the host settings.
+     */
+    name?: string;
     /**
      * The port of the client.
      */
@@ -73,10 +85,29 @@ export interface RemoteClient {
  * Describes a remote file (entry).
  */
 export interface RemoteFile {
+    /**
+     * The index / number of the chunk (beginning at 1), if the file is send in chunks.
+     */
+    chunk?: number;
+    /**
+     * The total number of chunks.
+     */
+    chunkCount?: number;
+    /**
+     * The (hex) SHA-256 hash of the data of the chunk.
+     */
+    chunkHash?: string;
     /**
      * The data.
+     * 
+     * For files, which are send in chunks, this is (undefined)
+     * after the last chunk has been received.
      */
     data?: Buffer;
+    /**
+     * The (hex) SHA-256 hash of the whole file (send with the last chunk).
+     */
+    hash?: string;
     /**
      * Indicates if 'data' is compressed or not.
      */
@@ -97,6 +128,11 @@ export interface RemoteFile {
      * The index / number of the file (beginning at 1).
      */
     nr?: number;
+    /**
+     * The type of request ('download' or 'info'), if the client
+     * wants to receive data instead of sending a file.
+     */
+    request?: string;
     /**
      * The session ID.
      */
@@ -105,12 +141,80 @@ export interface RemoteFile {
      * An addtional value send by remote client.
      */
     tag?: any;
+    /**
+     * The token of the client.
+     */
+    token?: string;
     /**
      * The total number of files that will be send.
      */
     totalCount?: number;
 }
 
+/**
+ * Information about a file, which is send back to a remote client.
+ */
+export interface RemoteFileInfo {
+    /**
+     * File exists or not.
+     */
+    exists: boolean;
+    /**
+     * The last modification time (ISO 8601).
+     */
+    modifyTime?: string;
+    /**
+     * The name of the file.
+     */
+    name?: string;
+    /**
+     * The directory of the file.
+     */
+    path?: string;
+    /**
+     * The size.
+     */
+    size?: number;
+}
+
+/**
+ * A result that is send back to a remote client.
+ */
+export interface RemoteFileResult {
+    /**
+     * The (Base64) data of a requested file.
+     */
+    data?: string;
+    /**
+     * The error message.
+     */
+    error?: string;
+    /**
+     * Information about a requested file.
+     */
+    info?: RemoteFileInfo;
+    /**
+     * Indicates if 'data' is compressed or not.
+     */
+    isCompressed?: boolean;
+    /**
+     * The name / path of the file.
+     */
+    name?: string;
+    /**
+     * Indicates if the file has been written successfully or not.
+     */
+    ok?: boolean;
+    /**
+     * The path on the host where the file has been written to.
+     */
+    path?: string;
+    /**
+     * Indicates if the file has been rejected or not.
+     */
+    rejected?: boolean;
+}
+
 /**
  * A data transformer sub context.
  */
@@ -155,10 +259,242 @@ export interface ValidatorContext {
      * Information about the remote client.
      */
     remote: RemoteClient;
+    /**
+     * The size of the received file, in bytes.
+     */
+    size: number;
     /**
      * The (planned) path of the target.
      */
     target: string;
+    /**
+     * The path of the temporary file with the reassembled data,
+     * if the file has been received in chunks.
+     * 
+     * In that case, the 'data' property of the file is (undefined).
+     */
+    tempFile?: string;
+}
+
+interface ChunkedFile {
+    hash: Crypto.Hash;
+    next: number;
+    size: number;
+    tempFile?: string;
+    timeout?: NodeJS.Timer;
+}
+
+/**
+ * A session of a client, which sends files to a host.
+ */
+export interface HostSession {
+    /**
+     * The number of received bytes.
+     */
+    bytes: number;
+    /**
+     * The client.
+     */
+    client: RemoteClient;
+    /**
+     * Files, which could not be written.
+     */
+    errors: HostSessionMessage[];
+    /**
+     * The full paths of the written files.
+     */
+    files: string[];
+    /**
+     * The numbers of the files, which have been handled.
+     */
+    handled: number[];
+    /**
+     * The ID of the session.
+     */
+    id: string;
+    /**
+     * Indicates if all files of the session have been handled or not.
+     */
+    isCompleted: boolean;
+    /**
+     * The time of the last file.
+     */
+    lastUpdate: Date;
+    /**
+     * Files, which have been rejected.
+     */
+    rejected: HostSessionMessage[];
+    /**
+     * The total number of files.
+     */
+    totalCount: number;
+}
+
+/**
+ * A message about a file of a session.
+ */
+export interface HostSessionMessage {
+    /**
+     * The name / path of the file.
+     */
+    file: string;
+    /**
+     * The message.
+     */
+    message: string;
+}
+
+const CHUNK_HASH_ALGORITHM = 'sha256';
+/**
+ * The time, in milliseconds, after an incomplete file,
+ * which is received in chunks, is removed, if no further chunk arrives.
+ */
+const CHUNKED_FILE_TIMEOUT = 10 * 60 * 1000;
+const MAX_SESSIONS = 100;
+
+/**
+ * Checks if a client is allowed to access a file.
+ * 
+ * @param {deploy_contracts.HostClient} client The client.
+ * @param {RemoteFile} file The file.
+ * @param {string} dir The root directory of the host.
+ * @param {number} [size] The size of the file. Default: The length of 'data' of the file.
+ * 
+ * @return {string} The reason why the access is denied or (undefined) if allowed.
+ */
+export function checkClientAccess(client: deploy_contracts.HostClient, file: RemoteFile, dir: string,
+                                  size?: number): string {
+    let name = file.name;
+    while (0 === name.indexOf('/')) {
+        name = name.substr(1);
+    }
+
+    // sub directories
+    let targetFile = Path.resolve(Path.join(dir, name));
+    let allowedDirs = deploy_helpers.asArray(client.dirs)
+                                    .map(x => deploy_helpers.toStringSafe(x))
+                                    .filter(x => '' !== x.trim())
+                                    .map(x => Path.resolve(Path.join(dir, x)));
+    if (allowedDirs.length < 1) {
+        allowedDirs.push(Path.resolve(dir));
+    }
+
+    if (!allowedDirs.some(x => isInDirectory(targetFile, x))) {
+        return i18.t('host.errors.dirNotAllowed', name);
+    }
+
+    // file size
+    if (!deploy_helpers.isNullUndefinedOrEmptyString(client.maxSize)) {
+        if (deploy_helpers.isNullOrUndefined(size) && file.data) {
+            size = file.data.length;
+        }
+
+        let maxSize = parseInt(deploy_helpers.toStringSafe(client.maxSize).trim());
+        if (!isNaN(maxSize) && size > maxSize) {
+            return i18.t('host.errors.fileTooBig', name, size, maxSize);
+        }
+    }
+
+    // file patterns
+    let patterns = deploy_helpers.asArray(client.files)
+                                 .map(x => deploy_helpers.toStringSafe(x).trim())
+                                 .filter(x => '' !== x)
+                                 .map(x => {
+                                          while (0 === x.indexOf('/')) {
+                                              x = x.substr(1);
+                                          }
+
+                                          return x;
+                                      });
+    if (patterns.length > 0) {
+        let isMatching = patterns.some(x => Minimatch(name, x, {
+            dot: true,
+            nonegate: true,
+            nocomment: true,
+        }));
+
+        if (!isMatching) {
+            return i18.t('host.errors.fileNotAllowed', name);
+        }
+    }
+}
+
+/**
+ * Finds the client that matches the credentials of a connection.
+ * 
+ * @param {deploy_contracts.HostClient[]} clients The list of known clients.
+ * @param {Net.Socket} socket The socket of the connection.
+ * @param {RemoteFile} file The received file.
+ * 
+ * @return {deploy_contracts.HostClient} The client or (undefined) if not found.
+ */
+function findClient(clients: deploy_contracts.HostClient[],
+                    socket: Net.Socket, file: RemoteFile): deploy_contracts.HostClient {
+    let token = deploy_helpers.toStringSafe(file.token);
+
+    let fingerprint = '';
+    let tlsSocket = <TLS.TLSSocket>socket;
+    if (tlsSocket.getPeerCertificate) {
+        let cert = tlsSocket.getPeerCertificate();
+        if (cert) {
+            fingerprint = normalizeFingerprint(cert.fingerprint);
+        }
+    }
+
+    return clients.filter(c => {
+        let clientToken = deploy_helpers.toStringSafe(c.token);
+        let clientFingerprint = normalizeFingerprint(c.fingerprint);
+        if ('' === clientToken && '' === clientFingerprint) {
+            return false;  // no credentials
+        }
+
+        // all defined credentials must match
+        return ('' === clientToken || clientToken === token) &&
+               ('' === clientFingerprint || clientFingerprint === fingerprint);
+    })[0];
+}
+
+/**
+ * Checks if a path is inside a directory.
+ * 
+ * @param {string} file The full path to check.
+ * @param {string} dir The full path of the directory.
+ * 
+ * @return {boolean} Is inside or not. The directory itself is not inside.
+ */
+export function isInDirectory(file: string, dir: string): boolean {
+    let relativePath = Path.relative(dir, file);
+
+    return '' !== relativePath &&
+           !Path.isAbsolute(relativePath) &&
+           '..' !== relativePath.split(Path.sep)[0];
+}
+
+/**
+ * Normalizes the address of a client.
+ * 
+ * @param {string} address The address.
+ * 
+ * @return {string} The normalized address.
+ */
+function normalizeAddress(address: string): string {
+    address = deploy_helpers.normalizeString(address);
+    if (0 === address.indexOf('::ffff:')) {
+        address = address.substr(7);  // IPv4 mapped
+    }
+
+    return address;
+}
+
+/**
+ * Normalizes a certificate fingerprint for comparison.
+ * 
+ * @param {any} fingerprint The fingerprint.
+ * 
+ * @return {string} The normalized value.
+ */
+function normalizeFingerprint(fingerprint: any): string {
+    return deploy_helpers.replaceAllStrings(deploy_helpers.normalizeString(fingerprint), ':', '');
 }
 
 /**
@@ -169,10 +505,26 @@ export class DeployHost {
      * Stores the underlying deployer.
      */
     protected readonly _DEPLOYER: Deployer;
+    /**
+     * Stores the addresses of blocked clients.
+     */
+    protected _blockedAddresses: string[] = [];
+    /**
+     * Stores the files, which are currently received in chunks.
+     */
+    protected _chunkedFiles: { [key: string]: ChunkedFile } = {};
+    /**
+     * Stores the socket, which answers discovery requests.
+     */
+    protected _discoveryResponder: Dgram.Socket;
     /**
      * Stores the current server instance.
      */
     protected _server: Net.Server;
+    /**
+     * Stores the sessions, which have been received.
+     */
+    protected _sessions: HostSession[] = [];
 
     /**
      * Initializes a new instance of that class.
@@ -183,6 +535,72 @@ export class DeployHost {
         this._DEPLOYER = deployer;
     }
 
+    /**
+     * Appends the data of a chunk to the temp file of a file, which is received in chunks.
+     * 
+     * @param {ChunkedFile} chunkedFile The state of the file.
+     * @param {Buffer} data The data of the chunk.
+     * 
+     * @return {Promise<void>} The promise.
+     */
+    protected appendChunk(chunkedFile: ChunkedFile, data: Buffer): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let append = () => {
+                FS.appendFile(chunkedFile.tempFile, data, (err) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    chunkedFile.hash.update(data);
+                    chunkedFile.size += data.length;
+                    ++chunkedFile.next;
+
+                    resolve();
+                });
+            };
+
+            if (chunkedFile.tempFile) {
+                append();
+            }
+            else {
+                TMP.tmpName({
+                    keep: true,
+                }, (err, tempFile) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    chunkedFile.tempFile = tempFile;
+
+                    append();
+                });
+            }
+        });
+    }
+
+    /**
+     * Blocks a client address until the host is stopped.
+     * 
+     * @param {string} address The address.
+     */
+    public blockAddress(address: string) {
+        address = normalizeAddress(address);
+        if ('' !== address && this._blockedAddresses.indexOf(address) < 0) {
+            this._blockedAddresses.push(address);
+
+            this.raiseChanged();
+        }
+    }
+
+    /**
+     * Gets the list of blocked client addresses.
+     */
+    public get blockedAddresses(): string[] {
+        return this._blockedAddresses.map(x => x);
+    }
+
     /**
      * Gets the current config.
      */
@@ -197,6 +615,92 @@ export class DeployHost {
         return this._DEPLOYER;
     }
 
+    /**
+     * Is invoked after a received file has been handled (written, failed or rejected)
+     * and invokes the 'received' operations after all files of its session have been handled.
+     * 
+     * @param {RemoteFile} file The file.
+     * @param {RemoteClient} client The client that has send the file.
+     * @param {number} size The number of received bytes.
+     * @param {string} [targetFile] The path of the written file, if successful.
+     * @param {any} [err] The error (if occurred).
+     * @param {boolean} [rejected] File has been rejected or not.
+     */
+    protected fileHandled(file: RemoteFile, client: RemoteClient, size: number,
+                          targetFile?: string, err?: any, rejected = false) {
+        let me = this;
+
+        let id = deploy_helpers.toStringSafe(file.session);
+        let nr = parseInt(deploy_helpers.toStringSafe(file.nr).trim());
+        let totalCount = parseInt(deploy_helpers.toStringSafe(file.totalCount).trim());
+        if ('' === id || isNaN(nr) || isNaN(totalCount)) {
+            return;
+        }
+
+        let session = me._sessions.filter(s => s.id === id)[0];
+        if (!session) {
+            session = {
+                bytes: 0,
+                client: Object.assign({}, client),
+                errors: [],
+                files: [],
+                handled: [],
+                id: id,
+                isCompleted: false,
+                lastUpdate: null,
+                rejected: [],
+                totalCount: totalCount,
+            };
+
+            me._sessions.push(session);
+            while (me._sessions.length > MAX_SESSIONS) {
+                me._sessions.shift();  // remove oldest
+            }
+        }
+
+        session.bytes += size;
+        session.lastUpdate = new Date();
+        if (client.name) {
+            session.client.name = client.name;
+        }
+
+        if (session.handled.indexOf(nr) < 0) {
+            session.handled.push(nr);
+        }
+        if (targetFile) {
+            session.files.push(targetFile);
+        }
+        if (err) {
+            (rejected ? session.rejected : session.errors).push({
+                file: deploy_helpers.toStringSafe(file.name),
+                message: deploy_helpers.toStringSafe(err.message || err),
+            });
+        }
+
+        if (!session.isCompleted && session.handled.length >= session.totalCount) {
+            session.isCompleted = true;
+
+            let cfg = me.config;
+            if (cfg.host && session.files.length > 0) {
+                if (deploy_helpers.asArray(cfg.host.received).filter(x => x).length > 0) {
+                    me.deployer.afterReceived(session.files, id, client).then(() => {
+                    }).catch((err) => {
+                        me.log(i18.t('errors.withCategory', 'DeployHost.fileHandled()', err));
+                    });
+                }
+            }
+        }
+
+        me.raiseChanged();
+    }
+
+    /**
+     * Gets if the host is running or not.
+     */
+    public get isRunning(): boolean {
+        return !!this._server;
+    }
+
     /**
      * Logs a message.
      * 
@@ -216,6 +720,74 @@ export class DeployHost {
         return this.deployer.outputChannel;
     }
 
+    /**
+     * Raises the event that the state of the host has been changed.
+     */
+    protected raiseChanged() {
+        try {
+            deploy_globals.EVENTS.emit(deploy_contracts.EVENT_HOST_CHANGED, this);
+        }
+        catch (e) {
+            this.log(i18.t('errors.withCategory', 'DeployHost.raiseChanged()', e));
+        }
+    }
+
+    /**
+     * Removes the state and the temp file of a file, which is received in chunks.
+     * 
+     * @param {string} key The key of the file.
+     */
+    protected removeChunkedFile(key: string) {
+        let me = this;
+
+        let chunkedFile = me._chunkedFiles[key];
+        delete me._chunkedFiles[key];
+
+        if (chunkedFile && chunkedFile.timeout) {
+            clearTimeout(chunkedFile.timeout);
+        }
+
+        if (chunkedFile && chunkedFile.tempFile) {
+            FS.unlink(chunkedFile.tempFile, (err) => {
+                if (err) {
+                    me.log(i18.t('errors.withCategory', 'DeployHost.removeChunkedFile()', err));
+                }
+            });
+        }
+    }
+
+    /**
+     * (Re)starts the timer, which removes an incomplete file that is received in chunks,
+     * if no further chunk arrives in time.
+     * 
+     * @param {string} key The key of the file.
+     */
+    protected resetChunkedFileTimeout(key: string) {
+        let me = this;
+
+        let chunkedFile = me._chunkedFiles[key];
+        if (!chunkedFile) {
+            return;
+        }
+
+        if (chunkedFile.timeout) {
+            clearTimeout(chunkedFile.timeout);
+        }
+
+        chunkedFile.timeout = setTimeout(() => {
+            if (chunkedFile === me._chunkedFiles[key]) {
+                me.removeChunkedFile(key);
+            }
+        }, CHUNKED_FILE_TIMEOUT);
+    }
+
+    /**
+     * Gets the list of sessions.
+     */
+    public get sessions(): HostSession[] {
+        return this._sessions.map(x => x);
+    }
+
     /**
      * Starts the host.
      * 
@@ -241,12 +813,17 @@ export class DeployHost {
 
             let cfg = me.config;
 
+            let clients: deploy_contracts.HostClient[] = [];
             let dir: string;
+            let discovery: deploy_contracts.HostDiscoverySettings;
             let jsonTransformer: deploy_contracts.DataTransformer;
             let jsonTransformerOpts: any;
             let maxMsgSize = deploy_contracts.DEFAULT_MAX_MESSAGE_SIZE;
             let pwd: string;
             let port = deploy_contracts.DEFAULT_PORT;
+            let resultDataTransformer: deploy_contracts.DataTransformer;
+            let resultTransformer: deploy_contracts.DataTransformer;
+            let tlsOpts: TLS.TlsOptions;
             let transformer: deploy_contracts.DataTransformer;
             let transformerOpts: any;
             let validator: deploy_contracts.Validator<RemoteFile>;
@@ -260,6 +837,14 @@ export class DeployHost {
 
                 dir = cfg.host.dir;
 
+                if (cfg.host.discovery) {
+                    discovery = 'object' === typeof cfg.host.discovery ? cfg.host.discovery
+                                                                       : {};
+                }
+
+                clients = deploy_helpers.asArray(cfg.host.clients)
+                                        .filter(x => x);
+
                 // file data transformer
                 transformerOpts = cfg.host.transformerOptions;
                 if (cfg.host.transformer) {
@@ -270,6 +855,9 @@ export class DeployHost {
                     if (transformerModule) {
                         transformer = transformerModule.restoreData ||
                                       transformerModule.transformData;
+
+                        resultDataTransformer = transformerModule.transformData ||
+                                                transformerModule.restoreData;
                     }
                 }
 
@@ -283,6 +871,9 @@ export class DeployHost {
                     if (jsonTransformerModule) {
                         jsonTransformer = jsonTransformerModule.restoreData ||
                                           jsonTransformerModule.transformData;
+
+                        resultTransformer = jsonTransformerModule.transformData ||
+                                            jsonTransformerModule.restoreData;
                     }
                 }
 
@@ -299,6 +890,36 @@ export class DeployHost {
                 }
 
                 pwd = deploy_helpers.toStringSafe(cfg.host.password);
+
+                // TLS
+                if (cfg.host.tls) {
+                    try {
+                        let replaceWithValues = (val: any) => me.deployer.replaceWithValues(val);
+
+                        let ca = deploy_helpers.readFilesSync(cfg.host.tls.ca, replaceWithValues);
+                        let cert = deploy_helpers.readFilesSync(cfg.host.tls.cert, replaceWithValues);
+                        let key = deploy_helpers.readFilesSync(cfg.host.tls.key, replaceWithValues);
+                        if (cert.length < 1 || key.length < 1) {
+                            startCompleted(new Error(i18.t('host.errors.tlsCertOrKeyMissing')));
+                            return;
+                        }
+
+                        let passphrase = deploy_helpers.toStringSafe(cfg.host.tls.passphrase);
+
+                        tlsOpts = {
+                            ca: ca.length > 0 ? ca : undefined,
+                            cert: cert[0],
+                            key: key[0],
+                            passphrase: '' !== passphrase ? passphrase : undefined,
+                            rejectUnauthorized: deploy_helpers.toBooleanSafe(cfg.host.tls.rejectUnauthorized, true),
+                            requestCert: deploy_helpers.toBooleanSafe(cfg.host.tls.requestCert, true),
+                        };
+                    }
+                    catch (e) {
+                        startCompleted(e);
+                        return;
+                    }
+                }
             }
 
             dir = deploy_helpers.toStringSafe(dir, deploy_contracts.DEFAULT_HOST_DIR);
@@ -308,16 +929,45 @@ export class DeployHost {
             }
 
             jsonTransformer = deploy_helpers.toDataTransformerSafe(jsonTransformer);
+            resultTransformer = deploy_helpers.toDataTransformerSafe(resultTransformer);
             if (!deploy_helpers.isNullUndefinedOrEmptyString(pwd)) {
                 // add password wrapper
 
                 let baseJsonTransformer = jsonTransformer;
+                let baseResultTransformer = resultTransformer;
 
                 let pwdAlgo = deploy_helpers.normalizeString(cfg.host.passwordAlgorithm);
                 if ('' === pwdAlgo) {
                     pwdAlgo = deploy_contracts.DEFAULT_PASSWORD_ALGORITHM;
                 }
 
+                resultTransformer = (ctx) => {
+                    return new Promise<Buffer>((resolve, reject) => {
+                        try {
+                            let btResult = Promise.resolve(baseResultTransformer(ctx));
+                            btResult.then((uncryptedData) => {
+                                try {
+                                    let cipher = Crypto.createCipher(pwdAlgo, pwd);
+
+                                    let a = cipher.update(uncryptedData);
+                                    let b = cipher.final();
+
+                                    // return crypted data
+                                    resolve(Buffer.concat([ a, b ]));
+                                }
+                                catch (e) {
+                                    reject(e);
+                                }
+                            }).catch((err) => {
+                                reject(err);
+                            });
+                        }
+                        catch (e) {
+                            reject(e);
+                        }
+                    });
+                };
+
                 jsonTransformer = (ctx) => {
                     return new Promise<Buffer>((resolve, reject) => {
                         try {
@@ -343,15 +993,44 @@ export class DeployHost {
                 };
             }
 
+            resultDataTransformer = deploy_helpers.toDataTransformerSafe(resultDataTransformer);
             transformer = deploy_helpers.toDataTransformerSafe(transformer);
             validator = deploy_helpers.toValidatorSafe(validator);
 
-            let server = Net.createServer((socket) => {
+            let createTransformerContext = (subCtx: TranformerContext, data: Buffer, options: any): deploy_contracts.DataTransformerContext => {
+                return {
+                    context: subCtx,
+                    data: data,
+                    emitGlobal: function() {
+                        return me.deployer
+                                 .emit
+                                 .apply(me.deployer, arguments);
+                    },
+                    globals: me.deployer.getGlobals(),
+                    mode: deploy_contracts.DataTransformerMode.Transform,
+                    options: options,
+                    replaceWithValues: (val) => {
+                        return me.deployer.replaceWithValues(val);
+                    },
+                    require: function(id) {
+                        return require(id);
+                    },
+                };
+            };
+
+            let handleConnection = (socket: Net.Socket) => {
                 let remoteClient: RemoteClient = {
                     address: socket.remoteAddress,
                     port: socket.remotePort,
                 };
 
+                if (me._blockedAddresses.indexOf(normalizeAddress(remoteClient.address)) > -1) {
+                    me.log(i18.t('host.errors.clientBlocked', remoteClient.address, remoteClient.port));
+
+                    socket.destroy();
+                    return;
+                }
+
                 let showError = (err: any) => {
                     me.log(i18.t('errors.withCategory', 'DeployHost.start().createServer()', err));
                 };
@@ -365,6 +1044,49 @@ export class DeployHost {
                     }
                 };
 
+                let sendResult = (result: RemoteFileResult) => {
+                    let sendFailed = (err: any) => {
+                        me.log(i18.t('errors.withCategory', 'DeployHost.start().createServer(2)', err));
+
+                        closeSocket();
+                    };
+
+                    try {
+                        let json = new Buffer(JSON.stringify(result), 'utf8');
+
+                        let resultTransformerCtx: MessageTransformerContext = {
+                            globals: me.deployer.getGlobals(),
+                            remote: remoteClient,
+                            type: TransformationType.Message,
+                        };
+
+                        // use same pipeline as for received messages
+                        let rtResult = Promise.resolve(resultTransformer(createTransformerContext(resultTransformerCtx, json,
+                                                                                                  jsonTransformerOpts)));
+                        rtResult.then((transformedJson) => {
+                            try {
+                                let dataLength = Buffer.alloc(4);
+                                dataLength.writeUInt32LE(transformedJson.length, 0);
+
+                                socket.write(dataLength);
+                                socket.end(transformedJson);
+                            }
+                            catch (e) {
+                                sendFailed(e);
+                            }
+                        }).catch((err) => {
+                            sendFailed(err);
+                        });
+                    }
+                    catch (e) {
+                        sendFailed(e);
+                    }
+                };
+
+                socket.on('error', (err) => {
+                    me.log(i18.t('errors.withCategory', 'DeployHost.start().createServer(6)', err));
+                });
+
                 let startReading = () => {
                     try {
                         deploy_helpers.readSocket(socket, 4).then((dlBuff) => {
@@ -386,16 +1108,26 @@ export class DeployHost {
                             }
 
                             deploy_helpers.readSocket(socket, dataLength).then((msgBuff) => {
-                                closeSocket();
-
                                 if (msgBuff.length !== dataLength) {  // non-exptected data length
                                     me.log(i18.t('warnings.withCategory', 'DeployHost.start().createServer()',
                                                  `Invalid buffer length ${msgBuff.length}`));
 
+                                    closeSocket();
                                     return;
                                 }
                                 
-                                let completed = (err?: any, file?: string) => {
+                                let completed = (err?: any, file?: string, result?: RemoteFileResult) => {
+                                    // send result back to client
+                                    result = result || {};
+                                    result.name = file;
+                                    result.ok = !err;
+                                    result.rejected = deploy_helpers.toBooleanSafe(result.rejected);
+                                    if (err) {
+                                        result.error = deploy_helpers.toStringSafe(err.message || err);
+                                    }
+
+                                    sendResult(result);
+
                                     if (err) {
                                         let failMsg = '';
                                         if (file) {
@@ -415,6 +1147,128 @@ export class DeployHost {
                                     }
                                 };
 
+                                // handles a request of the client, like a download
+                                let handleRequest = (file: RemoteFile) => {
+                                    let request = deploy_helpers.normalizeString(file.request);
+
+                                    let name = deploy_helpers.replaceAllStrings(deploy_helpers.toStringSafe(file.name), Path.sep, '/');
+                                    while (0 === name.indexOf('/')) {
+                                        name = name.substr(1);
+                                    }
+                                    file.name = name;
+
+                                    me.outputChannel.append(i18.t('host.request.receiving',
+                                                                  remoteClient.address, remoteClient.port,
+                                                                  request, name));
+
+                                    let requestRejected = (reason: string) => {
+                                        completed(new Error(reason), name, {
+                                            rejected: true,
+                                        });
+
+                                        me.log(i18.t('host.errors.clientRejected',
+                                                     remoteClient.address, remoteClient.port,
+                                                     remoteClient.name ? `(${remoteClient.name})` : '',
+                                                     name, reason));
+                                    };
+
+                                    if (!name) {
+                                        completed(new Error(i18.t('host.errors.noFilename', 3)));
+                                        return;
+                                    }
+
+                                    // only files inside the root directory
+                                    let fullPath = Path.resolve(Path.join(dir, name));
+                                    if (!isInDirectory(fullPath, Path.resolve(dir))) {
+                                        requestRejected(i18.t('host.errors.dirNotAllowed', name));
+                                        return;
+                                    }
+
+                                    if (clients.length > 0) {
+                                        // check access of client
+                                        let client = findClient(clients, socket, file);
+                                        if (!client) {
+                                            requestRejected(i18.t('host.errors.unknownClient'));
+                                            return;
+                                        }
+
+                                        remoteClient.name = deploy_helpers.toStringSafe(client.name);
+
+                                        let reason = checkClientAccess(client, file, dir);
+                                        if (!deploy_helpers.isNullOrUndefined(reason)) {
+                                            requestRejected(reason);
+                                            return;
+                                        }
+                                    }
+
+                                    switch (request) {
+                                        case 'info':
+                                            FS.stat(fullPath, (err, stats) => {
+                                                let info: RemoteFileInfo = {
+                                                    exists: false,
+                                                };
+
+                                                if (!err && stats.isFile()) {
+                                                    info.exists = true;
+                                                    info.modifyTime = stats.mtime.toISOString();
+                                                    info.name = Path.basename(fullPath);
+                                                    info.path = Path.dirname(fullPath);
+                                                    info.size = stats.size;
+                                                }
+
+                                                completed(null, name, {
+                                                    info: info,
+                                                });
+                                            });
+                                            break;
+
+                                        case 'download':
+                                            FS.readFile(fullPath, (err, data) => {
+                                                if (err) {
+                                                    completed(err, name);
+                                                    return;
+                                                }
+
+                                                try {
+                                                    let transformerCtx: FileDataTransformerContext = {
+                                                        file: file,
+                                                        globals: me.deployer.getGlobals(),
+                                                        remote: remoteClient,
+                                                        type: TransformationType.FileData,
+                                                    };
+
+                                                    let tResult = Promise.resolve(resultDataTransformer(createTransformerContext(transformerCtx, data,
+                                                                                                                                 transformerOpts)));
+                                                    tResult.then((transformedData) => {
+                                                        ZLib.gzip(transformedData, (err, compressedData) => {
+                                                            if (err) {
+                                                                completed(err, name);
+                                                                return;
+                                                            }
+
+                                                            let isCompressed = compressedData.length < transformedData.length;
+
+                                                            completed(null, name, {
+                                                                data: (isCompressed ? compressedData : transformedData).toString('base64'),
+                                                                isCompressed: isCompressed,
+                                                            });
+                                                        });
+                                                    }).catch((err) => {
+                                                        completed(err, name);
+                                                    });
+                                                }
+                                                catch (e) {
+                                                    completed(e, name);
+                                                }
+                                            });
+                                            break;
+
+                                        default:
+                                            completed(new Error(i18.t('host.errors.unknownRequest', request)), name);
+                                            break;
+                                    }
+                                };
+
                                 // restore "transformered" JSON message
                                 try {
                                     let jsonTransformerCtx: MessageTransformerContext = {
@@ -452,7 +1306,10 @@ export class DeployHost {
                                                 file = JSON.parse(json);
                                             }
 
-                                            if (file) {
+                                            if (file && !deploy_helpers.isEmptyString(file.request)) {
+                                                handleRequest(file);  // client wants to receive data
+                                            }
+                                            else if (file) {
                                                 // output that we are receiving a file...
 
                                                 let fileInfo = '';
@@ -472,6 +1329,9 @@ export class DeployHost {
                                                                 }
                                                             }
                                                         }
+                                                        if (!deploy_helpers.isNullOrUndefined(file.chunk)) {
+                                                            fileInfo += `; ${i18.t('host.receiveFile.chunk', file.chunk, file.chunkCount)}`;
+                                                        }
                                                         fileInfo += ")";
                                                     }
                                                 }
@@ -486,8 +1346,55 @@ export class DeployHost {
                                                 file.name = deploy_helpers.replaceAllStrings(file.name, Path.sep, '/');
 
                                                 if (file.name) {
+                                                    let targetFile: string;
+
+                                                    // the state of the file, if
+                                                    // all chunks have been received
+                                                    let chunkedFileKey: string;
+                                                    let receivedChunkedFile: ChunkedFile;
+
+                                                    let removeChunkedFile = () => {
+                                                        if (chunkedFileKey) {
+                                                            me.removeChunkedFile(chunkedFileKey);
+                                                        }
+                                                    };
+
+                                                    // the number of received bytes
+                                                    let getSize = () => {
+                                                        if (receivedChunkedFile) {
+                                                            return receivedChunkedFile.size;
+                                                        }
+
+                                                        return Buffer.isBuffer(file.data) ? file.data.length : 0;
+                                                    };
+
                                                     let fileCompleted = (err?: any) => {
-                                                        completed(err, file.name);
+                                                        if (err) {
+                                                            removeChunkedFile();
+                                                        }
+
+                                                        completed(err, file.name, {
+                                                            path: err ? undefined : targetFile,
+                                                        });
+
+                                                        me.fileHandled(file, remoteClient, getSize(),
+                                                                       err ? undefined : targetFile, err);
+                                                    };
+
+                                                    let fileRejected = (reason: string) => {
+                                                        removeChunkedFile();
+
+                                                        completed(new Error(reason), file.name, {
+                                                            rejected: true,
+                                                        });
+
+                                                        me.log(i18.t('host.errors.clientRejected',
+                                                                     remoteClient.address, remoteClient.port,
+                                                                     remoteClient.name ? `(${remoteClient.name})` : '',
+                                                                     file.name, reason));
+
+                                                        me.fileHandled(file, remoteClient, getSize(),
+                                                                       undefined, reason, true);
                                                     };
 
                                                     try {
@@ -502,7 +1409,7 @@ export class DeployHost {
                                                         }
                                                         file.data = data;
 
-                                                        let targetFile = Path.join(dir, file.name);
+                                                        targetFile = Path.join(dir, file.name);
 
                                                         let handleData = function(data: Buffer) {
                                                             try {
@@ -515,6 +1422,22 @@ export class DeployHost {
                                                                     
                                                                     let copyFile = () => {
                                                                         try {
+                                                                            if (receivedChunkedFile) {
+                                                                                // move reassembled file into place
+                                                                                FSExtra.move(receivedChunkedFile.tempFile, targetFile, {
+                                                                                    clobber: true,
+                                                                                }, (err) => {
+                                                                                    if (!err) {
+                                                                                        clearTimeout(receivedChunkedFile.timeout);
+                                                                                        delete me._chunkedFiles[chunkedFileKey];
+                                                                                    }
+
+                                                                                    fileCompleted(err);
+                                                                                });
+
+                                                                                return;
+                                                                            }
+
                                                                             FS.writeFile(targetFile, file.data, (err) => {
                                                                                 if (err) {
                                                                                     fileCompleted(err);
@@ -611,11 +1534,40 @@ export class DeployHost {
                                                             }
                                                         };  // handleData()
 
+                                                        // checks if the client has access to the file
+                                                        let checkAccess = (size: number): boolean => {
+                                                            if (clients.length > 0) {
+                                                                let client = findClient(clients, socket, file);
+                                                                if (!client) {
+                                                                    fileRejected(i18.t('host.errors.unknownClient'));
+                                                                    return false;
+                                                                }
+
+                                                                remoteClient.name = deploy_helpers.toStringSafe(client.name);
+
+                                                                let reason = checkClientAccess(client, file, dir, size);
+                                                                if (!deploy_helpers.isNullOrUndefined(reason)) {
+                                                                    fileRejected(reason);
+                                                                    return false;
+                                                                }
+                                                            }
+
+                                                            return true;
+                                                        };  // checkAccess()
+
                                                         let validateFile = () => {
+                                                            let size = receivedChunkedFile ? receivedChunkedFile.size
+                                                                                           : file.data.length;
+                                                            if (!checkAccess(size)) {
+                                                                return;
+                                                            }
+
                                                             let validatorCtx: ValidatorContext = {
                                                                 globals: me.deployer.getGlobals(),
                                                                 remote: remoteClient,
+                                                                size: size,
                                                                 target: targetFile,
+                                                                tempFile: receivedChunkedFile ? receivedChunkedFile.tempFile : undefined,
                                                             };
 
                                                             let validatorArgs: deploy_contracts.ValidatorArguments<RemoteFile> = {
@@ -661,7 +1613,7 @@ export class DeployHost {
                                                                         // no => rejected
 
                                                                         updateTargetFile(() => {
-                                                                            fileCompleted(new Error(i18.t('host.errors.fileRejected', file.name)));
+                                                                            fileRejected(i18.t('host.errors.fileRejected', file.name));
                                                                         });
                                                                     }
                                                                 }).catch((err) => {
@@ -673,6 +1625,71 @@ export class DeployHost {
                                                             }
                                                         };  // validateFile
 
+                                                        // stores a chunk in the temp file and
+                                                        // validates the whole file after the last one
+                                                        let receiveChunk = () => {
+                                                            try {
+                                                                chunkedFileKey = `${deploy_helpers.toStringSafe(file.session)}\n${file.name}`;
+
+                                                                let chunk = parseInt(deploy_helpers.toStringSafe(file.chunk).trim());
+                                                                let chunkCount = parseInt(deploy_helpers.toStringSafe(file.chunkCount).trim());
+
+                                                                let chunkHash = Crypto.createHash(CHUNK_HASH_ALGORITHM)
+                                                                                      .update(file.data)
+                                                                                      .digest('hex');
+                                                                if (chunkHash !== deploy_helpers.normalizeString(file.chunkHash)) {
+                                                                    fileCompleted(new Error(i18.t('host.errors.invalidChunk', chunk)));
+                                                                    return;
+                                                                }
+
+                                                                if (1 === chunk) {
+                                                                    // (re)start
+                                                                    me.removeChunkedFile(chunkedFileKey);
+
+                                                                    me._chunkedFiles[chunkedFileKey] = {
+                                                                        hash: Crypto.createHash(CHUNK_HASH_ALGORITHM),
+                                                                        next: 1,
+                                                                        size: 0,
+                                                                    };
+                                                                }
+
+                                                                let chunkedFile = me._chunkedFiles[chunkedFileKey];
+                                                                if (!chunkedFile || chunk !== chunkedFile.next || isNaN(chunkCount) || chunk > chunkCount) {
+                                                                    fileCompleted(new Error(i18.t('host.errors.unexpectedChunk', chunk)));
+                                                                    return;
+                                                                }
+
+                                                                if (!checkAccess(chunkedFile.size + file.data.length)) {
+                                                                    return;
+                                                                }
+
+                                                                me.resetChunkedFileTimeout(chunkedFileKey);
+
+                                                                me.appendChunk(chunkedFile, file.data).then(() => {
+                                                                    if (chunk < chunkCount) {
+                                                                        completed(null, file.name);  // wait for next chunk
+                                                                        return;
+                                                                    }
+
+                                                                    // last chunk => verify whole file
+                                                                    if (chunkedFile.hash.digest('hex') !== deploy_helpers.normalizeString(file.hash)) {
+                                                                        fileCompleted(new Error(i18.t('host.errors.invalidChunkedFile', file.name)));
+                                                                        return;
+                                                                    }
+
+                                                                    receivedChunkedFile = chunkedFile;
+                                                                    file.data = undefined;
+
+                                                                    validateFile();
+                                                                }).catch((err) => {
+                                                                    fileCompleted(err);
+                                                                });
+                                                            }
+                                                            catch (e) {
+                                                                fileCompleted(e);
+                                                            }
+                                                        };  // receiveChunk()
+
                                                         let untransformTheData = function(data?: Buffer) {
                                                             if (arguments.length > 0) {
                                                                 file.data = data;
@@ -709,7 +1726,12 @@ export class DeployHost {
                                                                 tResult.then((untransformedData) => {
                                                                     file.data = untransformedData;
 
-                                                                    validateFile();
+                                                                    if (deploy_helpers.isNullOrUndefined(file.chunk)) {
+                                                                        validateFile();
+                                                                    }
+                                                                    else {
+                                                                        receiveChunk();
+                                                                    }
                                                                 }).catch((err) => {
                                                                     fileCompleted(err);
                                                                 });
@@ -810,7 +1832,20 @@ export class DeployHost {
                         });
                     }
                 });
-            });
+            };  // handleConnection()
+
+            let server: Net.Server;
+            if (tlsOpts) {
+                server = TLS.createServer(tlsOpts, handleConnection);
+
+                server.on('tlsClientError', (err: any, socket: TLS.TLSSocket) => {
+                    me.log(i18.t('host.errors.tlsClientRejected',
+                                 socket ? socket.remoteAddress : undefined, err));
+                });
+            }
+            else {
+                server = Net.createServer(handleConnection);
+            }
 
             server.on('listening', (err) => {
                 if (err) {
@@ -820,6 +1855,12 @@ export class DeployHost {
                     try {
                         me._server = server;
 
+                        if (discovery) {
+                            me.startDiscoveryResponder(discovery, port, !!tlsOpts);
+                        }
+
+                        me.raiseChanged();
+
                         startCompleted();
                     }
                     catch (e) {
@@ -844,6 +1885,41 @@ export class DeployHost {
         });
     }
 
+    /**
+     * Starts answering discovery requests of clients.
+     * 
+     * @param {deploy_contracts.HostDiscoverySettings} settings The settings.
+     * @param {number} port The TCP port of the host.
+     * @param {boolean} tls Host uses TLS or not.
+     */
+    protected startDiscoveryResponder(settings: deploy_contracts.HostDiscoverySettings, port: number, tls: boolean) {
+        let me = this;
+
+        let discoveryPort = parseInt(deploy_helpers.toStringSafe(settings.port,
+                                                                 '' + deploy_contracts.DEFAULT_DISCOVERY_PORT));
+
+        let name = deploy_helpers.toStringSafe(me.deployer.replaceWithValues(settings.name)).trim();
+        if ('' === name) {
+            name = OS.hostname();
+        }
+
+        deploy_discovery.createResponder(discoveryPort, {
+            name: name,
+            port: port,
+            tls: tls,
+            workspace: Path.basename(deploy_workspace.getRootPath()),
+        }).then((responder) => {
+            if (me._server) {
+                me._discoveryResponder = responder;
+            }
+            else {
+                responder.close();  // host has been stopped in the meantime
+            }
+        }).catch((err) => {
+            me.log(i18.t('host.errors.discoveryFailed', discoveryPort, err));
+        });
+    }
+
     /**
      * Stops the host.
      * 
@@ -868,13 +1944,51 @@ export class DeployHost {
                 return;
             }
 
+            let responder = me._discoveryResponder;
+            if (responder) {
+                me._discoveryResponder = null;
+
+                try {
+                    responder.close();
+                }
+                catch (e) {
+                    me.log(i18.t('errors.withCategory', 'DeployHost.stop()', e));
+                }
+            }
+
             srv.close((err) => {
                 if (!err) {
                     me._server = null;
+
+                    // remove incomplete files
+                    Object.keys(me._chunkedFiles).forEach((key) => {
+                        me.removeChunkedFile(key);
+                    });
+
+                    me._sessions = [];
+                    me._blockedAddresses = [];
+
+                    me.raiseChanged();
                 }
 
                 stopCompleted(err);
             });
         });
     }
+
+    /**
+     * Removes a client address from the list of blocked ones.
+     * 
+     * @param {string} address The address.
+     */
+    public unblockAddress(address: string) {
+        address = normalizeAddress(address);
+
+        let oldLength = this._blockedAddresses.length;
+        this._blockedAddresses = this._blockedAddresses.filter(x => x !== address);
+
+        if (oldLength !== this._blockedAddresses.length) {
+            this.raiseChanged();
+        }
+    }
 }
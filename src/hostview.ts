@@ -0,0 +1,314 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_contracts from './contracts';
+import * as deploy_globals from './globals';
+import * as deploy_helpers from './helpers';
+import * as deploy_host from './host';
+import * as i18 from './i18';
+import * as Moment from 'moment';
+import * as vs_deploy from './deploy';
+import * as vscode from 'vscode';
+
+
+/**
+ * An item of the host view.
+ */
+export interface HostViewItem {
+    /**
+     * The client address (for 'client' and 'blocked' items).
+     */
+    address?: string;
+    /**
+     * The child items.
+     */
+    children?: HostViewItem[];
+    /**
+     * The context value (s. 'when' clauses of menus).
+     */
+    contextValue?: string;
+    /**
+     * The description.
+     */
+    description?: string;
+    /**
+     * The label.
+     */
+    label: string;
+    /**
+     * The tooltip.
+     */
+    tooltip?: string;
+}
+
+
+/**
+ * The ID of the view.
+ */
+export const VIEW_ID = 'vsDeployHost';
+const CONTEXT_IS_RUNNING = 'vsDeployHostIsRunning';
+const REFRESH_DELAY = 500;
+
+
+/**
+ * A tree data provider, which shows the state of the deploy host.
+ */
+export class HostTreeDataProvider implements vscode.TreeDataProvider<HostViewItem>, vscode.Disposable {
+    /**
+     * Stores the underlying deployer.
+     */
+    protected readonly _DEPLOYER: vs_deploy.Deployer;
+    /**
+     * Stores the listener for changes of the host.
+     */
+    protected readonly _HOST_CHANGED_LISTENER: (host: deploy_host.DeployHost) => void;
+    /**
+     * Stores the event emitter for changes.
+     */
+    protected readonly _ON_DID_CHANGE_TREE_DATA = new vscode.EventEmitter<HostViewItem>();
+    /**
+     * Stores the timer of the next refresh.
+     */
+    protected _refreshTimer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vs_deploy.Deployer} deployer The underlying deployer.
+     */
+    constructor(deployer: vs_deploy.Deployer) {
+        this._DEPLOYER = deployer;
+
+        this._HOST_CHANGED_LISTENER = (host) => {
+            this.refresh();
+        };
+
+        deploy_globals.EVENTS.on(deploy_contracts.EVENT_HOST_CHANGED,
+                                 this._HOST_CHANGED_LISTENER);
+    }
+
+    /**
+     * Creates the item with the blocked client addresses.
+     * 
+     * @param {deploy_host.DeployHost} host The host.
+     * 
+     * @return {HostViewItem} The item.
+     */
+    protected createBlockedItem(host: deploy_host.DeployHost): HostViewItem {
+        let addresses = host.blockedAddresses;
+
+        return {
+            children: addresses.map(a => {
+                return {
+                    address: a,
+                    contextValue: 'blocked',
+                    label: a,
+                };
+            }),
+            label: i18.t('host.view.blocked', addresses.length),
+        };
+    }
+
+    /**
+     * Creates the item with the clients.
+     * 
+     * @param {deploy_host.DeployHost} host The host.
+     * 
+     * @return {HostViewItem} The item.
+     */
+    protected createClientsItem(host: deploy_host.DeployHost): HostViewItem {
+        let clients: { [address: string]: deploy_host.HostSession[] } = {};
+        host.sessions.forEach(s => {
+            let address = deploy_helpers.toStringSafe(s.client.address);
+
+            (clients[address] = clients[address] || []).push(s);
+        });
+
+        let children = Object.keys(clients).sort().map(address => {
+            let sessions = clients[address];
+
+            let names = sessions.map(s => deploy_helpers.toStringSafe(s.client.name).trim())
+                                .filter(n => '' !== n);
+
+            let sum = (value: (s: deploy_host.HostSession) => number) => {
+                return sessions.map(s => value(s))
+                               .reduce((x, y) => x + y, 0);
+            };
+
+            let label = address;
+            if (names.length > 0) {
+                label += ` (${names[names.length - 1]})`;
+            }
+
+            return {
+                address: address,
+                contextValue: 'client',
+                description: i18.t('host.view.clientDetails',
+                                   sessions.length,
+                                   sum(s => s.files.length),
+                                   sum(s => s.bytes),
+                                   sum(s => s.rejected.length),
+                                   sum(s => s.errors.length)),
+                label: label,
+            };
+        });
+
+        return {
+            children: children,
+            label: i18.t('host.view.clients', children.length),
+        };
+    }
+
+    /**
+     * Creates the item with the sessions.
+     * 
+     * @param {deploy_host.DeployHost} host The host.
+     * 
+     * @return {HostViewItem} The item.
+     */
+    protected createSessionsItem(host: deploy_host.DeployHost): HostViewItem {
+        let sessions = host.sessions.reverse();  // newest first
+
+        let children = sessions.map(s => {
+            let files: HostViewItem[] = s.files.map(f => {
+                return {
+                    label: f,
+                };
+            });
+
+            let rejected: HostViewItem[] = s.rejected.map(r => {
+                return {
+                    description: r.message,
+                    label: i18.t('host.view.rejected', r.file),
+                };
+            });
+
+            let errors: HostViewItem[] = s.errors.map(e => {
+                return {
+                    description: e.message,
+                    label: i18.t('host.view.error', e.file),
+                };
+            });
+
+            let state = s.isCompleted ? i18.t('host.view.completed')
+                                      : i18.t('host.view.active');
+
+            return {
+                children: files.concat(rejected)
+                               .concat(errors),
+                description: i18.t('host.view.sessionDetails',
+                                   s.handled.length, s.totalCount, s.bytes,
+                                   s.client.address, state),
+                label: Moment(s.lastUpdate).format('YYYY-MM-DD HH:mm:ss'),
+                tooltip: s.id,
+            };
+        });
+
+        return {
+            children: children,
+            label: i18.t('host.view.sessions', children.length),
+        };
+    }
+
+    /**
+     * Gets the underlying deployer.
+     */
+    public get deployer(): vs_deploy.Deployer {
+        return this._DEPLOYER;
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        deploy_globals.EVENTS.removeListener(deploy_contracts.EVENT_HOST_CHANGED,
+                                             this._HOST_CHANGED_LISTENER);
+
+        if (this._refreshTimer) {
+            clearTimeout(this._refreshTimer);
+            this._refreshTimer = null;
+        }
+
+        deploy_helpers.tryDispose(this._ON_DID_CHANGE_TREE_DATA);
+    }
+
+    /** @inheritdoc */
+    public getChildren(element?: HostViewItem): HostViewItem[] {
+        if (element) {
+            return element.children || [];
+        }
+
+        let host = this.deployer.host;
+        if (!host || !host.isRunning) {
+            return [];
+        }
+
+        return [
+            this.createSessionsItem(host),
+            this.createClientsItem(host),
+            this.createBlockedItem(host),
+        ];
+    }
+
+    /** @inheritdoc */
+    public getTreeItem(element: HostViewItem): vscode.TreeItem {
+        let children = element.children || [];
+
+        let item = new vscode.TreeItem(element.label,
+                                       children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed
+                                                           : vscode.TreeItemCollapsibleState.None);
+        item.contextValue = element.contextValue;
+        item.tooltip = element.tooltip || element.description;
+
+        // 'description' is not available in older versions
+        (<any>item).description = element.description;
+
+        return item;
+    }
+
+    /** @inheritdoc */
+    public get onDidChangeTreeData(): vscode.Event<HostViewItem> {
+        return this._ON_DID_CHANGE_TREE_DATA.event;
+    }
+
+    /**
+     * Refreshes the view (delayed).
+     */
+    public refresh() {
+        let me = this;
+
+        let host = me.deployer.host;
+        vscode.commands.executeCommand('setContext', CONTEXT_IS_RUNNING,
+                                       !!host && host.isRunning);
+
+        if (me._refreshTimer) {
+            return;  // already planned
+        }
+
+        me._refreshTimer = setTimeout(() => {
+            me._refreshTimer = null;
+
+            me._ON_DID_CHANGE_TREE_DATA.fire();
+        }, REFRESH_DELAY);
+    }
+}
@@ -44,6 +44,24 @@ export interface Translation {
             }
         }
     },
+    api?: {
+        errors?: {
+            bodyTooBig?: string;
+            cannotStart?: string;
+            deploymentNotFound?: string;
+            fileOutsideWorkspace?: string;
+            invalidBody?: string;
+            noFiles?: string;
+            noTargets?: string;
+            notFound?: string;
+            noToken?: string;
+            packageNotFound?: string;
+            targetNotFound?: string;
+            unauthorized?: string;
+            unknownFormat?: string;
+        },
+        started?: string;
+    },
     canceled?: string;
     commands?: {
         executionFailed?: string;
@@ -53,6 +71,23 @@ export interface Translation {
         noPlugins?: string;
         noPluginsForType?: string;
         selectSource?: string;
+        workspace?: {
+            details?: string;
+            fileDetails?: string;
+            groups?: {
+                newerLocal?: string;
+                newerRemote?: string;
+                onlyLocal?: string;
+                onlyRemote?: string;
+                sameSizeDifferentContent?: string;
+            },
+            noDifferences?: string;
+            noTargets?: string;
+            notSupported?: string;
+            running?: string;
+            selectPackage?: string;
+            selectTarget?: string;
+        },
     },
     deploy?: {
         after?: {
@@ -62,6 +97,10 @@ export interface Translation {
             },
             failed?: string;
         },
+        backup?: {
+            creating?: string;
+            fileFailed?: string;
+        },
         before?: {
             failed?: string;
         },
@@ -74,6 +113,18 @@ export interface Translation {
         canceled?: string;
         canceledWithErrors?: string;
         cancelling?: string;
+        dryRun?: {
+            failed?: string;
+            failedFiles?: string;
+            filesToRemove?: string;
+            plannedOperations?: string;
+            running?: string;
+            skippedFiles?: string;
+            summary?: string;
+            title?: string;
+            titleNoTarget?: string;
+            unknownDestination?: string;
+        },
         file?: {
             deploying?: string;
             deployingWithDestination?: string;
@@ -92,6 +143,12 @@ export interface Translation {
             failed?: string;
             selectTarget?: string;
         },
+        mirror?: {
+            failedTarget?: string;
+            noPlugins?: string;
+            noPluginsForType?: string;
+            removingFile?: string;
+        },
         newerFiles?: {
             deploy?: string;
             localFile?: string;
@@ -123,6 +180,32 @@ export interface Translation {
             unknownSqlEngine?: string;
             unknownType?: string;
         },
+        releases?: {
+            failed?: string;
+            noTargets?: string;
+            rolledBack?: string;
+            selectTarget?: string;
+        },
+        resume?: {
+            noSession?: string;
+            nothingLeft?: string;
+            resuming?: string;
+            targetNotFound?: string;
+        },
+        retry?: {
+            retrying?: string;
+        },
+        rollback?: {
+            failed?: string;
+            fileFailed?: string;
+            finished?: string;
+            noBackup?: string;
+            question?: string;
+            running?: string;
+            someFailed?: string;
+            succeeded?: string;
+            targetNotFound?: string;
+        },
         startQuestion?: string;
         workspace?: {
             allFailed?: string;
@@ -144,10 +227,19 @@ export interface Translation {
             someFailedWithTarget?: string;
             status?: string;
             statusWithDestination?: string;
+            unchangedFilesSkipped?: string;
             virtualTargetName?: string;
             virtualTargetNameWithPackage?: string;
         }
     },
+    discovery?: {
+        noHosts?: string;
+        noTargets?: string;
+        searching?: string;
+        selected?: string;
+        selectHost?: string;
+        selectTarget?: string;
+    },
     errors?: {
         countable?: string;
         withCategory?: string;
@@ -163,6 +255,42 @@ export interface Translation {
     format?: {
         dateTime?: string;
     },
+    git?: {
+        changedFiles?: string;
+        failed?: string;
+        inputSince?: string;
+    },
+    history?: {
+        columns?: {
+            direction?: string;
+            duration?: string;
+            files?: string;
+            package?: string;
+            result?: string;
+            target?: string;
+            time?: string;
+            user?: string;
+        },
+        details?: string;
+        error?: string;
+        filters?: {
+            all?: string;
+            package?: string;
+            target?: string;
+        },
+        noEntries?: string;
+        results?: {
+            canceled?: string;
+            canceledWithErrors?: string;
+            failed?: string;
+            succeeded?: string;
+        },
+        selectFilter?: string;
+        summary?: string;
+        title?: string;
+        titleWithPackage?: string;
+        titleWithTarget?: string;
+    },
     host?: {
         button?: {
             text?: string;
@@ -170,18 +298,46 @@ export interface Translation {
         },
         errors?: {
             cannotListen?: string;
+            clientBlocked?: string;
+            clientRejected?: string;
             couldNotStop?: string;
+            dirNotAllowed?: string;
+            discoveryFailed?: string;
+            fileNotAllowed?: string;
             fileRejected?: string;
+            fileTooBig?: string;
+            invalidChunk?: string;
+            invalidChunkedFile?: string;
             noData?: string;
             noFilename?: string;
+            tlsCertOrKeyMissing?: string;
+            tlsClientRejected?: string;
+            unexpectedChunk?: string;
+            unknownClient?: string;
+            unknownRequest?: string;
         },
         receiveFile?: {
+            chunk?: string;
             failed?: string;
             ok?: string;
             receiving?: string;
         },
+        request?: {
+            receiving?: string;
+        },
         started?: string;
         stopped?: string;
+        view?: {
+            active?: string;
+            blocked?: string;
+            clientDetails?: string;
+            clients?: string;
+            completed?: string;
+            error?: string;
+            rejected?: string;
+            sessionDetails?: string;
+            sessions?: string;
+        },
     },
     install?: string;
     isNo?: {
@@ -241,6 +397,7 @@ export interface Translation {
         },
         ftp?: {
             description?: string;
+            rawCommandNotSupported?: string;
         },
         http?: {
             description?: string;
@@ -274,6 +431,11 @@ export interface Translation {
         },
         remote?: {
             description?: string;
+            failed?: string;
+            noHost?: string;
+            noHostSelected?: string;
+            noResult?: string;
+            rejected?: string;
         },
         s3bucket?: {
             credentialTypeNotSupported?: string;
@@ -286,7 +448,11 @@ export interface Translation {
             noDeployFileFunction?: string;
         },
         sftp?: {
+            commandFailed?: string;
             description?: string;
+            noPreviousRelease?: string;
+            releaseActivated?: string;
+            releasesNotEnabled?: string;
         },
         slack?: {
             description?: string;
@@ -389,14 +555,38 @@ export interface Translation {
         couldNotResolve?: string;
         isEmpty?: string;
     },
+    remoteExplorer?: {
+        errors?: {
+            listFailed?: string;
+            notSupported?: string;
+        },
+        fileDetails?: string;
+        localFileNotFound?: string;
+        noFiles?: string;
+    },
     selected?: string;
     sync?: {
         file?: {
             doesNotExistOnRemote?: string;
             localChangedWithinSession?: string;
             localIsNewer?: string;
+            sameContent?: string;
             synchronize?: string;
-        }
+        },
+        workspace?: {
+            conflict?: string;
+            finished?: string;
+            noTargets?: string;
+            notSupported?: string;
+            running?: string;
+            selectPackage?: string;
+            selectTarget?: string;
+            skipped?: string;
+            synchronizing?: string;
+            unresolved?: string;
+            useLocal?: string;
+            useRemote?: string;
+        },
     },
     targets?: {
         cannotUseRecurrence?: string;
@@ -37,6 +37,24 @@ export const translation: Translation = {
             }
         }
     },
+    api: {
+        errors: {
+            bodyTooBig: 'Der Request-Body ist größer als {0} Bytes!',
+            cannotStart: 'Die lokale API konnte nicht gestartet werden: {0}',
+            deploymentNotFound: "Das Deployment '{0}' wurde nicht gefunden!",
+            fileOutsideWorkspace: "Die Datei '{0}' liegt außerhalb des Arbeitsbereiches!",
+            invalidBody: 'Ungültiger JSON-Body: {0}',
+            noFiles: 'Keine Dateien definiert!',
+            noTargets: 'Keine Ziele definiert!',
+            notFound: "'{0} {1}' wurde nicht gefunden!",
+            noToken: 'Für die lokale API wurde kein Token definiert!',
+            packageNotFound: "Das Paket '{0}' wurde nicht gefunden!",
+            targetNotFound: "Das Ziel '{0}' wurde nicht gefunden!",
+            unauthorized: 'Nicht autorisiert!',
+            unknownFormat: "Unbekanntes Format '{0}'!",
+        },
+        started: "Lokale API wurde auf '{0}:{1}' gestartet.",
+    },
     canceled: '[Abgebrochen]',
     commands: {
         executionFailed: "Die Ausführung des Kommandos {0:trim,surround} Schlug fehl: {1}",
@@ -46,6 +64,23 @@ export const translation: Translation = {
         noPlugins: 'Keine passenden PlugIns gefunden!',
         noPluginsForType: 'Keine passenden PlugIns gefunden für {0:trim,surround}!',
         selectSource: 'Bitte wählen Sie eine Quelle aus...',
+        workspace: {
+            details: 'lokal: {0}; entfernt: {1}',
+            fileDetails: '{0:trim} Bytes, {1:trim}',
+            groups: {
+                newerLocal: 'Lokal neuer ({0:trim})',
+                newerRemote: 'Entfernt neuer ({0:trim})',
+                onlyLocal: 'Nur lokal ({0:trim})',
+                onlyRemote: 'Nur entfernt ({0:trim})',
+                sameSizeDifferentContent: 'Gleiche Größe, anderer Inhalt ({0:trim})',
+            },
+            noDifferences: 'Keine Unterschiede gefunden!',
+            noTargets: 'Kein Ziel gefunden, mit dem verglichen werden kann!',
+            notSupported: 'Ziel {0:trim,surround} unterstützt keinen Vergleich von Dateien!',
+            running: 'Vergleiche Arbeitsbereich...',
+            selectPackage: 'Wählen Sie das Paket, das verglichen werden soll...',
+            selectTarget: 'Wählen Sie das Ziel, mit dem verglichen werden soll...',
+        },
     },
     deploy: {
         after: {
@@ -55,6 +90,10 @@ export const translation: Translation = {
             },
             failed: 'Fehler beim Ausführen der Aufgaben, die NACH dem Bereitstellen ausgeführt werden sollen: {0}',
         },
+        backup: {
+            creating: 'Erstelle Backup von {0} Datei(en) von {1:trim,surround}...',
+            fileFailed: 'Konnte kein Backup von {0:trim,surround} erstellen: {1}',
+        },
         before: {
             failed: 'Fehler beim Ausführen der Aufgaben, die VOR dem Bereitstellen ausgeführt werden sollten: {0}',
         },
@@ -67,6 +106,18 @@ export const translation: Translation = {
         canceled: 'Abgebrochen.',
         canceledWithErrors: 'Abgebrochen mit Fehlern!',
         cancelling: 'Breche das Bereitstellen ab...',
+        dryRun: {
+            failed: 'Testlauf fehlgeschlagen: {0}',
+            failedFiles: 'Fehler',
+            filesToRemove: 'Zu entfernende Dateien (Spiegeln)',
+            plannedOperations: 'Geplante Operationen',
+            running: 'Simuliere Bereitstellung von {0:trim} Datei(en) in {1:trim,surround} (Testlauf)... ',
+            skippedFiles: 'Übersprungene Dateien',
+            summary: '{0:trim} Datei(en) würde(n) bereitgestellt, {1:trim} Datei(en) würde(n) übersprungen werden.',
+            title: 'Testlauf für {0:trim,surround}',
+            titleNoTarget: 'Testlauf',
+            unknownDestination: 'Unbekanntes Ziel',
+        },
         file: {
             deploying: 'Stelle Datei {0:trim,surround}{1:trim,leading_space} bereit... ',
             deployingWithDestination: 'Stelle Datei {0:trim,surround} in {1:trim,surround}{2:trim,leading_space} bereit... ',
@@ -85,6 +136,12 @@ export const translation: Translation = {
             failed: 'Das Verzeichnis {0:trim,surround} konnte nicht bereitgestellt werden: {1}',
             selectTarget: 'Wählen Sie das Ziel in welches das Verzeichnis bereitgestellt werden soll...',
         },
+        mirror: {
+            failedTarget: 'Konnte {0:trim,surround} nicht aus dem Ziel {1:trim} entfernen: {2}',
+            noPlugins: 'Keine Plugins gefunden, die Dateien entfernen können!',
+            noPluginsForType: 'Keine passenden Plugins für {0:trim,surround} gefunden, die Dateien entfernen können!',
+            removingFile: 'Entferne Datei {0:trim,surround}{1:trim,leading_space}... ',
+        },
         newerFiles: {
             deploy: 'Bereitstellen',
             localFile: 'Lokale Datei',
@@ -116,6 +173,32 @@ export const translation: Translation = {
             unknownSqlEngine: 'Unbekannter SQL Typ {0:trim,surround}!',
             unknownType: 'UNBEKANNTER TYP: {0:trim,surround}',
         },
+        releases: {
+            failed: 'Konnte nicht zum vorherigen Release zurückwechseln: {0}',
+            noTargets: 'Es gibt keine Ziele, die Releases unterstützen!',
+            rolledBack: 'Ziel {1:trim,surround} wurde auf Release {0:trim,surround} zurückgesetzt.',
+            selectTarget: 'Wählen Sie das Ziel, das zurückgesetzt werden soll...',
+        },
+        resume: {
+            noSession: 'Es gibt kein Deployment, das fortgesetzt werden kann.',
+            nothingLeft: 'Alle Dateien des letzten Deployments nach {0:trim,surround} wurden bereits übertragen.',
+            resuming: 'Setze letztes Deployment fort: {0} von {1} Datei(en) verbleibend für {2:trim,surround}...',
+            targetNotFound: 'Das Ziel {0:trim,surround} des letzten Deployments wurde nicht gefunden!',
+        },
+        retry: {
+            retrying: '[WIEDERHOLUNG {1} von {2} für {0:trim,surround} in {3} ms: {4}]',
+        },
+        rollback: {
+            failed: 'Zurücksetzen fehlgeschlagen: {0}',
+            fileFailed: 'Konnte {0:trim,surround} nicht wiederherstellen: {1}',
+            finished: 'Zurücksetzen beendet.',
+            noBackup: 'Es gibt kein Backup eines vorherigen Deployments.',
+            question: 'Möchten Sie wirklich {0} Datei(en) auf {1:trim,surround} wiederherstellen, so wie sie vor dem Deployment am {2} waren?',
+            running: 'Stelle {0} Datei(en) auf {1:trim,surround} wieder her...',
+            someFailed: '{0} von {1} Datei(en) konnten nicht wiederhergestellt werden!',
+            succeeded: '{0} Datei(en) wurden auf {1:trim,surround} wiederhergestellt.',
+            targetNotFound: 'Das Ziel {0:trim,surround} des letzten Deployments wurde nicht gefunden!',
+        },
         startQuestion: 'Soll das Bereitstellen gestartet werden?',
         workspace: {
             allFailed: 'Keine Datei konnte bereitgestellt werden: {0}',
@@ -137,10 +220,19 @@ export const translation: Translation = {
             someFailedWithTarget: '{0:trim} der {1:trim} Datei(en) konnten nicht in {2:trim,surround} bereitgestellt werden!',
             status: 'Stelle {0:trim,surround} bereit... ',
             statusWithDestination: 'Stelle {0:trim,surround} in {1:trim,surround} bereit... ',
+            unchangedFilesSkipped: '{0:trim} unveränderte Datei(en) übersprungen.',
             virtualTargetName: 'Virtuelles Ziel für aktuelles Paket',
             virtualTargetNameWithPackage: 'Virtuelles Ziel für Paket {0:trim,surround}',
         }
     },
+    discovery: {
+        noHosts: 'Keinen Deploy-Host gefunden!',
+        noTargets: "Es sind keine 'remote'-Ziele definiert!",
+        searching: 'Suche nach Deploy-Hosts...',
+        selected: 'Host {0:trim,surround} wurde für Ziel {1:trim,surround} ausgewählt.',
+        selectHost: 'Wählen Sie den Host für {0:trim,surround} aus...',
+        selectTarget: 'Wählen Sie das Ziel aus...',
+    },
     errors: {
         countable: 'FEHLER #{0:trim}: {1}',
         withCategory: '[FEHLER] {0:trim}: {1}',
@@ -156,6 +248,42 @@ export const translation: Translation = {
     format: {
         dateTime: 'DD.MM.YYYY HH:mm:ss',
     },
+    git: {
+        changedFiles: '{0} Datei(en) wurden in git geändert.',
+        failed: '{0:trim,surround} fehlgeschlagen: {1}',
+        inputSince: 'Commit, Tag oder Branch zum Vergleichen (leer = nur nicht committete Änderungen)',
+    },
+    history: {
+        columns: {
+            direction: 'Richtung',
+            duration: 'Dauer',
+            files: 'Dateien',
+            package: 'Paket',
+            result: 'Ergebnis',
+            target: 'Ziel',
+            time: 'Zeit',
+            user: 'Benutzer',
+        },
+        details: 'Details',
+        error: 'Fehler',
+        filters: {
+            all: '(alle)',
+            package: 'Paket',
+            target: 'Ziel',
+        },
+        noEntries: 'Der Verlauf ist leer.',
+        results: {
+            canceled: 'Abgebrochen',
+            canceledWithErrors: 'Mit Fehlern abgebrochen',
+            failed: 'Fehlgeschlagen ({0} Datei(en))',
+            succeeded: 'Erfolgreich',
+        },
+        selectFilter: 'Wählen Sie einen Filter für den Verlauf...',
+        summary: 'Zeige die letzten {0} von {1} Einträgen.',
+        title: 'Deployment-Verlauf',
+        titleWithPackage: 'Deployment-Verlauf des Pakets {0:trim,surround}',
+        titleWithTarget: 'Deployment-Verlauf des Ziels {0:trim,surround}',
+    },
     host: {
         button: {
             text: 'Warte auf Dateien...',
@@ -163,17 +291,45 @@ export const translation: Translation = {
         },
         errors: {
             cannotListen: 'Das Starten des Bereitstellungs-Dienstes schlug fehl: {0}',
+            clientBlocked: "Verbindung von '{0}:{1}' blockiert!",
+            clientRejected: "Datei {3:trim,surround} von '{0:trim}:{1:trim}'{2:trim,leading_space} abgelehnt: {4}",
             couldNotStop: 'Das Beenden des Bereitstellungs-Dienstes schlug fehl: {0}',
+            dirNotAllowed: 'Der Client hat keinen Zugriff auf das Verzeichnis von {0:trim,surround}!',
+            discoveryFailed: 'Konnte Suchanfragen auf UDP-Port {0:trim} nicht beantworten: {1}',
+            fileNotAllowed: 'Der Client darf {0:trim,surround} nicht senden!',
             fileRejected: 'Die Datei wurde abgelehnt!',
+            fileTooBig: '{0:trim,surround} ist zu groß ({1:trim} Bytes; Maximum: {2:trim})!',
+            invalidChunk: 'Teil #{0:trim} ist beschädigt!',
+            invalidChunkedFile: 'Die zusammengesetzte Datei {0:trim,surround} ist beschädigt!',
             noData: 'Keine Daten!',
             noFilename: 'Kein Dateiname {0:trim}!',
+            tlsCertOrKeyMissing: 'TLS-Zertifikat und -Schlüssel des Dienstes müssen definiert sein!',
+            tlsClientRejected: "TLS-Verbindung von '{0:trim}' abgelehnt: {1}",
+            unexpectedChunk: 'Unerwarteter Teil #{0:trim}!',
+            unknownClient: 'Unbekannter Client!',
+            unknownRequest: 'Unbekannte Anfrage {0:trim,surround}!',
         },
         receiveFile: {
+            chunk: 'Teil {0:trim} / {1:trim}',
             failed: '[FEHLGESCHLAGEN:{0:trim,leading_space}]',
             receiving: "Empfange Datei{2:trim,leading_space} von '{0:trim}:{1:trim}'... ",
         },
+        request: {
+            receiving: "Anfrage {2:trim,surround} für {3:trim,surround} von '{0:trim}:{1:trim}'... ",
+        },
         started: 'Bereitstellungs-Dienst wurde erfolgreich auf Port {0:trim} im Verzeichnis {1:trim,surround} gestartet.',
         stopped: 'Bereitstellungs-Dienst wurde beendet.',
+        view: {
+            active: 'aktiv',
+            blocked: 'Blockierte Adressen ({0:trim})',
+            clientDetails: '{0:trim} Sitzung(en); {1:trim} Datei(en); {2:trim} Bytes; {3:trim} abgelehnt; {4:trim} Fehler',
+            clients: 'Clients ({0:trim})',
+            completed: 'abgeschlossen',
+            error: '[FEHLER] {0:trim}',
+            rejected: '[ABGELEHNT] {0:trim}',
+            sessionDetails: '{0:trim} / {1:trim} Datei(en); {2:trim} Bytes; {3:trim} ({4:trim})',
+            sessions: 'Sitzungen ({0:trim})',
+        },
     },
     install: 'Installieren',
     isNo: {
@@ -232,6 +388,7 @@ export const translation: Translation = {
         },
         ftp: {
             description: 'Lädt Dateien auf einen FTP-Server',
+            rawCommandNotSupported: '{0:trim,surround}-Befehl kann nicht gesendet werden!',
         },
         http: {
             description: 'Sendet Dateien an einen HTTP-Server/-Dienst',
@@ -265,6 +422,11 @@ export const translation: Translation = {
         },
         remote: {
             description: 'Überträgt Dateien über eine TCP-Verbindung',
+            failed: 'Der Host {0:trim,surround} konnte die Datei nicht schreiben: {1}',
+            noHost: 'Kein Host definiert!',
+            noHostSelected: 'Kein Host für Ziel {0:trim,surround} ausgewählt!',
+            noResult: 'Der Host hat nicht innerhalb von {0:trim} ms geantwortet!',
+            rejected: 'Der Host {0:trim,surround} hat die Datei abgelehnt: {1}',
         },
         s3bucket: {
             credentialTypeNotSupported: 'Das Anmeldeverfahren {0:trim,surround} wird nicht unterstützt!',
@@ -277,7 +439,11 @@ export const translation: Translation = {
             noDeployFileFunction: "{0:trim,surround} implementiert keine 'deployFile()' Funktion!",
         },
         sftp: {
+            commandFailed: 'Der Befehl {0:trim,surround} ist mit Exit-Code {1} fehlgeschlagen: {2}',
             description: 'Lädt Dateien auf einen SFTP-Server',
+            noPreviousRelease: 'Es gibt kein vorheriges Release für das Ziel {0:trim,surround}!',
+            releaseActivated: 'Release {0:trim,surround} ist jetzt aktiv.',
+            releasesNotEnabled: 'Releases sind für das Ziel {0:trim,surround} nicht aktiviert!',
         },
         slack: {
             description: 'Lädt Dateien in einen Slack Workspace hoch',
@@ -380,14 +546,38 @@ export const translation: Translation = {
         couldNotResolve: "Der relative Pfad für {0:trim,surround} konnte nicht ermittelt werden!",
         isEmpty: 'Der relative Pfad für {0:trim,surround} is leer!',
     },
+    remoteExplorer: {
+        errors: {
+            listFailed: 'Konnte Verzeichnis {0:trim,surround} von Ziel {1:trim,surround} nicht auflisten: {2}',
+            notSupported: 'Ziel {0:trim,surround} unterstützt das Auflisten und Herunterladen von Dateien nicht!',
+        },
+        fileDetails: '{0:trim} Bytes; {1:trim}',
+        localFileNotFound: 'Lokale Datei {0:trim,surround} existiert nicht!',
+        noFiles: 'Es gibt keine Dateien zum Herunterladen!',
+    },
     selected: 'ausgewählt',
     sync: {
         file: {
             doesNotExistOnRemote: '[entfernte Datei existiert nicht]',
             localChangedWithinSession: '[lokale Datei während Sitzung geändert]',
             localIsNewer: '[lokale Datei ist neuer]',
+            sameContent: '[gleicher Inhalt]',
             synchronize: 'Synchronisiere Datei {0:trim,surround}{1:trim,leading_space}... ',
-        }
+        },
+        workspace: {
+            conflict: 'Datei {0:trim,surround} wurde lokal und auf Ziel {1:trim,surround} geändert. Führen Sie die Änderungen in der lokalen Datei (rechte Seite) zusammen und wählen Sie die Version, die behalten werden soll.',
+            finished: 'Synchronisation beendet: {0:trim} bereitgestellt, {1:trim} heruntergeladen, {2:trim} Konflikt(e), {3:trim} übersprungen',
+            noTargets: 'Kein Ziel gefunden, mit dem synchronisiert werden kann!',
+            notSupported: 'Ziel {0:trim,surround} unterstützt keine beidseitige Synchronisation!',
+            running: 'Synchronisiere Arbeitsbereich...',
+            selectPackage: 'Wählen Sie das Paket, das synchronisiert werden soll...',
+            selectTarget: 'Wählen Sie das Ziel, mit dem synchronisiert werden soll...',
+            skipped: '[ÜBERSPRUNGEN] {0:trim,surround} wurde auf einer Seite gelöscht',
+            synchronizing: 'Synchronisiere Paket {0:trim,surround} mit Ziel {1:trim,surround}...',
+            unresolved: '[KONFLIKT] {0:trim,surround} wurde nicht aufgelöst',
+            useLocal: 'Lokal verwenden',
+            useRemote: 'Entfernt verwenden',
+        },
     },
     targets: {
         cannotUseRecurrence: 'Kann das Ziel {0:trim,surround} nicht verwenden (Rekursion)!',
@@ -37,6 +37,24 @@ export const translation: Translation = {
             }
         }
     },
+    api: {
+        errors: {
+            bodyTooBig: 'Request body is bigger than {0} bytes!',
+            cannotStart: 'Could not start local API: {0}',
+            deploymentNotFound: "Deployment '{0}' not found!",
+            fileOutsideWorkspace: "File '{0}' is outside of the workspace!",
+            invalidBody: 'Invalid JSON body: {0}',
+            noFiles: 'No files defined!',
+            noTargets: 'No targets defined!',
+            notFound: "'{0} {1}' not found!",
+            noToken: 'No token defined for the local API!',
+            packageNotFound: "Package '{0}' not found!",
+            targetNotFound: "Target '{0}' not found!",
+            unauthorized: 'Unauthorized!',
+            unknownFormat: "Unknown format '{0}'!",
+        },
+        started: "Local API started on '{0}:{1}'.",
+    },
     canceled: '[Canceled]',
     commands: {
         executionFailed: "Execution of command {0:trim,surround} failed: {1}",
@@ -46,6 +64,23 @@ export const translation: Translation = {
         noPlugins: 'No plugin(s) found!',
         noPluginsForType: 'No matching plugin(s) found for {0:trim,surround}!',
         selectSource: 'Select the source from where to pull from...',
+        workspace: {
+            details: 'local: {0}; remote: {1}',
+            fileDetails: '{0:trim} bytes, {1:trim}',
+            groups: {
+                newerLocal: 'Newer local ({0:trim})',
+                newerRemote: 'Newer remote ({0:trim})',
+                onlyLocal: 'Only local ({0:trim})',
+                onlyRemote: 'Only remote ({0:trim})',
+                sameSizeDifferentContent: 'Same size, different content ({0:trim})',
+            },
+            noDifferences: 'No differences found!',
+            noTargets: 'No target found, which can be compared with!',
+            notSupported: 'Target {0:trim,surround} does not support comparing files!',
+            running: 'Comparing workspace...',
+            selectPackage: 'Select the package to compare...',
+            selectTarget: 'Select the target to compare with...',
+        },
     },
     deploy: {
         after: {
@@ -55,6 +90,10 @@ export const translation: Translation = {
             },
             failed: "Could not invoke 'after deployed' operations: {0}",
         },
+        backup: {
+            creating: 'Creating backup of {0} file(s) from {1:trim,surround}...',
+            fileFailed: 'Could not backup {0:trim,surround}: {1}',
+        },
         before: {
             failed: "Could not invoke 'before deploy' operations: {0}",
         },
@@ -67,6 +106,18 @@ export const translation: Translation = {
         canceled: 'Canceled.',
         canceledWithErrors: 'Canceled with errors!',
         cancelling: 'Cancelling deployment...',
+        dryRun: {
+            failed: 'Dry run failed: {0}',
+            failedFiles: 'Errors',
+            filesToRemove: 'Files to remove (mirror)',
+            plannedOperations: 'Planned operations',
+            running: 'Simulating deployment of {0:trim} file(s) to {1:trim,surround} (dry run)... ',
+            skippedFiles: 'Skipped files',
+            summary: '{0:trim} file(s) would be deployed, {1:trim} file(s) would be skipped.',
+            title: 'Dry run for {0:trim,surround}',
+            titleNoTarget: 'Dry run',
+            unknownDestination: 'Unknown destination',
+        },
         file: {
             deploying: 'Deploying file {0:trim,surround}{1:trim,leading_space}... ',
             deployingWithDestination: 'Deploying file {0:trim,surround} to {1:trim,surround}{2:trim,leading_space}... ',
@@ -85,6 +136,12 @@ export const translation: Translation = {
             failed: 'Could not deploy folder {0:trim,surround}: {1}',
             selectTarget: 'Select the target to deploy the folder to...',
         },
+        mirror: {
+            failedTarget: 'Could not remove {0:trim,surround} from {1:trim}: {2}',
+            noPlugins: 'No plugin(s) found, which can remove files!',
+            noPluginsForType: 'No matching plugin(s) found for {0:trim,surround}, which can remove files!',
+            removingFile: 'Removing file {0:trim,surround}{1:trim,leading_space}... ',
+        },
         newerFiles: {
             deploy: 'Deploy',
             localFile: 'Local file',
@@ -116,6 +173,32 @@ export const translation: Translation = {
             unknownSqlEngine: 'Unknown SQL engine {0:trim,surround}!',
             unknownType: 'UNKNOWN TYPE: {0:trim,surround}',
         },
+        releases: {
+            failed: 'Could not switch back to previous release: {0}',
+            noTargets: 'There are no targets, which support releases!',
+            rolledBack: 'Target {1:trim,surround} has been switched back to release {0:trim,surround}.',
+            selectTarget: 'Select the target to roll back...',
+        },
+        resume: {
+            noSession: 'There is no deployment to resume.',
+            nothingLeft: 'All files of the last deployment to {0:trim,surround} have already been deployed.',
+            resuming: 'Resuming last deployment: {0} of {1} file(s) left for {2:trim,surround}...',
+            targetNotFound: 'The target {0:trim,surround} of the last deployment was not found!',
+        },
+        retry: {
+            retrying: '[RETRY {1} of {2} for {0:trim,surround} in {3} ms: {4}]',
+        },
+        rollback: {
+            failed: 'Rollback failed: {0}',
+            fileFailed: 'Could not restore {0:trim,surround}: {1}',
+            finished: 'Rollback finished.',
+            noBackup: 'There is no backup of a previous deployment.',
+            question: 'Do you really want to restore {0} file(s) on {1:trim,surround}, as they were before the deployment at {2}?',
+            running: 'Restoring {0} file(s) on {1:trim,surround}...',
+            someFailed: '{0} of {1} file(s) could not be restored!',
+            succeeded: '{0} file(s) have been restored on {1:trim,surround}.',
+            targetNotFound: 'The target {0:trim,surround} of the last deployment was not found!',
+        },
         startQuestion: 'Start deploy?',
         workspace: {
             allFailed: 'No file could be deployed: {0}',
@@ -137,10 +220,19 @@ export const translation: Translation = {
             someFailedWithTarget: '{0:trim} of the {1:trim} file(s) could not be deployed to {2:trim,surround}!',
             status: 'Deploying {0:trim,surround}... ',
             statusWithDestination: 'Deploying {0:trim,surround} to {1:trim,surround}... ',
+            unchangedFilesSkipped: '{0:trim} unchanged file(s) skipped.',
             virtualTargetName: 'Virtual batch target for current package',
             virtualTargetNameWithPackage: 'Virtual batch target for package {0:trim,surround}',
         }
     },
+    discovery: {
+        noHosts: 'No deploy host found!',
+        noTargets: "There are no 'remote' targets defined!",
+        searching: 'Searching for deploy hosts...',
+        selected: 'Host {0:trim,surround} has been selected for target {1:trim,surround}.',
+        selectHost: 'Select the host for {0:trim,surround}...',
+        selectTarget: 'Select the target...',
+    },
     errors: {
         countable: 'ERROR #{0:trim}: {1}',
         withCategory: '[ERROR] {0:trim}: {1}',
@@ -156,6 +248,42 @@ export const translation: Translation = {
     format: {
         dateTime: 'YYYY-MM-DD HH:mm:ss',
     },
+    git: {
+        changedFiles: '{0} file(s) have been changed in git.',
+        failed: '{0:trim,surround} failed: {1}',
+        inputSince: 'Commit, tag or branch to compare with (empty = uncommitted changes only)',
+    },
+    history: {
+        columns: {
+            direction: 'Direction',
+            duration: 'Duration',
+            files: 'Files',
+            package: 'Package',
+            result: 'Result',
+            target: 'Target',
+            time: 'Time',
+            user: 'User',
+        },
+        details: 'Details',
+        error: 'Error',
+        filters: {
+            all: '(all)',
+            package: 'Package',
+            target: 'Target',
+        },
+        noEntries: 'The history is empty.',
+        results: {
+            canceled: 'Canceled',
+            canceledWithErrors: 'Canceled with errors',
+            failed: 'Failed ({0} file(s))',
+            succeeded: 'Succeeded',
+        },
+        selectFilter: 'Select a filter for the history...',
+        summary: 'Showing the last {0} of {1} entries.',
+        title: 'Deployment history',
+        titleWithPackage: 'Deployment history of package {0:trim,surround}',
+        titleWithTarget: 'Deployment history of target {0:trim,surround}',
+    },
     host: {
         button: {
             text: 'Waiting for files...',
@@ -163,18 +291,46 @@ export const translation: Translation = {
         },
         errors: {
             cannotListen: 'Could not start listening for files: {0}',
+            clientBlocked: "Blocked connection from '{0}:{1}'!",
+            clientRejected: "Rejected file {3:trim,surround} from '{0:trim}:{1:trim}'{2:trim,leading_space}: {4}",
             couldNotStop: 'Could not stop deploy host: {0}',
+            dirNotAllowed: 'The client has no access to the directory of {0:trim,surround}!',
+            discoveryFailed: 'Could not answer discovery requests on UDP port {0:trim}: {1}',
+            fileNotAllowed: 'The client is not allowed to send {0:trim,surround}!',
             fileRejected: 'The file has been rejected!',
+            fileTooBig: '{0:trim,surround} is too big ({1:trim} bytes; maximum: {2:trim})!',
+            invalidChunk: 'Chunk #{0:trim} is corrupted!',
+            invalidChunkedFile: 'The reassembled file {0:trim,surround} is corrupted!',
             noData: 'No data!',
             noFilename: 'No filename {0:trim}!',
+            tlsCertOrKeyMissing: 'TLS certificate and key of the host must be defined!',
+            tlsClientRejected: "TLS connection from '{0:trim}' rejected: {1}",
+            unexpectedChunk: 'Unexpected chunk #{0:trim}!',
+            unknownClient: 'Unknown client!',
+            unknownRequest: 'Unknown request {0:trim,surround}!',
         },
         receiveFile: {
+            chunk: 'chunk {0:trim} / {1:trim}',
             failed: '[FAILED:{0:trim,leading_space}]',
             ok: '[OK{0:trim}]',
             receiving: "Receiving file{2:trim,leading_space} from '{0:trim}:{1:trim}'... ",
         },
+        request: {
+            receiving: "Request {2:trim,surround} for {3:trim,surround} from '{0:trim}:{1:trim}'... ",
+        },
         started: 'Started deploy host on port {0:trim} in directory {1:trim,surround}.',
         stopped: 'Deploy host has been stopped.',
+        view: {
+            active: 'active',
+            blocked: 'Blocked addresses ({0:trim})',
+            clientDetails: '{0:trim} session(s); {1:trim} file(s); {2:trim} bytes; {3:trim} rejected; {4:trim} error(s)',
+            clients: 'Clients ({0:trim})',
+            completed: 'completed',
+            error: '[ERROR] {0:trim}',
+            rejected: '[REJECTED] {0:trim}',
+            sessionDetails: '{0:trim} / {1:trim} file(s); {2:trim} bytes; {3:trim} ({4:trim})',
+            sessions: 'Sessions ({0:trim})',
+        },
     },
     install: 'Install',
     isNo: {
@@ -234,6 +390,7 @@ export const translation: Translation = {
         },
         ftp: {
             description: 'Deploys to a FTP server',
+            rawCommandNotSupported: 'Cannot send {0:trim,surround} command!',
         },
         http: {
             description: 'Deploys to a HTTP server/service',
@@ -267,6 +424,11 @@ export const translation: Translation = {
         },
         remote: {
             description: 'Deploys to a remote machine over a TCP connection',
+            failed: 'The host {0:trim,surround} could not write the file: {1}',
+            noHost: 'No host defined!',
+            noHostSelected: 'No host selected for target {0:trim,surround}!',
+            noResult: 'The host did not answer within {0:trim} ms!',
+            rejected: 'The host {0:trim,surround} rejected the file: {1}',
         },
         s3bucket: {
             credentialTypeNotSupported: 'Credental type {0:trim,surround} is not supported!',
@@ -279,7 +441,11 @@ export const translation: Translation = {
             noDeployFileFunction: "{0:trim,surround} implements no 'deployFile()' function!",
         },
         sftp: {
+            commandFailed: 'The command {0:trim,surround} failed with exit code {1}: {2}',
             description: 'Deploys to a SFTP server',
+            noPreviousRelease: 'There is no previous release for target {0:trim,surround}!',
+            releaseActivated: 'Release {0:trim,surround} is active now.',
+            releasesNotEnabled: 'Releases are not enabled for target {0:trim,surround}!',
         },
         slack: {
             description: 'Deploys to one or more Slack channels',
@@ -382,14 +548,38 @@ export const translation: Translation = {
         couldNotResolve: "Could not get relative path for {0:trim,surround}!",
         isEmpty: 'Relative path for {0:trim,surround} file is empty!',
     },
+    remoteExplorer: {
+        errors: {
+            listFailed: 'Could not list directory {0:trim,surround} of target {1:trim,surround}: {2}',
+            notSupported: 'Target {0:trim,surround} does not support listing and pulling files!',
+        },
+        fileDetails: '{0:trim} bytes; {1:trim}',
+        localFileNotFound: 'Local file {0:trim,surround} does not exist!',
+        noFiles: 'There are no files to pull!',
+    },
     selected: 'selected',
     sync: {
         file: {
             doesNotExistOnRemote: '[remote does not exist]',
             localChangedWithinSession: '[local changed within session]',
             localIsNewer: '[local is newer]',
+            sameContent: '[same content]',
             synchronize: 'Synchronize file {0:trim,surround}{1:trim,leading_space}... ',
-        }
+        },
+        workspace: {
+            conflict: 'File {0:trim,surround} has been changed locally and on target {1:trim,surround}. Merge the changes into the local file (right side) and select the version to keep.',
+            finished: 'Synchronization finished: {0:trim} deployed, {1:trim} pulled, {2:trim} conflict(s), {3:trim} skipped',
+            noTargets: 'No target found, which can be synchronized with!',
+            notSupported: 'Target {0:trim,surround} does not support two-way synchronization!',
+            running: 'Synchronizing workspace...',
+            selectPackage: 'Select the package to synchronize...',
+            selectTarget: 'Select the target to synchronize with...',
+            skipped: '[SKIPPED] {0:trim,surround} has been deleted on one side',
+            synchronizing: 'Synchronizing package {0:trim,surround} with target {1:trim,surround}...',
+            unresolved: '[CONFLICT] {0:trim,surround} has not been resolved',
+            useLocal: 'Use local',
+            useRemote: 'Use remote',
+        },
     },
     targets: {
         cannotUseRecurrence: 'Cannot use target {0:trim,surround} (recurrence)!',
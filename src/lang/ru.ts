@@ -37,6 +37,24 @@ export const translation: Translation = {
             }
         }
     },
+    api: {
+        errors: {
+            bodyTooBig: 'Тело запроса больше {0} байт!',
+            cannotStart: 'Не удалось запустить локальный API: {0}',
+            deploymentNotFound: "Развертывание '{0}' не найдено!",
+            fileOutsideWorkspace: "Файл '{0}' находится вне рабочей области!",
+            invalidBody: 'Недопустимое тело JSON: {0}',
+            noFiles: 'Файлы не определены!',
+            noTargets: 'Цели не определены!',
+            notFound: "'{0} {1}' не найдено!",
+            noToken: 'Для локального API не определен токен!',
+            packageNotFound: "Пакет '{0}' не найден!",
+            targetNotFound: "Цель '{0}' не найдена!",
+            unauthorized: 'Не авторизован!',
+            unknownFormat: "Неизвестный формат '{0}'!",
+        },
+        started: "Локальный API запущен на '{0}:{1}'.",
+    },
     canceled: '[Отменено]',
     commands: {
         executionFailed: "Выполнение команды {0:trim,surround} не удалось: {1}",
@@ -46,6 +64,23 @@ export const translation: Translation = {
         noPlugins: 'Модули не найдены!',
         noPluginsForType: 'Не найдено модулей соответствующих {0:trim,surround}!',
         selectSource: 'Укажите источник откуда следует выполнить стягивание(pull)...',
+        workspace: {
+            details: 'локально: {0}; удалённо: {1}',
+            fileDetails: '{0:trim} байт, {1:trim}',
+            groups: {
+                newerLocal: 'Новее локально ({0:trim})',
+                newerRemote: 'Новее удалённо ({0:trim})',
+                onlyLocal: 'Только локально ({0:trim})',
+                onlyRemote: 'Только удалённо ({0:trim})',
+                sameSizeDifferentContent: 'Тот же размер, другое содержимое ({0:trim})',
+            },
+            noDifferences: 'Различий не найдено!',
+            noTargets: 'Не найдено целей, с которыми можно сравнить!',
+            notSupported: 'Цель {0:trim,surround} не поддерживает сравнение файлов!',
+            running: 'Сравнение рабочей области...',
+            selectPackage: 'Выберите пакет для сравнения...',
+            selectTarget: 'Выберите цель для сравнения...',
+        },
     },
     deploy: {
         after: {
@@ -55,6 +90,10 @@ export const translation: Translation = {
             },
             failed: "Не могу вызвать 'after deployed' операции: {0}",
         },
+        backup: {
+            creating: 'Создание резервной копии {0} файл(ов) из {1:trim,surround}...',
+            fileFailed: 'Не удалось создать резервную копию {0:trim,surround}: {1}',
+        },
         before: {
             failed: "Не могу вызвать 'before deploy' операции: {0}",
         },
@@ -67,6 +106,18 @@ export const translation: Translation = {
         canceled: 'Отменено.',
         canceledWithErrors: 'Отменено с ошибками!',
         cancelling: 'Отмена развёртывания...',
+        dryRun: {
+            failed: 'Пробный запуск не удался: {0}',
+            failedFiles: 'Ошибки',
+            filesToRemove: 'Удаляемые файлы (зеркало)',
+            plannedOperations: 'Запланированные операции',
+            running: 'Имитация развёртывания {0:trim} файла(ов) в {1:trim,surround} (пробный запуск)... ',
+            skippedFiles: 'Пропущенные файлы',
+            summary: '{0:trim} файл(ов) будет развёрнуто, {1:trim} файл(ов) будет пропущено.',
+            title: 'Пробный запуск для {0:trim,surround}',
+            titleNoTarget: 'Пробный запуск',
+            unknownDestination: 'Неизвестное назначение',
+        },
         file: {
             deploying: 'Развёртывание файла {0:trim,surround}{1:trim,leading_space}... ',
             deployingWithDestination: 'Развёртывание файла {0:trim,surround} в {1:trim,surround}{2:trim,leading_space}... ',
@@ -85,6 +136,12 @@ export const translation: Translation = {
             failed: 'Не могу развернуть каталог {0:trim,surround}: {1}',
             selectTarget: 'Выберите назначение, в которое следует развернуть каталог...',
         },
+        mirror: {
+            failedTarget: 'Не могу удалить {0:trim,surround} из {1:trim}: {2}',
+            noPlugins: 'Не найдено плагинов, которые могут удалять файлы!',
+            noPluginsForType: 'Не найдено подходящих плагинов для {0:trim,surround}, которые могут удалять файлы!',
+            removingFile: 'Удаление файла {0:trim,surround}{1:trim,leading_space}... ',
+        },
         newerFiles: {
             deploy: 'Разворачивание',
             localFile: 'Локальные файлы',
@@ -116,6 +173,32 @@ export const translation: Translation = {
             unknownSqlEngine: 'Неизвестный SQL engine {0:trim,surround}!',
             unknownType: 'НЕИЗВЕСТНЫЙ ТИП: {0:trim,surround}',
         },
+        releases: {
+            failed: 'Не удалось вернуться к предыдущему релизу: {0}',
+            noTargets: 'Нет целей, поддерживающих релизы!',
+            rolledBack: 'Цель {1:trim,surround} возвращена к релизу {0:trim,surround}.',
+            selectTarget: 'Выберите цель для отката...',
+        },
+        resume: {
+            noSession: 'Нет развертывания для продолжения.',
+            nothingLeft: 'Все файлы последнего развертывания в {0:trim,surround} уже развернуты.',
+            resuming: 'Продолжение последнего развертывания: осталось {0} из {1} файл(ов) для {2:trim,surround}...',
+            targetNotFound: 'Цель {0:trim,surround} последнего развертывания не найдена!',
+        },
+        retry: {
+            retrying: '[ПОВТОР {1} из {2} для {0:trim,surround} через {3} мс: {4}]',
+        },
+        rollback: {
+            failed: 'Откат не удался: {0}',
+            fileFailed: 'Не удалось восстановить {0:trim,surround}: {1}',
+            finished: 'Откат завершен.',
+            noBackup: 'Нет резервной копии предыдущего развертывания.',
+            question: 'Вы действительно хотите восстановить {0} файл(ов) в {1:trim,surround} в состояние до развертывания {2}?',
+            running: 'Восстановление {0} файл(ов) в {1:trim,surround}...',
+            someFailed: '{0} из {1} файл(ов) не удалось восстановить!',
+            succeeded: '{0} файл(ов) восстановлено в {1:trim,surround}.',
+            targetNotFound: 'Цель {0:trim,surround} последнего развертывания не найдена!',
+        },
         startQuestion: 'Начать разворачивание?',
         workspace: {
             allFailed: 'Файлы не могут быть развёрнуты: {0}',
@@ -137,10 +220,19 @@ export const translation: Translation = {
             someFailedWithTarget: '{0:trim} из {1:trim} файлов не могут быть развернуты в {2:trim,surround}!',
             status: 'Развёртывание {0:trim,surround}... ',
             statusWithDestination: 'Развёртывание {0:trim,surround} в {1:trim,surround}... ',
+            unchangedFilesSkipped: '{0:trim} неизменённый(х) файл(ов) пропущено.',
             virtualTargetName: 'Виртуальное пакетное назначение для текущего пакета',
             virtualTargetNameWithPackage: 'Виртуальное пакетное назначение для пакета {0:trim,surround}',
         }
     },
+    discovery: {
+        noHosts: 'Хост развертывания не найден!',
+        noTargets: "Цели 'remote' не определены!",
+        searching: 'Поиск хостов развертывания...',
+        selected: 'Хост {0:trim,surround} выбран для цели {1:trim,surround}.',
+        selectHost: 'Выберите хост для {0:trim,surround}...',
+        selectTarget: 'Выберите цель...',
+    },
     errors: {
         countable: 'ОШИБКА #{0:trim}: {1}',
         withCategory: '[ОШИБКА] {0:trim}: {1}',
@@ -156,6 +248,42 @@ export const translation: Translation = {
     format: {
         dateTime: 'YYYY.MM.DD HH:mm:ss',
     },
+    git: {
+        changedFiles: '{0} файл(ов) изменено в git.',
+        failed: '{0:trim,surround} не удалось: {1}',
+        inputSince: 'Коммит, тег или ветка для сравнения (пусто = только незакоммиченные изменения)',
+    },
+    history: {
+        columns: {
+            direction: 'Направление',
+            duration: 'Длительность',
+            files: 'Файлы',
+            package: 'Пакет',
+            result: 'Результат',
+            target: 'Цель',
+            time: 'Время',
+            user: 'Пользователь',
+        },
+        details: 'Подробности',
+        error: 'Ошибка',
+        filters: {
+            all: '(все)',
+            package: 'Пакет',
+            target: 'Цель',
+        },
+        noEntries: 'История пуста.',
+        results: {
+            canceled: 'Отменено',
+            canceledWithErrors: 'Отменено с ошибками',
+            failed: 'Ошибка ({0} файл(ов))',
+            succeeded: 'Успешно',
+        },
+        selectFilter: 'Выберите фильтр для истории...',
+        summary: 'Показаны последние {0} из {1} записей.',
+        title: 'История развертываний',
+        titleWithPackage: 'История развертываний пакета {0:trim,surround}',
+        titleWithTarget: 'История развертываний цели {0:trim,surround}',
+    },
     host: {
         button: {
             text: 'Ожидание файлов ...',
@@ -163,18 +291,46 @@ export const translation: Translation = {
         },
         errors: {
             cannotListen: 'Не могу перейти в режим ожидания получения файлов: {0}',
+            clientBlocked: "Соединение с '{0}:{1}' заблокировано!",
+            clientRejected: "Файл {3:trim,surround} от '{0:trim}:{1:trim}'{2:trim,leading_space} отклонен: {4}",
             couldNotStop: 'Не могу остановить deploy host: {0}',
+            dirNotAllowed: 'У клиента нет доступа к каталогу {0:trim,surround}!',
+            discoveryFailed: 'Не удалось отвечать на запросы поиска на UDP-порту {0:trim}: {1}',
+            fileNotAllowed: 'Клиенту не разрешено отправлять {0:trim,surround}!',
             fileRejected: 'Файл был отклонён!',
+            fileTooBig: '{0:trim,surround} слишком большой ({1:trim} байт; максимум: {2:trim})!',
+            invalidChunk: 'Часть #{0:trim} повреждена!',
+            invalidChunkedFile: 'Собранный файл {0:trim,surround} поврежден!',
             noData: 'Нет данных!',
             noFilename: 'Нет имени файла {0:trim}!',
+            tlsCertOrKeyMissing: 'Необходимо указать TLS-сертификат и ключ хоста!',
+            tlsClientRejected: "TLS-соединение с '{0:trim}' отклонено: {1}",
+            unexpectedChunk: 'Неожиданная часть #{0:trim}!',
+            unknownClient: 'Неизвестный клиент!',
+            unknownRequest: 'Неизвестный запрос {0:trim,surround}!',
         },
         receiveFile: {
+            chunk: 'часть {0:trim} / {1:trim}',
             failed: '[НЕУДАЧНО:{0:trim,leading_space}]',
             ok: '[УСПЕШНО{0:trim}]',
             receiving: "Получение файла {2:trim,leading_space} от '{0:trim}:{1:trim}'... ",
         },
+        request: {
+            receiving: "Запрос {2:trim,surround} для {3:trim,surround} от '{0:trim}:{1:trim}'... ",
+        },
         started: 'Запущено deploy host на порту {0:trim} в каталоге {1:trim,surround}.',
         stopped: 'Deploy host был остановлен.',
+        view: {
+            active: 'активна',
+            blocked: 'Заблокированные адреса ({0:trim})',
+            clientDetails: '{0:trim} сеанс(ов); {1:trim} файл(ов); {2:trim} байт; {3:trim} отклонено; {4:trim} ошибк(и)',
+            clients: 'Клиенты ({0:trim})',
+            completed: 'завершена',
+            error: '[ОШИБКА] {0:trim}',
+            rejected: '[ОТКЛОНЕН] {0:trim}',
+            sessionDetails: '{0:trim} / {1:trim} файл(ов); {2:trim} байт; {3:trim} ({4:trim})',
+            sessions: 'Сеансы ({0:trim})',
+        },
     },
     install: 'Установить',
     isNo: {
@@ -234,6 +390,7 @@ export const translation: Translation = {
         },
         ftp: {
             description: 'Разворачивает на FTP сервер',
+            rawCommandNotSupported: 'Невозможно отправить команду {0:trim,surround}!',
         },
         http: {
             description: 'Разворачивает на HTTP сервер/сервис',
@@ -267,6 +424,11 @@ export const translation: Translation = {
         },
         remote: {
             description: 'Разворачивает на удаленный компьютер через TCP соединение',
+            failed: 'Хост {0:trim,surround} не смог записать файл: {1}',
+            noHost: 'Хост не определен!',
+            noHostSelected: 'Не выбран хост для цели {0:trim,surround}!',
+            noResult: 'Хост не ответил в течение {0:trim} мс!',
+            rejected: 'Хост {0:trim,surround} отклонил файл: {1}',
         },
         s3bucket: {
             credentialTypeNotSupported: 'Credental тип {0:trim,surround} не поддерживается!',
@@ -279,7 +441,11 @@ export const translation: Translation = {
             noDeployFileFunction: "{0:trim,surround} не реализует 'deployFile()' функцию!",
         },
         sftp: {
+            commandFailed: 'Команда {0:trim,surround} завершилась с кодом {1}: {2}',
             description: 'Разворачивает на SFTP сервер',
+            noPreviousRelease: 'Для цели {0:trim,surround} нет предыдущего релиза!',
+            releaseActivated: 'Релиз {0:trim,surround} теперь активен.',
+            releasesNotEnabled: 'Релизы не включены для цели {0:trim,surround}!',
         },
         slack: {
             description: 'Развертывание на одном или нескольких каналах Slack',
@@ -382,14 +548,38 @@ export const translation: Translation = {
         couldNotResolve: "Не могу получить относительный путь к {0:trim,surround}!",
         isEmpty: 'Относительный путь к файлу {0:trim,surround} пуст!',
     },
+    remoteExplorer: {
+        errors: {
+            listFailed: 'Не удалось получить список каталога {0:trim,surround} цели {1:trim,surround}: {2}',
+            notSupported: 'Цель {0:trim,surround} не поддерживает просмотр и загрузку файлов!',
+        },
+        fileDetails: '{0:trim} байт; {1:trim}',
+        localFileNotFound: 'Локальный файл {0:trim,surround} не существует!',
+        noFiles: 'Нет файлов для загрузки!',
+    },
     selected: 'выбрано',
     sync: {
         file: {
             doesNotExistOnRemote: '[источник не существует]',
             localChangedWithinSession: '[локальные изменения вне сессии]',
             localIsNewer: '[локальные данные новее]',
+            sameContent: '[одинаковое содержимое]',
             synchronize: 'Сихнронизация файла {0:trim,surround}{1:trim,leading_space}... ',
-        }
+        },
+        workspace: {
+            conflict: 'Файл {0:trim,surround} был изменён локально и на цели {1:trim,surround}. Объедините изменения в локальном файле (справа) и выберите версию, которую нужно сохранить.',
+            finished: 'Синхронизация завершена: {0:trim} развёрнуто, {1:trim} загружено, {2:trim} конфликт(ов), {3:trim} пропущено',
+            noTargets: 'Не найдено целей, с которыми можно синхронизировать!',
+            notSupported: 'Цель {0:trim,surround} не поддерживает двустороннюю синхронизацию!',
+            running: 'Синхронизация рабочей области...',
+            selectPackage: 'Выберите пакет для синхронизации...',
+            selectTarget: 'Выберите цель для синхронизации...',
+            skipped: '[ПРОПУЩЕНО] {0:trim,surround} был удалён на одной из сторон',
+            synchronizing: 'Синхронизация пакета {0:trim,surround} с целью {1:trim,surround}...',
+            unresolved: '[КОНФЛИКТ] {0:trim,surround} не разрешён',
+            useLocal: 'Локальная версия',
+            useRemote: 'Удалённая версия',
+        },
     },
     targets: {
         cannotUseRecurrence: 'Не могу использовать назначение {0:trim,surround} (повторение)!',
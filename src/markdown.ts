@@ -0,0 +1,128 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import * as deploy_helpers from './helpers';
+import * as deploy_res_css from './resources/css';
+import * as deploy_res_html from './resources/html';
+import * as deploy_res_javascript from './resources/javascript';
+import * as deploy_urls from './urls';
+import * as deploy_values from './values';
+import * as Marked from 'marked';
+import * as vs_deploy from './deploy';
+
+
+/**
+ * Converts Markdown to a HTML document, based on the markdown templates
+ * of that extension.
+ * 
+ * @param {string} markdown The Markdown content.
+ * 
+ * @return {string} The HTML document.
+ */
+export function toHtmlDocument(markdown: string): string {
+    markdown = deploy_helpers.toStringSafe(markdown);
+
+    let header = deploy_res_html.getContentSync('header_markdown_template.html').toString('utf8');
+    let footer = deploy_res_html.getContentSync('footer_markdown_template.html').toString('utf8');
+    let jquery = deploy_res_javascript.getContentSync('jquery.min.js').toString('utf8');
+    let script = deploy_res_javascript.getContentSync('script.js').toString('utf8');
+
+    let highlightJS = deploy_res_javascript.getContentSync('highlight.pack.js').toString('utf8');
+
+    let css_highlightJS_css = deploy_res_css.getContentSync('highlight.darkula.css').toString('utf8');
+    let css_highlightJS_css_default = deploy_res_css.getContentSync('highlight.default.css').toString('utf8');
+    let css = deploy_res_css.getContentSync('styles.css').toString('utf8');
+
+    let html = header + footer;
+
+    let values: deploy_values.ValueBase[] = [];
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-jQuery',
+        value: JSON.stringify(stringToBase64(jquery)),
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-CSS',
+        value: css,
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-highlightjs-CSS',
+        value: css_highlightJS_css,
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-highlightjs-CSS-default',
+        value: css_highlightJS_css_default,
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-highlightjs',
+        value: JSON.stringify(stringToBase64(highlightJS)),
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-content',
+        value: JSON.stringify(stringToBase64(Marked(markdown, {
+            breaks: true,
+            gfm: true,
+            tables: true,
+        }))),
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-header',
+        value: '',
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-footer',
+        value: '',
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-project-page',
+        value: deploy_urls.PROJECT_PAGE,
+    }));
+    values.push(new deploy_values.StaticValue({
+        name: 'vsDeploy-script',
+        value: JSON.stringify(stringToBase64(script)),
+    }));
+
+    return deploy_values.replaceWithValues(values, html);
+}
+
+/**
+ * Opens Markdown content as HTML document.
+ * 
+ * @param {vs_deploy.Deployer} deployer The deployer.
+ * @param {string} markdown The Markdown content.
+ * @param {string} title The title of the document.
+ * 
+ * @return {Promise<any>} The promise.
+ */
+export async function openMarkdown(deployer: vs_deploy.Deployer,
+                                   markdown: string, title: string): Promise<any> {
+    return await deployer.openHtml(toHtmlDocument(markdown),
+                                   '[vs-deploy] ' + title);
+}
+
+function stringToBase64(str: any): string {
+    str = deploy_helpers.toStringSafe(str);
+
+    return (new Buffer(str, 'utf8')).toString('base64');
+}
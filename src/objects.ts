@@ -26,7 +26,10 @@
 import * as deploy_contracts from './contracts';
 import * as deploy_globals from './globals';
 import * as deploy_helpers from './helpers';
+import * as deploy_workspace from './workspace';
+import * as Crypto from 'crypto';
 import * as FS from 'fs';
+import * as FSExtra from 'fs-extra';
 import * as i18 from './i18';
 import * as Moment from 'moment';
 import * as Path from 'path';
@@ -64,6 +67,37 @@ export interface MultiTargetContext {
     targets: deploy_contracts.DeployTargetWithPlugins[];
 }
 
+/**
+ * Error codes, which indicate that a connection has been lost.
+ */
+const CONNECTION_LOST_ERROR_CODES = [
+    '421',  // FTP: service not available
+    'ECONNABORTED',
+    'ECONNRESET',
+    'EPIPE',
+    'ETIMEDOUT',
+];
+
+/**
+ * The default list of error codes, which are handled as transient errors.
+ */
+const DEFAULT_TRANSIENT_ERROR_CODES = CONNECTION_LOST_ERROR_CODES.concat([
+    '408', '425', '426', '429', '450', '451', '502', '503', '504',
+    'EAI_AGAIN',
+    'ECONNREFUSED',
+    'EHOSTUNREACH',
+    'ENETUNREACH',
+    'ENOTFOUND',
+]);
+
+function getErrorCode(err: any): string {
+    if (err) {
+        return deploy_helpers.toStringSafe(err.code).toUpperCase().trim();
+    }
+
+    return '';
+}
+
 /**
  * A basic deploy plugin that is specially based on single
  * file operations (s. deployFile() method).
@@ -91,11 +125,26 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
         return false;
     }
 
+    /** @inheritdoc */
+    public get canList(): boolean {
+        return false;
+    }
+
     /** @inheritdoc */
     public get canPull(): boolean {
         return false;
     }
 
+    /** @inheritdoc */
+    public get canRemove(): boolean {
+        return false;
+    }
+
+    /** @inheritdoc */
+    public get canRollbackRelease(): boolean {
+        return false;
+    }
+
     /** @inheritdoc */
     public async compareFiles(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.FileCompareResult> {
         let me = this;
@@ -236,6 +285,81 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
 
     /** @inheritdoc */
     public abstract deployFile(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions);
+
+    /** @inheritdoc */
+    public deployFileWithRetry(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let retries = 0;
+        let deployCurrentFile: () => void;
+
+        let completedInvoked = false;
+        let completed = (sender: any, e: deploy_contracts.FileDeployCompletedEventArguments) => {
+            if (completedInvoked) {
+                return;
+            }
+
+            completedInvoked = true;
+            e.retries = retries;
+
+            if (opts.onCompleted) {
+                opts.onCompleted(sender, e);
+            }
+        };
+
+        let currentFileCompleted = (sender: any, e: deploy_contracts.FileDeployCompletedEventArguments) => {
+            me.prepareRetry(file, target, e.error, e.canceled, retries).then((retry) => {
+                if (retry) {
+                    ++retries;
+                    deployCurrentFile();
+                }
+                else {
+                    completed(sender, e);
+                }
+            }).catch((err) => {
+                me.context.log(i18.t('errors.withCategory',
+                                     'DeployPluginBase.deployFileWithRetry(1)', err));
+
+                completed(me, {
+                    canceled: e.canceled,
+                    error: err,
+                    file: file,
+                    target: target,
+                });
+            });
+        };
+
+        deployCurrentFile = () => {
+            try {
+                me.deployFile(file, target, {
+                    baseDirectory: opts.baseDirectory,
+                    context: opts.context,
+                    dryRun: opts.dryRun,
+                    onBeforeDeploy: (sender, e) => {
+                        if (opts.onBeforeDeploy) {
+                            opts.onBeforeDeploy(sender, e);
+                        }
+                    },
+                    onCompleted: (sender, e) => {
+                        currentFileCompleted(sender, e);
+                    }
+                });
+            }
+            catch (e) {
+                currentFileCompleted(me, {
+                    error: e,
+                    file: file,
+                    target: target,
+                });
+            }
+        };
+
+        deployCurrentFile();
+    }
     
     /** @inheritdoc */
     public deployWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployWorkspaceOptions) {
@@ -263,6 +387,9 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
         if (hasCancelled) {
             completed();  // cancellation requested
         }
+        else if (deploy_helpers.toBooleanSafe(opts.dryRun)) {
+            me.dryRunWorkspace(files, target, opts);
+        }
         else {
             try {
                 let deployNextFile: () => void;
@@ -298,27 +425,19 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
                         completed();
                         return;
                     }
-                    
-                    try {
-                        me.deployFile(f, target, {
-                            context: opts.context,
-                            onBeforeDeploy: (sender, e) => {
-                                if (opts.onBeforeDeployFile) {
-                                    opts.onBeforeDeployFile(sender, e);
-                                }
-                            },
-                            onCompleted: (sender, e) => {
-                                fileCompleted(sender, e);
+
+                    me.deployFileWithRetry(f, target, {
+                        baseDirectory: opts.baseDirectory,
+                        context: opts.context,
+                        onBeforeDeploy: (sender, e) => {
+                            if (opts.onBeforeDeployFile) {
+                                opts.onBeforeDeployFile(sender, e);
                             }
-                        });
-                    }
-                    catch (e) {
-                        fileCompleted(me, {
-                            error: e,
-                            file: f,
-                            target: target,
-                        });
-                    }
+                        },
+                        onCompleted: (sender, e) => {
+                            fileCompleted(sender, e);
+                        }
+                    });
                 };
 
                 deployNextFile();
@@ -340,11 +459,114 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
         throw new Error("Not implemented!");
     }
 
+    /**
+     * Simulates the deployment of files (dry run) by reporting
+     * the resolved target paths only.
+     * 
+     * @param {string[]} files The files to "deploy".
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {deploy_contracts.DeployWorkspaceOptions} [opts] Additional options.
+     */
+    protected dryRunWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployWorkspaceOptions) {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let hasCancelled = false;
+        let completed = (err?: any) => {
+            if (opts.onCompleted) {
+                opts.onCompleted(me, {
+                    canceled: hasCancelled,
+                    error: err,
+                    target: target,
+                });
+            }
+        };
+
+        me.onCancelling(() => hasCancelled = true, opts);
+
+        try {
+            for (let i = 0; i < files.length; i++) {
+                if (hasCancelled) {
+                    break;
+                }
+
+                let f = files[i];
+
+                let err: any;
+                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(f, target, me.context.values(), opts.baseDirectory);
+                if (false === relativePath) {
+                    err = new Error(i18.t('relativePaths.couldNotResolve', f));
+                }
+                else {
+                    if (opts.onBeforeDeployFile) {
+                        opts.onBeforeDeployFile(me, {
+                            destination: relativePath,
+                            file: f,
+                            target: target,
+                        });
+                    }
+                }
+
+                if (opts.onFileCompleted) {
+                    opts.onFileCompleted(me, {
+                        error: err,
+                        file: f,
+                        target: target,
+                    });
+                }
+            }
+
+            completed();
+        }
+        catch (e) {
+            completed(e);
+        }
+    }
+
     /** @inheritdoc */
     public getFileInfo(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): PromiseLike<deploy_contracts.FileInfo> | deploy_contracts.FileInfo {
         throw new Error("Not implemented!");
     }
 
+    /**
+     * Returns the (normalized) retry policy of a target.
+     * 
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * 
+     * @return {deploy_contracts.DeployRetryPolicy} The policy or (false) if disabled.
+     */
+    protected getRetryPolicy(target: deploy_contracts.DeployTarget): deploy_contracts.DeployRetryPolicy | false {
+        let retry = target ? target.retry : null;
+        if (!retry) {
+            return false;
+        }
+
+        let policy: deploy_contracts.DeployRetryPolicy = true === retry ? {} : retry;
+
+        let toNumber = (val: any, defaultValue: number) => {
+            let n = parseFloat(deploy_helpers.toStringSafe(val).trim());
+            return isNaN(n) ? defaultValue : n;
+        };
+
+        let errors = deploy_helpers.asArray(policy.errors)
+                                   .map(x => deploy_helpers.toStringSafe(x).toUpperCase().trim())
+                                   .filter(x => '' !== x);
+        if (errors.length < 1) {
+            errors = DEFAULT_TRANSIENT_ERROR_CODES;
+        }
+
+        return {
+            attempts: Math.max(1, Math.floor(toNumber(policy.attempts, 3))),
+            delay: Math.max(0, toNumber(policy.delay, 1000)),
+            errors: errors,
+            factor: Math.max(1, toNumber(policy.factor, 2)),
+            maxDelay: Math.max(0, toNumber(policy.maxDelay, 30000)),
+        };
+    }
+
     /**
      * Returns the others targets and their plugins.
      * 
@@ -417,6 +639,22 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
         return batchTargets;
     }
 
+    /**
+     * Checks if an error indicates that a connection has been lost.
+     * 
+     * @param {any} err The error.
+     * 
+     * @return {boolean} Connection has been lost or not.
+     */
+    protected isConnectionLost(err: any): boolean {
+        return CONNECTION_LOST_ERROR_CODES.indexOf(getErrorCode(err)) > -1;
+    }
+
+    /** @inheritdoc */
+    public listDirectory(dir: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): PromiseLike<deploy_contracts.DirectoryEntry[]> | deploy_contracts.DirectoryEntry[] {
+        throw new Error("Not implemented!");
+    }
+
     /**
      * Loads a data transformer by target.
 
@@ -489,6 +727,56 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
     protected onConfigReloaded(cfg: deploy_contracts.DeployConfiguration) {
     }
 
+    /**
+     * Checks if a failed file operation should be retried (s. 'retry' of target)
+     * and waits before the retry.
+     * 
+     * @param {string} file The file.
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {any} err The error of the last attempt.
+     * @param {boolean} canceled Operation has been canceled or not.
+     * @param {number} retries The number of retries, which have been made.
+     * 
+     * @return {Promise<boolean>} The promise that indicates if the operation should be retried or not.
+     */
+    protected async prepareRetry(file: string, target: deploy_contracts.DeployTarget,
+                                 err: any, canceled: boolean, retries: number): Promise<boolean> {
+        let me = this;
+
+        if (!err || canceled || me.context.isCancelling()) {
+            return false;
+        }
+
+        let policy = me.getRetryPolicy(target);
+        if (!policy || (retries + 1) >= policy.attempts) {
+            return false;
+        }
+
+        let errors = <string[]>policy.errors;
+        if (errors.indexOf('*') < 0 && errors.indexOf(getErrorCode(err)) < 0) {
+            return false;  // no transient error
+        }
+
+        let delay = Math.min(policy.maxDelay,
+                             policy.delay * Math.pow(policy.factor, retries));
+
+        let relativePath = deploy_helpers.toRelativePath(file);
+        if (false === relativePath) {
+            relativePath = file;
+        }
+
+        me.context.outputChannel().appendLine(i18.t('deploy.retry.retrying',
+                                                    relativePath, retries + 1, policy.attempts - 1, delay, err));
+
+        await new Promise<any>((resolve) => {
+            setTimeout(() => {
+                resolve();
+            }, delay);
+        });
+
+        return !me.context.isCancelling();
+    }
+
     /** @inheritdoc */
     public pullFile(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
         let me = this;
@@ -519,7 +807,8 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
                     completed(null);
                 }
                 else {
-                    FS.writeFile(file, downloadedData, (err) => {
+                    // create parent directories, if needed
+                    FSExtra.outputFile(file, downloadedData, (err) => {
                         completed(err);
                     });
                 }
@@ -660,6 +949,16 @@ export abstract class DeployPluginBase implements deploy_contracts.DeployPlugin,
             }
         }
     }
+
+    /** @inheritdoc */
+    public removeFile(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
+        throw new Error("Not implemented!");
+    }
+
+    /** @inheritdoc */
+    public rollbackRelease(target: deploy_contracts.DeployTarget): Promise<string> | string {
+        throw new Error("Not implemented!");
+    }
 }
 
 
@@ -686,6 +985,7 @@ export abstract class MultiFileDeployPluginBase extends DeployPluginBase {
                     canceled: e.canceled,
                     error: e.error,
                     file: e.file,
+                    results: e.results,
                     target: e.target,
                 });
             }
@@ -693,6 +993,10 @@ export abstract class MultiFileDeployPluginBase extends DeployPluginBase {
 
         this.deployWorkspace([ file ], target, {
             context: opts.context,
+            dryRun: opts.dryRun,
+            // the file has been selected explicitly,
+            // so deploy it, even if it has not been changed
+            incremental: false,
 
             onBeforeDeployFile: (sender, e) => {
                 if (opts.onBeforeDeploy) {
@@ -719,6 +1023,12 @@ export abstract class MultiFileDeployPluginBase extends DeployPluginBase {
         });
     }
 
+    /** @inheritdoc */
+    public deployFileWithRetry(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
+        // deployWorkspace() handles the retries
+        this.deployFile(file, target, opts);
+    }
+
     /** @inheritdoc */
     public abstract deployWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployWorkspaceOptions);
 
@@ -1028,135 +1338,426 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
                                      direction: deploy_contracts.DeployDirection): Promise<DeployPluginContextWrapper<TContext>>;
 
     /**
-     * Deploys a file by using a context.
+     * Creates the contexts for a number of parallel operations.
      * 
-     * @param {TContext} ctx The context to use.
-     * @param {string} file The path of the local file.
-     * @param {DeployTarget} target The target.
-     * @param {DeployFileOptions} [opts] Additional options.
+     * If contexts can be shared (s. 'isContextShareable'), only one context is created.
+     * 
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {string[]} files The files to deploy.
+     * @param {deploy_contracts.DeployFileOptions|deploy_contracts.DeployWorkspaceOptions} opts Additional options.
+     * @param {deploy_contracts.DeployDirection} direction The direction.
+     * @param {number} count The number of parallel operations.
+     * 
+     * @return {Promise<DeployPluginContextWrapper<TContext>[]>} The promise with the list of contexts.
      */
-    protected abstract deployFileWithContext(ctx: TContext,
-                                             file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): void;
+    protected async createContextPool(target: deploy_contracts.DeployTarget,
+                                      files: string[],
+                                      opts: deploy_contracts.DeployFileOptions | deploy_contracts.DeployWorkspaceOptions,
+                                      direction: deploy_contracts.DeployDirection,
+                                      count: number): Promise<DeployPluginContextWrapper<TContext>[]> {
+        let me = this;
 
-    /** @inheritdoc */
-    public deployWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployWorkspaceOptions) {
-        if (!opts) {
-            opts = {};
+        if (me.isContextShareable) {
+            count = 1;
         }
 
-        let me = this;
-        
-        // report that whole operation has been completed
-        let filesTodo = files.map(x => x);  // create "TODO"" list
-        let hasCancelled = false;
-        let completed = (err?: any) => {
-            filesTodo = [];
+        // create one after another, so things like
+        // password prompts are only shown once
+        let wrappers: DeployPluginContextWrapper<TContext>[] = [];
+        for (let i = 0; i < Math.max(1, count); i++) {
+            try {
+                wrappers.push(await me.createContext(target, files, opts, direction));
+            }
+            catch (e) {
+                if (wrappers.length < 1) {
+                    throw e;
+                }
 
-            if (opts.onCompleted) {
-                opts.onCompleted(me, {
-                    canceled: hasCancelled,
-                    error: err,
-                    target: target,
-                });
+                // continue with the contexts
+                // we already have
+                me.context.log(i18.t('errors.withCategory',
+                                     'DeployPluginWithContextBase.createContextPool(1)', e));
+                break;
             }
-        };
 
-        hasCancelled = me.context.isCancelling();
-        if (hasCancelled) {
-            completed();  // cancellation requested
+            if (me.context.isCancelling()) {
+                break;
+            }
         }
-        else {
-            // destroy context before raise
-            // "completed" event
-            let destroyContext = (wrapper: DeployPluginContextWrapper<TContext>, completedErr?: any) => {
-                try {
-                    if (wrapper.destroy) {
-                        // destroy context
 
-                        wrapper.destroy().then(() => {
-                            completed(completedErr);
-                        }).catch((e) => {
-                            me.context.log(i18.t('errors.withCategory',
-                                                 'DeployPluginWithContextBase.deployWorkspace(2)', e));
+        return wrappers;
+    }
 
-                            completed(completedErr);
-                        });
-                    }
-                    else {
-                        completed(completedErr);
-                    }
-                }
-                catch (e) {
+    /**
+     * Deploys files to a target and updates the manifest of that target.
+     * 
+     * In "incremental" mode, only files, which have been changed since their last deployment,
+     * are deployed. In "mirror" mode, files of the manifest, which are not part of the list
+     * of files anymore, are removed from the target.
+     * 
+     * @param {string[]} files The files to deploy.
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {deploy_contracts.DeployWorkspaceOptions} opts The options.
+     */
+    protected deployWithManifest(files: string[], target: deploy_contracts.DeployTarget, opts: deploy_contracts.DeployWorkspaceOptions) {
+        let me = this;
+
+        let isDryRun = deploy_helpers.toBooleanSafe(opts.dryRun);
+        let isIncremental = deploy_helpers.toBooleanSafe(opts.incremental, deploy_helpers.toBooleanSafe(target.incremental));
+        let manifest = new DeployTargetManifest(target);
+
+        let mirrorFilter: deploy_contracts.MirrorFileFilter;
+        if (opts.mirror && me.canRemove) {
+            if (true === opts.mirror) {
+                mirrorFilter = () => true;
+            }
+            else {
+                mirrorFilter = opts.mirror;
+            }
+        }
+
+        let deployedFiles: string[] = [];
+        let completed = (sender: any, e: deploy_contracts.WorkspaceDeployedEventArguments) => {
+            if (opts.onCompleted) {
+                opts.onCompleted(sender, e);
+            }
+        };
+
+        manifest.load().then(() => {
+            if (isIncremental) {
+                return manifest.filterChangedFiles(files);
+            }
+
+            return files;
+        }).then((changedFiles) => {
+            let unchangedCount = files.length - changedFiles.length;
+            if (unchangedCount > 0) {
+                me.context.outputChannel().appendLine(i18.t('deploy.workspace.unchangedFilesSkipped', unchangedCount));
+            }
+
+            let deploymentCompleted = (sender: any, e: deploy_contracts.WorkspaceDeployedEventArguments) => {
+                let getFilesToRemove = () => {
+                    let filesToRemove: string[] = [];
+                    if (mirrorFilter && !e.error && !e.canceled) {
+                        filesToRemove = manifest.getFilesToRemove(files, mirrorFilter);
+                    }
+
+                    if (opts.onBeforeRemoveFile) {
+                        filesToRemove.forEach(f => {
+                            opts.onBeforeRemoveFile(me, {
+                                file: f,
+                                target: target,
+                            });
+                        });
+                    }
+
+                    return filesToRemove;
+                };
+
+                if (isDryRun) {
+                    getFilesToRemove();
+
+                    completed(sender, e);
+                    return;
+                }
+
+                let wf = Workflows.create();
+
+                // update manifest
+                deployedFiles.forEach(f => {
+                    wf.next(async () => {
+                        await manifest.update(f);
+                    });
+                });
+
+                // remove files, which are not
+                // part of the deployment anymore
+                if (mirrorFilter && !e.error && !e.canceled) {
+                    wf.next(async () => {
+                        let filesToRemove = getFilesToRemove();
+
+                        let removedFiles = await me.removeFiles(filesToRemove, target, {
+                            baseDirectory: opts.baseDirectory,
+                            context: opts.context,
+                        });
+                        removedFiles.forEach(f => {
+                            manifest.remove(f);
+                        });
+                    });
+                }
+
+                wf.next(async () => {
+                    await manifest.save();
+                });
+
+                wf.start().then(() => {
+                    completed(sender, e);
+                }).catch((err) => {
+                    me.context.log(i18.t('errors.withCategory',
+                                         'DeployPluginWithContextBase.deployWithManifest(1)', err));
+
+                    completed(sender, e);
+                });
+            };
+
+            if (changedFiles.length < 1) {
+                // nothing to deploy, so do not connect
+                deploymentCompleted(me, {
+                    canceled: me.context.isCancelling(),
+                    target: target,
+                });
+                return;
+            }
+
+            me.deployWorkspace(changedFiles, target, {
+                baseDirectory: opts.baseDirectory,
+                context: opts.context,
+                dryRun: opts.dryRun,
+                restore: true,  // the manifest is updated here
+
+                onBeforeDeployFile: opts.onBeforeDeployFile,
+
+                onCompleted: (sender, e) => {
+                    deploymentCompleted(sender, e);
+                },
+
+                onFileCompleted: (sender, e) => {
+                    if (!e.error && !e.canceled) {
+                        deployedFiles.push(e.file);
+                    }
+
+                    if (opts.onFileCompleted) {
+                        opts.onFileCompleted(sender, e);
+                    }
+                },
+            });
+        }).catch((err) => {
+            completed(me, {
+                error: err,
+                target: target,
+            });
+        });
+    }
+
+    /**
+     * Deploys a file by using a context.
+     * 
+     * @param {TContext} ctx The context to use.
+     * @param {string} file The path of the local file.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     */
+    protected abstract deployFileWithContext(ctx: TContext,
+                                             file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): void;
+
+    /** @inheritdoc */
+    public deployWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployWorkspaceOptions) {
+        if (!opts) {
+            opts = {};
+        }
+
+        let me = this;
+
+        // keep the manifest of an "incremental" target up-to-date,
+        // even if all files should be deployed
+        let useManifest = deploy_helpers.toBooleanSafe(opts.incremental) ||
+                          deploy_helpers.toBooleanSafe(target.incremental) ||
+                          (opts.mirror && me.canRemove);
+        if (useManifest && !deploy_helpers.toBooleanSafe(opts.restore)) {
+            me.deployWithManifest(files, target, opts);
+            return;
+        }
+        
+        // report that whole operation has been completed
+        let filesTodo = files.map(x => x);  // create "TODO"" list
+        let hasCancelled = false;
+        let completed = (err?: any) => {
+            filesTodo = [];
+
+            if (opts.onCompleted) {
+                opts.onCompleted(me, {
+                    canceled: hasCancelled,
+                    error: err,
+                    target: target,
+                });
+            }
+        };
+
+        hasCancelled = me.context.isCancelling();
+        if (hasCancelled) {
+            completed();  // cancellation requested
+        }
+        else if (deploy_helpers.toBooleanSafe(opts.dryRun)) {
+            me.dryRunWorkspace(files, target, opts);  // no context required
+        }
+        else {
+            // destroy contexts before raise
+            // "completed" event
+            let destroyContexts = (wrappers: DeployPluginContextWrapper<TContext>[], completedErr?: any) => {
+                let wf = Workflows.create();
+
+                wrappers.forEach(w => {
+                    wf.next(async () => {
+                        try {
+                            await me.destroyContext(w);
+                        }
+                        catch (e) {
+                            me.context.log(i18.t('errors.withCategory',
+                                                 'DeployPluginWithContextBase.deployWorkspace(2)', e));
+                        }
+                    });
+                });
+
+                wf.start().then(() => {
+                    completed(completedErr);
+                }).catch((e) => {
                     me.context.log(i18.t('errors.withCategory',
                                          'DeployPluginWithContextBase.deployWorkspace(1)', e));
 
                     completed(completedErr);
-                }
+                });
             };
 
             try {
-                // create context...
-                this.createContext(target, files, opts, deploy_contracts.DeployDirection.Deploy).then((wrapper) => {
-                    try {
-                        let deployNext: () => void;
+                let workerCount = Math.max(1, Math.min(me.getConcurrency(target), files.length));
 
-                        // report that single file
-                        // deployment has been completed
-                        let fileCompleted = function(file: string, err?: any, canceled?: boolean) {
-                            if (opts.onFileCompleted) {
-                                opts.onFileCompleted(me, {
-                                    canceled: canceled,
-                                    error: err,
-                                    file: file,
-                                    target: target,
-                                });
-                            }
+                // create context(s)...
+                me.createContextPool(target, files, opts, deploy_contracts.DeployDirection.Deploy, workerCount).then((wrappers) => {
+                    try {
+                        if (!me.isContextShareable) {
+                            // one context per worker
+                            workerCount = Math.min(workerCount, wrappers.length);
+                        }
 
-                            hasCancelled = hasCancelled || deploy_helpers.toBooleanSafe(canceled);
-                            if (hasCancelled) {
-                                destroyContext(wrapper, null);
-                            }
-                            else {
-                                deployNext();  // deploy next
+                        let runningWorkers = workerCount;
+                        let workerFinished = () => {
+                            if (--runningWorkers < 1) {
+                                destroyContexts(wrappers);  // all workers are done
                             }
                         };
 
-                        deployNext = () => {
-                            if (filesTodo.length < 1) {
-                                destroyContext(wrapper);
-                                return;
-                            }
+                        let startWorker = (wrapper: DeployPluginContextWrapper<TContext>) => {
+                            let deployNext: () => void;
 
-                            let currentFile = filesTodo.shift();
-                            try {
-                                me.deployFileWithContext(wrapper.context,
-                                                         currentFile, target, {
-                                                             context: opts.context,
-
-                                                             onBeforeDeploy: (sender, e) => {
-                                                                 if (opts.onBeforeDeployFile) {
-                                                                     opts.onBeforeDeployFile(sender, {
-                                                                         destination: e.destination,
-                                                                         file: e.file,
-                                                                         target: e.target,
-                                                                     });
-                                                                 }
-                                                             },
-
-                                                             onCompleted: (sender, e) => {
-                                                                 fileCompleted(e.file, e.error, e.canceled);
-                                                             }
-                                                         });
-                            }
-                            catch (e) {
-                                fileCompleted(currentFile, e); // deploy error
-                            }
+                            // report that single file
+                            // deployment has been completed
+                            let fileCompleted = function(file: string, err?: any, canceled?: boolean, retries?: number,
+                                                         results?: deploy_contracts.FileDeployResult[]) {
+                                try {
+                                    if (opts.onFileCompleted) {
+                                        opts.onFileCompleted(me, {
+                                            canceled: canceled,
+                                            error: err,
+                                            file: file,
+                                            results: results,
+                                            retries: retries,
+                                            target: target,
+                                        });
+                                    }
+                                }
+                                catch (e) {
+                                    me.context.log(i18.t('errors.withCategory',
+                                                         'DeployPluginWithContextBase.deployWorkspace(3)', e));
+                                }
+
+                                hasCancelled = hasCancelled || deploy_helpers.toBooleanSafe(canceled);
+                                if (hasCancelled) {
+                                    workerFinished();
+                                }
+                                else {
+                                    deployNext();  // deploy next
+                                }
+                            };
+
+                            deployNext = () => {
+                                if (filesTodo.length < 1) {
+                                    workerFinished();
+                                    return;
+                                }
+
+                                let currentFile = filesTodo.shift();
+                                let retries = 0;
+                                let deployCurrentFile: () => void;
+
+                                let currentFileCompletedInvoked = false;
+                                let completeCurrentFile = (err?: any, canceled?: boolean, results?: deploy_contracts.FileDeployResult[]) => {
+                                    if (currentFileCompletedInvoked) {
+                                        return;
+                                    }
+
+                                    currentFileCompletedInvoked = true;
+                                    fileCompleted(currentFile, err, canceled, retries, results);
+                                };
+
+                                let currentFileCompleted = (err?: any, canceled?: boolean, results?: deploy_contracts.FileDeployResult[]) => {
+                                    me.prepareRetry(currentFile, target, err, canceled, retries).then((retry) => {
+                                        if (!retry) {
+                                            completeCurrentFile(err, canceled, results);
+                                            return;
+                                        }
+
+                                        ++retries;
+                                        if (me.isContextShareable || !me.isConnectionLost(err)) {
+                                            deployCurrentFile();
+                                            return;
+                                        }
+
+                                        // connection has been lost
+                                        // => re-create context
+                                        me.recreateContext(wrapper, target, files, opts).then((newWrapper) => {
+                                            wrappers[wrappers.indexOf(wrapper)] = newWrapper;
+                                            wrapper = newWrapper;
+
+                                            deployCurrentFile();
+                                        }).catch((e) => {
+                                            completeCurrentFile(e, false);
+                                        });
+                                    }).catch((e) => {
+                                        completeCurrentFile(e, canceled);
+                                    });
+                                };
+
+                                deployCurrentFile = () => {
+                                    try {
+                                        me.deployFileWithContext(wrapper.context,
+                                                                 currentFile, target, {
+                                                                     baseDirectory: opts.baseDirectory,
+                                                                     context: opts.context,
+
+                                                                     onBeforeDeploy: (sender, e) => {
+                                                                         if (opts.onBeforeDeployFile) {
+                                                                             opts.onBeforeDeployFile(sender, {
+                                                                                 destination: e.destination,
+                                                                                 file: e.file,
+                                                                                 target: e.target,
+                                                                             });
+                                                                         }
+                                                                     },
+
+                                                                     onCompleted: (sender, e) => {
+                                                                         currentFileCompleted(e.error, e.canceled, e.results);
+                                                                     }
+                                                                 });
+                                    }
+                                    catch (e) {
+                                        currentFileCompleted(e); // deploy error
+                                    }
+                                };
+
+                                deployCurrentFile();
+                            };
+
+                            deployNext();  // start with first file
                         };
 
-                        deployNext();  // start with first file
+                        // start workers, which share
+                        // the available contexts
+                        for (let i = 0; i < workerCount; i++) {
+                            startWorker(wrappers[i % wrappers.length]);
+                        }
                     }
                     catch (e) {
-                        destroyContext(wrapper, e);  // global deploy error
+                        destroyContexts(wrappers, e);  // global deploy error
                     }
                 }).catch((err) => {
                     completed(err);  // could not create context
@@ -1274,6 +1875,54 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
         throw new Error("Not implemented!");
     }
 
+    /** @inheritdoc */
+    public async downloadWorkspace(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DownloadWorkspaceOptions): Promise<any> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        files = deploy_helpers.asArray(files);
+
+        let fileOpts: deploy_contracts.DeployFileOptions = {
+            context: opts.context,
+        };
+
+        // one context for all files
+        let wrapper = await me.createContext(target, files, fileOpts, deploy_contracts.DeployDirection.Download);
+        try {
+            for (let i = 0; i < files.length; i++) {
+                let args: deploy_contracts.FileDownloadedEventArguments = {
+                    file: files[i],
+                    target: target,
+                };
+
+                try {
+                    if (me.canGetFileInfo) {
+                        args.info = await Promise.resolve(me.getFileInfoWithContext(wrapper.context,
+                                                                                    args.file, target, fileOpts));
+                    }
+
+                    if (!args.info || deploy_helpers.toBooleanSafe(args.info.exists)) {
+                        args.data = await Promise.resolve(me.downloadFileWithContext(wrapper.context,
+                                                                                     args.file, target, fileOpts));
+                    }
+                }
+                catch (e) {
+                    args.error = e;
+                }
+
+                if (opts.onFileDownloaded) {
+                    await Promise.resolve(opts.onFileDownloaded(me, args));
+                }
+            }
+        }
+        finally {
+            await me.destroyContext(wrapper);
+        }
+    }
+
     /** @inheritdoc */
     public getFileInfo(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.FileInfo> {
         let me = this;
@@ -1343,6 +1992,22 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
         });
     }
 
+    /**
+     * Returns the maximum number of files, which can be deployed at the same time.
+     * 
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * 
+     * @return {number} The number of files.
+     */
+    protected getConcurrency(target: deploy_contracts.DeployTarget): number {
+        let concurrency = parseInt(deploy_helpers.toStringSafe(target.concurrency).trim());
+        if (isNaN(concurrency) || concurrency < 1) {
+            concurrency = 1;
+        }
+
+        return concurrency;
+    }
+
     /**
      * Gets the info of a file by using a context.
      * 
@@ -1358,6 +2023,50 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
         throw new Error("Not implemented!");
     }
 
+    /**
+     * Gets if a context can be used for more than one file
+     * at the same time or not (s. 'concurrency' of a target).
+     * 
+     * If (false), a separate context is created for each parallel operation,
+     * like a separate connection.
+     */
+    protected get isContextShareable(): boolean {
+        return false;
+    }
+
+    /** @inheritdoc */
+    public async listDirectory(dir: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        if (!opts) {
+            opts = {};
+        }
+
+        let me = this;
+
+        let wrapper = await me.createContext(target, [], opts, deploy_contracts.DeployDirection.List);
+        try {
+            return await me.listDirectoryWithContext(wrapper.context,
+                                                     dir, target, opts);
+        }
+        finally {
+            await me.destroyContext(wrapper);
+        }
+    }
+
+    /**
+     * Lists the content of a directory by using a context.
+     * 
+     * @param {TContext} ctx The context to use.
+     * @param {string} dir The path of the local directory.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     * 
+     * @return {Promise<deploy_contracts.DirectoryEntry[]>|deploy_contracts.DirectoryEntry[]} The entries.
+     */
+    protected listDirectoryWithContext(ctx: TContext,
+                                       dir: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> | deploy_contracts.DirectoryEntry[] {
+        throw new Error("Not implemented!");
+    }
+
     /**
      * Pulls a file by using a context.
      * 
@@ -1396,7 +2105,8 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
                     completed(null);
                 }
                 else {
-                    FS.writeFile(file, downloadedData, (err) => {
+                    // create parent directories, if needed
+                    FSExtra.outputFile(file, downloadedData, (err) => {
                         completed(err);
                     });
                 }
@@ -1508,72 +2218,230 @@ export abstract class DeployPluginWithContextBase<TContext> extends MultiFileDep
                     try {
                         let pullNext: () => void;
 
-                        // report that single file
-                        // pull has been completed
-                        let fileCompleted = function(file: string, err?: any, canceled?: boolean) {
-                            if (opts.onFileCompleted) {
-                                opts.onFileCompleted(me, {
-                                    canceled: canceled,
-                                    error: err,
-                                    file: file,
-                                    target: target,
-                                });
-                            }
+                        // report that single file
+                        // pull has been completed
+                        let fileCompleted = function(file: string, err?: any, canceled?: boolean) {
+                            if (opts.onFileCompleted) {
+                                opts.onFileCompleted(me, {
+                                    canceled: canceled,
+                                    error: err,
+                                    file: file,
+                                    target: target,
+                                });
+                            }
+
+                            hasCancelled = hasCancelled || deploy_helpers.toBooleanSafe(canceled);
+                            if (hasCancelled) {
+                                destroyContext(wrapper, null);
+                            }
+                            else {
+                                pullNext();  // pull next
+                            }
+                        };
+
+                        pullNext = () => {
+                            if (filesTodo.length < 1) {
+                                destroyContext(wrapper);
+                                return;
+                            }
+
+                            let currentFile = filesTodo.shift();
+                            try {
+                                me.pullFileWithContext(wrapper.context,
+                                                       currentFile, target, {
+                                                           context: opts.context,
+
+                                                           onBeforeDeploy: (sender, e) => {
+                                                               if (opts.onBeforeDeployFile) {
+                                                                   opts.onBeforeDeployFile(sender, {
+                                                                       destination: e.destination,
+                                                                       file: e.file,
+                                                                       target: e.target,
+                                                                   });
+                                                               }
+                                                           },
+
+                                                           onCompleted: (sender, e) => {
+                                                               fileCompleted(e.file, e.error, e.canceled);
+                                                           }
+                                                       });
+                            }
+                            catch (e) {
+                                fileCompleted(currentFile, e);  // pull error
+                            }
+                        };
+
+                        pullNext();  // start with first file
+                    }
+                    catch (e) {
+                        destroyContext(wrapper, e);  // global deploy error
+                    }
+                }).catch((err) => {
+                    completed(err);  // could not create context
+                });
+            }
+            catch (e) {
+                completed(e);  // global error
+            }
+        }
+    }
+
+    /**
+     * Re-creates a context for deploying files, e.g. after its connection has been lost.
+     * 
+     * @param {DeployPluginContextWrapper<TContext>} wrapper The wrapper of the old context.
+     * @param {deploy_contracts.DeployTarget} target The target.
+     * @param {string[]} files The files to deploy.
+     * @param {deploy_contracts.DeployWorkspaceOptions} opts Additional options.
+     * 
+     * @return {Promise<DeployPluginContextWrapper<TContext>>} The promise with the wrapper of the new context.
+     */
+    protected async recreateContext(wrapper: DeployPluginContextWrapper<TContext>,
+                                    target: deploy_contracts.DeployTarget, files: string[],
+                                    opts: deploy_contracts.DeployWorkspaceOptions): Promise<DeployPluginContextWrapper<TContext>> {
+        let me = this;
+
+        try {
+            await me.destroyContext(wrapper);
+        }
+        catch (e) {
+            // connection is broken, so this can fail
+            me.context.log(i18.t('errors.withCategory',
+                                 'DeployPluginWithContextBase.recreateContext(1)', e));
+        }
+
+        return await me.createContext(target, files, opts, deploy_contracts.DeployDirection.Deploy);
+    }
+
+    /** @inheritdoc */
+    public removeFile(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
+        if (!opts) {
+            opts = {};
+        }
+
+        let me = this;
+
+        let completed = (err?: any) => {
+            if (opts.onCompleted) {
+                opts.onCompleted(me, {
+                    error: err,
+                    file: file,
+                    target: target,
+                });
+            }
+        };
+
+        let removeFile = async () => {
+            let wrapper = await me.createContext(target, [ file ], opts, deploy_contracts.DeployDirection.Remove);
+            try {
+                await me.removeFileWithContext(wrapper.context, file, target, {
+                    baseDirectory: opts.baseDirectory,
+                    context: opts.context,
+                    onBeforeDeploy: opts.onBeforeDeploy,
+                });
+            }
+            finally {
+                await me.destroyContext(wrapper);
+            }
+
+            // remove from manifest
+            let manifest = await (new DeployTargetManifest(target)).load();
+            if (manifest.getEntry(file)) {
+                await manifest.remove(file)
+                              .save();
+            }
+        };
+
+        removeFile().then(() => {
+            completed();
+        }).catch((err) => {
+            completed(err);
+        });
+    }
+
+    /**
+     * Removes a file from a target by using a context.
+     * 
+     * @param {TContext} ctx The context to use.
+     * @param {string} file The path of the local file.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     * 
+     * @return {Promise<any>|void} The result.
+     */
+    protected removeFileWithContext(ctx: TContext,
+                                    file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<any> | void {
+        throw new Error("Not implemented!");
+    }
+
+    /**
+     * Removes files from a target by using one context
+     * and writes the results to the output channel.
+     * 
+     * @param {string[]} files The paths of the local files.
+     * @param {DeployTarget} target The target.
+     * @param {DeployFileOptions} [opts] Additional options.
+     * 
+     * @return {Promise<string[]>} The promise with the files, which have been removed.
+     */
+    protected async removeFiles(files: string[], target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions): Promise<string[]> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let removedFiles: string[] = [];
+        if (files.length < 1) {
+            return removedFiles;
+        }
 
-                            hasCancelled = hasCancelled || deploy_helpers.toBooleanSafe(canceled);
-                            if (hasCancelled) {
-                                destroyContext(wrapper, null);
-                            }
-                            else {
-                                pullNext();  // pull next
-                            }
-                        };
+        let targetName = deploy_helpers.toStringSafe(target.name).trim();
+        if (targetName) {
+            targetName = ` ('${targetName}')`;
+        }
 
-                        pullNext = () => {
-                            if (filesTodo.length < 1) {
-                                destroyContext(wrapper);
-                                return;
-                            }
+        let wrapper = await me.createContext(target, files, opts, deploy_contracts.DeployDirection.Remove);
+        try {
+            for (let i = 0; i < files.length; i++) {
+                if (me.context.isCancelling()) {
+                    break;
+                }
 
-                            let currentFile = filesTodo.shift();
-                            try {
-                                me.pullFileWithContext(wrapper.context,
-                                                       currentFile, target, {
-                                                           context: opts.context,
+                let f = files[i];
 
-                                                           onBeforeDeploy: (sender, e) => {
-                                                               if (opts.onBeforeDeployFile) {
-                                                                   opts.onBeforeDeployFile(sender, {
-                                                                       destination: e.destination,
-                                                                       file: e.file,
-                                                                       target: e.target,
-                                                                   });
-                                                               }
-                                                           },
+                let relativePath = deploy_helpers.toRelativePath(f);
+                if (false === relativePath) {
+                    relativePath = f;
+                }
 
-                                                           onCompleted: (sender, e) => {
-                                                               fileCompleted(e.file, e.error, e.canceled);
-                                                           }
-                                                       });
-                            }
-                            catch (e) {
-                                fileCompleted(currentFile, e);  // pull error
-                            }
-                        };
+                me.context.outputChannel().append(i18.t('deploy.mirror.removingFile',
+                                                        relativePath, targetName));
+                try {
+                    await me.removeFileWithContext(wrapper.context, f, target, {
+                        baseDirectory: opts.baseDirectory,
+                        context: opts.context,
+                    });
 
-                        pullNext();  // start with first file
-                    }
-                    catch (e) {
-                        destroyContext(wrapper, e);  // global deploy error
-                    }
-                }).catch((err) => {
-                    completed(err);  // could not create context
-                });
+                    removedFiles.push(f);
+                    me.context.outputChannel().appendLine(i18.t('ok'));
+                }
+                catch (e) {
+                    me.context.outputChannel().appendLine(i18.t('failed', e));
+                }
+            }
+        }
+        finally {
+            try {
+                await me.destroyContext(wrapper);
             }
             catch (e) {
-                completed(e);  // global error
+                me.context.log(i18.t('errors.withCategory',
+                                     'DeployPluginWithContextBase.removeFiles(1)', e));
             }
         }
+
+        return removedFiles;
     }
 }
 
@@ -1960,6 +2828,11 @@ export abstract class ZipFileDeployPluginBase extends DeployPluginWithContextBas
 
         return result;
     }
+
+    /** @inheritdoc */
+    protected get isContextShareable(): boolean {
+        return true;  // all files are written to the same ZIP file
+    }
 }
 
 /**
@@ -2045,6 +2918,10 @@ export abstract class MultiTargetDeployPluginBase extends MultiFileDeployPluginB
                         try {
                             currentPlugin.deployWorkspace(files, currentTarget.target, {
                                 context: opts.context,
+                                dryRun: opts.dryRun,
+                                incremental: opts.incremental,
+                                mirror: opts.mirror,
+                                restore: opts.restore,
 
                                 onBeforeDeployFile: (sender, e) => {
                                     if (opts.onBeforeDeployFile) {
@@ -2071,6 +2948,7 @@ export abstract class MultiTargetDeployPluginBase extends MultiFileDeployPluginB
                                         });
                                     }
                                 },
+                                onBeforeRemoveFile: opts.onBeforeRemoveFile,
                                 onCompleted: (sender, e) => {
                                     ctx.hasCancelled = ctx.hasCancelled || e.canceled;
 
@@ -2324,6 +3202,344 @@ export class DeployTargetCache extends ObjectCacheBase<deploy_contracts.DeployTa
     }
 }
 
+/**
+ * A manifest of the files, which have been deployed to a target.
+ */
+export class DeployTargetManifest {
+    /**
+     * Stores the entries by their (normalized) path.
+     */
+    protected _entries: { [path: string]: deploy_contracts.DeployManifestEntry } = {};
+    /**
+     * Stores the underlying target.
+     */
+    protected readonly _TARGET: deploy_contracts.DeployTarget;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {deploy_contracts.DeployTarget} target The underlying target.
+     */
+    constructor(target: deploy_contracts.DeployTarget) {
+        this._TARGET = target;
+    }
+
+    /**
+     * Gets the path of the file, where the manifest is stored.
+     */
+    public get file(): string {
+        let key = deploy_helpers.normalizeString(this.target.type) + '::' + deploy_helpers.normalizeString(this.target.name);
+
+        let id = Crypto.createHash('sha1')
+                       .update(new Buffer(key, 'utf8'))
+                       .digest('hex');
+
+        return deploy_workspace.getDataPath('manifests', id + '.json');
+    }
+
+    /**
+     * Gets the full paths of all files of the manifest.
+     */
+    public get files(): string[] {
+        let rootPath = deploy_workspace.getRootPath();
+
+        return Object.keys(this._entries).sort().map(k => {
+            return Path.resolve(Path.join(rootPath, k));
+        });
+    }
+
+    /**
+     * Filters a list of files for the ones, which have been changed
+     * since their last deployment.
+     * 
+     * @param {string[]} files The files to filter.
+     * 
+     * @return {Promise<string[]>} The promise with the changed files.
+     */
+    public async filterChangedFiles(files: string[]): Promise<string[]> {
+        let changedFiles: string[] = [];
+
+        for (let i = 0; i < files.length; i++) {
+            let f = files[i];
+
+            if (await this.isChanged(f)) {
+                changedFiles.push(f);
+            }
+        }
+
+        return changedFiles;
+    }
+
+    /**
+     * Returns the entry of a file.
+     * 
+     * @param {string} file The local file.
+     * 
+     * @return {deploy_contracts.DeployManifestEntry} The entry (if available).
+     */
+    public getEntry(file: string): deploy_contracts.DeployManifestEntry {
+        return this._entries[DeployTargetManifest.toKey(file)];
+    }
+
+    /**
+     * Returns the files of the manifest, which are not part of a list of files
+     * anymore and should be removed from the target ("mirror" mode).
+     * 
+     * @param {string[]} files The current list of files.
+     * @param {deploy_contracts.MirrorFileFilter} [filter] The optional filter.
+     * 
+     * @return {string[]} The files to remove.
+     */
+    public getFilesToRemove(files: string[], filter?: deploy_contracts.MirrorFileFilter): string[] {
+        let normalizedFiles = deploy_helpers.asArray(files).map(f => Path.resolve(f));
+
+        return this.files.filter(f => {
+            return normalizedFiles.indexOf(f) < 0 &&
+                   (!filter || deploy_helpers.toBooleanSafe(filter(f)));
+        });
+    }
+
+    /**
+     * Checks if a file has been changed since its last deployment.
+     * 
+     * @param {string} file The local file.
+     * 
+     * @return {Promise<boolean>} The promise that indicates if file has been changed or not.
+     */
+    public async isChanged(file: string): Promise<boolean> {
+        let entry = this.getEntry(file);
+        if (!entry) {
+            return true;  // not deployed yet
+        }
+
+        let stat = await DeployTargetManifest.getStats(file);
+        if (stat.size !== entry.size) {
+            return true;
+        }
+
+        return (await deploy_helpers.hashFile(file)) !== entry.hash;
+    }
+
+    /**
+     * Loads the manifest from its file.
+     * 
+     * @return {Promise<this>} The promise with that instance.
+     */
+    public async load(): Promise<this> {
+        let entries: { [path: string]: deploy_contracts.DeployManifestEntry } = {};
+
+        let manifestFile = this.file;
+        if (manifestFile && FS.existsSync(manifestFile)) {
+            let json = JSON.parse(FS.readFileSync(manifestFile).toString('utf8'));
+            if (json) {
+                deploy_helpers.asArray<deploy_contracts.DeployManifestEntry>(json.files).filter(x => x).forEach(x => {
+                    entries[DeployTargetManifest.toKey(x.path)] = x;
+                });
+            }
+        }
+
+        this._entries = entries;
+        return this;
+    }
+
+    /**
+     * Removes the entry of a file.
+     * 
+     * @param {string} file The local file.
+     * 
+     * @return {this}
+     */
+    public remove(file: string): this {
+        delete this._entries[DeployTargetManifest.toKey(file)];
+
+        return this;
+    }
+
+    /**
+     * Saves the manifest to its file.
+     * 
+     * @return {Promise<this>} The promise with that instance.
+     */
+    public async save(): Promise<this> {
+        let manifestFile = this.file;
+        if (manifestFile) {
+            let files = Object.keys(this._entries).sort().map(k => this._entries[k]);
+
+            let data = new Buffer(JSON.stringify({
+                name: deploy_helpers.toStringSafe(this.target.name),
+                type: deploy_helpers.parseTargetType(this.target.type),
+                files: files,
+            }, null, 2), 'utf8');
+
+            await new Promise<any>((resolve, reject) => {
+                let completed = deploy_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+                FSExtra.mkdirs(Path.dirname(manifestFile), (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        FS.writeFile(manifestFile, data, (err) => {
+                            completed(err);
+                        });
+                    }
+                });
+            });
+        }
+
+        return this;
+    }
+
+    /**
+     * Gets the underlying target.
+     */
+    public get target(): deploy_contracts.DeployTarget {
+        return this._TARGET;
+    }
+
+    /**
+     * Returns the stats of a file.
+     * 
+     * @param {string} file The file.
+     * 
+     * @return {Promise<FS.Stats>} The promise with the stats.
+     */
+    protected static getStats(file: string): Promise<FS.Stats> {
+        return new Promise<FS.Stats>((resolve, reject) => {
+            FS.stat(file, (err, stats) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(stats);
+                }
+            });
+        });
+    }
+
+    /**
+     * Returns the key of a file.
+     * 
+     * @param {string} file The file.
+     * 
+     * @return {string} The key.
+     */
+    protected static toKey(file: string): string {
+        let key: string | false = false;
+        if (Path.isAbsolute(file)) {
+            key = deploy_helpers.toRelativePath(file);
+        }
+        if (false === key) {
+            key = file;
+        }
+
+        return deploy_helpers.replaceAllStrings(key, Path.sep, '/');
+    }
+
+    /**
+     * Updates the entry of a (deployed) file.
+     * 
+     * @param {string} file The local file.
+     * 
+     * @return {Promise<deploy_contracts.DeployManifestEntry>} The promise with the new entry.
+     */
+    public async update(file: string): Promise<deploy_contracts.DeployManifestEntry> {
+        let stat = await DeployTargetManifest.getStats(file);
+
+        let entry: deploy_contracts.DeployManifestEntry = {
+            deployTime: Moment.utc().toISOString(),
+            hash: await deploy_helpers.hashFile(file),
+            path: DeployTargetManifest.toKey(file),
+            size: stat.size,
+        };
+
+        this._entries[entry.path] = entry;
+        return entry;
+    }
+}
+
+/**
+ * An output channel, which raises the global 'EVENT_OUTPUT' event
+ * for all values, which are written to a base channel.
+ */
+export class EventOutputChannel implements vscode.OutputChannel {
+    /**
+     * Stores the base channel.
+     */
+    protected readonly _BASE_CHANNEL: vscode.OutputChannel;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {vscode.OutputChannel} baseChannel The base channel.
+     */
+    constructor(baseChannel: vscode.OutputChannel) {
+        this._BASE_CHANNEL = baseChannel;
+    }
+
+    /** @inheritdoc */
+    public append(value: string) {
+        this._BASE_CHANNEL.append(value);
+
+        this.raiseOutput(value);
+    }
+
+    /** @inheritdoc */
+    public appendLine(value: string) {
+        this._BASE_CHANNEL.appendLine(value);
+
+        this.raiseOutput(deploy_helpers.toStringSafe(value) + '\n');
+    }
+
+    /**
+     * Gets the base channel.
+     */
+    public get baseChannel(): vscode.OutputChannel {
+        return this._BASE_CHANNEL;
+    }
+
+    /** @inheritdoc */
+    public clear() {
+        this._BASE_CHANNEL.clear();
+    }
+
+    /** @inheritdoc */
+    public dispose() {
+        this._BASE_CHANNEL.dispose();
+    }
+
+    /** @inheritdoc */
+    public hide() {
+        this._BASE_CHANNEL.hide();
+    }
+
+    /** @inheritdoc */
+    public get name(): string {
+        return this._BASE_CHANNEL.name;
+    }
+
+    /**
+     * Raises the output event.
+     * 
+     * @param {string} value The written value.
+     */
+    protected raiseOutput(value: string) {
+        try {
+            deploy_globals.EVENTS.emit(deploy_contracts.EVENT_OUTPUT,
+                                       deploy_helpers.toStringSafe(value));
+        }
+        catch (e) {
+            deploy_helpers.log(i18.t('errors.withCategory', 'EventOutputChannel.raiseOutput()', e));
+        }
+    }
+
+    /** @inheritdoc */
+    public show() {
+        this._BASE_CHANNEL.show
+                          .apply(this._BASE_CHANNEL, arguments);
+    }
+}
+
 /**
  * A simple popup button.
  */
@@ -23,7 +23,9 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 
 import * as deploy_contracts from './contracts';
+import * as deploy_git from './git';
 import * as deploy_helpers from './helpers';
+import * as deploy_workspace from './workspace';
 import * as FS from 'fs';
 import * as i18 from './i18';
 const MergeDeep = require('merge-deep');
@@ -32,6 +34,131 @@ import * as vs_deploy from './deploy';
 import * as vscode from 'vscode';
 
 
+/**
+ * Returns the files of a package, which should be deployed.
+ * 
+ * @param {deploy_contracts.DeployPackage} pkg The package.
+ * 
+ * @returns {Promise<string[]>} The promise with the files.
+ */
+export async function getFilesToDeploy(pkg: deploy_contracts.DeployPackage): Promise<string[]> {
+    let me: vs_deploy.Deployer = this;
+
+    let filesOfPackage = deploy_helpers.getFilesOfPackage(pkg,
+                                                          me.useGitIgnoreStylePatternsInFilter(pkg));
+
+    let gitChanges = getGitChangesSetting(pkg);
+    if (!gitChanges) {
+        return filesOfPackage;
+    }
+
+    let changedFiles = await deploy_git.getChangedFiles(gitChanges,
+                                                        deploy_workspace.getRootPath());
+
+    me.outputChannel.appendLine(i18.t('git.changedFiles', changedFiles.length));
+
+    // only changed files, which
+    // also match the package filters
+    return filesOfPackage.filter(f => changedFiles.indexOf(Path.resolve(f)) > -1);
+}
+
+/**
+ * Returns the normalized git settings of a package.
+ * 
+ * @param {deploy_contracts.DeployPackage} [pkg] The package.
+ * 
+ * @return {deploy_contracts.DeployPackageGitChanges} The settings, if the package opts in.
+ */
+export function getGitChangesSetting(pkg?: deploy_contracts.DeployPackage): deploy_contracts.DeployPackageGitChanges {
+    if (!pkg || deploy_helpers.isNullOrUndefined(pkg.gitChanges)) {
+        return;
+    }
+
+    let gitChanges = pkg.gitChanges;
+    if ('object' === typeof gitChanges) {
+        return gitChanges;
+    }
+
+    if ('boolean' === typeof gitChanges) {
+        if (gitChanges) {
+            return {};  // uncommitted only
+        }
+
+        return;
+    }
+
+    return {
+        since: deploy_helpers.toStringSafe(gitChanges),
+    };
+}
+
+/**
+ * Returns the value for the 'incremental' option of a deployment
+ * for a package.
+ * 
+ * @param {deploy_contracts.DeployPackage} [pkg] The package.
+ * 
+ * @returns {boolean} (true) if the package opts in, otherwise (undefined),
+ *                    so the setting of the target is used.
+ */
+export function getIncrementalSetting(pkg?: deploy_contracts.DeployPackage): boolean {
+    if (pkg && deploy_helpers.toBooleanSafe(pkg.incremental)) {
+        return true;
+    }
+}
+
+/**
+ * Returns the value for the 'mirror' option of a deployment
+ * for a package.
+ * 
+ * @param {deploy_contracts.DeployPackage} [pkg] The package.
+ * @param {boolean} [useGitIgnoreStylePatterns] Also check directory patterns, like in .gitignore files, or not.
+ * 
+ * @returns {deploy_contracts.MirrorFileFilter} The filter, if the package opts in.
+ */
+export function getMirrorSetting(pkg?: deploy_contracts.DeployPackage,
+                                 useGitIgnoreStylePatterns?: boolean): deploy_contracts.MirrorFileFilter {
+    if (getGitChangesSetting(pkg)) {
+        // only a subset of the files of the package
+        // is deployed, so do not remove the others
+        return;
+    }
+
+    if (pkg && deploy_helpers.toBooleanSafe(pkg.mirror)) {
+        // same as getFilesOfPackage()
+        let exclude = deploy_helpers.asArray(pkg.exclude)
+                                    .map(x => deploy_helpers.toStringSafe(x))
+                                    .filter(x => '' !== x.trim());
+        if (deploy_helpers.toBooleanSafe(pkg.noNodeModules)) {
+            exclude.push('node_modules/**');
+        }
+
+        if (deploy_helpers.toBooleanSafe(useGitIgnoreStylePatterns)) {
+            // directory patterns, like 'node_modules'
+            exclude = exclude.concat(exclude.filter(x => !/(\/\*\*)$/.test(x))
+                                            .map(x => x + '/**'));
+        }
+
+        return (file) => {
+            let relativePath = deploy_helpers.toRelativePath(file);
+            if (false === relativePath) {
+                return false;  // not part of the workspace
+            }
+
+            while (0 === relativePath.indexOf('/')) {
+                relativePath = relativePath.substr(1);
+            }
+
+            // do not touch files of other packages,
+            // which have been deployed to the same target
+            return deploy_helpers.doesFileMatchByFilter(relativePath, {
+                exclude: exclude,
+                files: pkg.files,
+            });
+        };
+    }
+}
+
 /**
  * Returns the list of packages.
  * 
@@ -105,6 +105,11 @@ class AppPlugin extends deploy_objects.MultiFileDeployPluginBase {
         let app = deploy_helpers.toStringSafe(target.app);
         app = me.context.replaceWithValues(app);
 
+        if (deploy_helpers.toBooleanSafe(opts.dryRun)) {
+            completed();  // do not start app
+            return;
+        }
+
         let submitTheListOfFiles = deploy_helpers.toBooleanSafe(target.submitFileList, true);
         let waitForApp = deploy_helpers.toBooleanSafe(target.wait);
 
@@ -59,11 +59,19 @@ class AzureBlobPlugin extends deploy_objects.DeployPluginWithContextBase<AzureBl
     public get canGetFileInfo(): boolean {
         return true;
     }
+
+    public get canList(): boolean {
+        return true;
+    }
     
     public get canPull(): boolean {
         return true;
     }
 
+    public get canRemove(): boolean {
+        return true;
+    }
+
     protected createContext(target: DeployTargetAzureBlob,
                             files: string[],
                             opts: deploy_contracts.DeployFileOptions): Promise<deploy_objects.DeployPluginContextWrapper<AzureBlobContext>> {         
@@ -469,6 +477,17 @@ class AzureBlobPlugin extends deploy_objects.DeployPluginWithContextBase<AzureBl
                                 }
                             }
 
+                            if (result.contentSettings &&
+                                !deploy_helpers.isEmptyString(result.contentSettings.contentMD5)) {
+                                try {
+                                    // Base64 => hex
+                                    info.hash = new Buffer(result.contentSettings.contentMD5.trim(), 'base64').toString('hex');
+                                    info.hashAlgorithm = 'md5';
+                                }
+                                catch (e) {
+                                }
+                            }
+
                             completed(err, info);
                         }
                     });
@@ -485,6 +504,163 @@ class AzureBlobPlugin extends deploy_objects.DeployPluginWithContextBase<AzureBl
             description: i18.t('plugins.azureblob.description'),
         };
     }
+
+    protected get isContextShareable(): boolean {
+        return true;
+    }
+
+    protected listDirectoryWithContext(ctx: AzureBlobContext,
+                                       dir: string, target: DeployTargetAzureBlob, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            try {
+                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+                if (false === relativePath) {
+                    completed(new Error(i18.t('relativePaths.couldNotResolve', dir)));
+                    return;
+                }
+
+                // remove leading '/' chars
+                let prefix = relativePath;
+                while (0 === prefix.indexOf('/')) {
+                    prefix = prefix.substr(1);
+                }
+                prefix = ctx.dir + prefix;
+                while (0 === prefix.indexOf('/')) {
+                    prefix = prefix.substr(1);
+                }
+                if ('' !== prefix && (prefix.length - 1) !== prefix.lastIndexOf('/')) {
+                    prefix += '/';
+                }
+
+                let entries: deploy_contracts.DirectoryEntry[] = [];
+
+                // 'listBlobDirectoriesSegmentedWithPrefix()'
+                // is not part of the typings
+                let service: any = ctx.service;
+
+                let listNextDirectories: (token?: AzureStorage.common.ContinuationToken) => void;
+                let listNextBlobs: (token?: AzureStorage.common.ContinuationToken) => void;
+
+                listNextDirectories = (token?) => {
+                    service.listBlobDirectoriesSegmentedWithPrefix(ctx.container, prefix, token, {}, (err, result: AzureStorage.BlobService.ListBlobsResult) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        result.entries.forEach(e => {
+                            let name = e.name.substr(prefix.length);
+                            while ((name.length - 1) === name.lastIndexOf('/')) {
+                                name = name.substr(0, name.length - 1);
+                            }
+
+                            entries.push({
+                                exists: true,
+                                isDirectory: true,
+                                isRemote: true,
+                                name: name,
+                                path: prefix,
+                            });
+                        });
+
+                        if (result.continuationToken) {
+                            listNextDirectories(result.continuationToken);
+                        }
+                        else {
+                            listNextBlobs();
+                        }
+                    });
+                };
+
+                listNextBlobs = (token?) => {
+                    ctx.service.listBlobsSegmentedWithPrefix(ctx.container, prefix, token, { delimiter: '/' }, (err, result) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        result.entries.forEach(e => {
+                            let entry: deploy_contracts.DirectoryEntry = {
+                                exists: true,
+                                isDirectory: false,
+                                isRemote: true,
+                                name: e.name.substr(prefix.length),
+                                path: prefix,
+                            };
+
+                            if (!deploy_helpers.isNullUndefinedOrEmptyString(e.lastModified)) {
+                                entry.modifyTime = Moment(e.lastModified);
+                            }
+
+                            if (!deploy_helpers.isNullUndefinedOrEmptyString(e.contentLength)) {
+                                entry.size = parseInt(deploy_helpers.toStringSafe(e.contentLength).trim());
+                            }
+
+                            entries.push(entry);
+                        });
+
+                        if (result.continuationToken) {
+                            listNextBlobs(result.continuationToken);
+                        }
+                        else {
+                            completed(null, entries);
+                        }
+                    });
+                };
+
+                listNextDirectories();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    protected removeFileWithContext(ctx: AzureBlobContext,
+                                    file: string, target: DeployTargetAzureBlob, opts?: deploy_contracts.DeployFileOptions): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
+                if (false === relativePath) {
+                    completed(new Error(i18.t('relativePaths.couldNotResolve', file)));
+                    return;
+                }
+
+                // remove leading '/' chars
+                let blob = relativePath;
+                while (0 === blob.indexOf('/')) {
+                    blob = blob.substr(1);
+                }
+                blob = ctx.dir + blob;
+                while (0 === blob.indexOf('/')) {
+                    blob = blob.substr(1);
+                }
+
+                if (opts.onBeforeDeploy) {
+                    opts.onBeforeDeploy(me, {
+                        destination: blob,
+                        file: file,
+                        target: target,
+                    });
+                }
+
+                ctx.service.deleteBlobIfExists(ctx.container, blob, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
 }
 
 /**
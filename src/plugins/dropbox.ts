@@ -53,7 +53,12 @@ interface DropboxContext {
 }
 
 interface DropboxListFolderEntry {
+    '.tag'?: string;
+    content_hash?: string;
+    name?: string;
     path_display?: string;
+    server_modified?: string;
+    size?: number;
 }
 
 interface DropboxListFolderResult {
@@ -105,10 +110,18 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
         return true;
     }
 
+    public get canList(): boolean {
+        return true;
+    }
+
     public get canPull(): boolean {
         return true;
     }
 
+    public get canRemove(): boolean {
+        return true;
+    }
+
     protected createContext(target: DeployTargetDropbox,
                             files: string[],
                             opts: deploy_contracts.DeployFileOptions,
@@ -756,6 +769,7 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
                 try {
                     let headersToSubmit = {
                         'Authorization': `Bearer ${ctx.token}`,
+                        'Content-Type': 'application/json',
                     };
 
                     // start the request
@@ -763,7 +777,7 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
                         headers: headersToSubmit,
                         host: 'api.dropboxapi.com',
                         method: 'POST',
-                        path: '/1/metadata/auto' + targetFile,
+                        path: '/2/files/get_metadata',
                         port: 443,
                         protocol: 'https:',
                     }, (resp) => {
@@ -786,14 +800,19 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
 
                                 deploy_helpers.readHttpBody(resp).then((data) => {
                                     try {
-                                        let json: any = JSON.parse(data.toString('utf8'));
+                                        let json: DropboxListFolderEntry = JSON.parse(data.toString('utf8'));
                                         if (json) {
-                                            info.size = json.bytes;
-                                            info.name = Path.basename(json.path);
-                                            info.path = Path.dirname(json.path);
+                                            info.size = json.size;
+                                            info.name = Path.basename(json.path_display);
+                                            info.path = Path.dirname(json.path_display);
+
+                                            if (!deploy_helpers.isEmptyString(json.content_hash)) {
+                                                info.hash = deploy_helpers.normalizeString(json.content_hash);
+                                                info.hashAlgorithm = 'dropbox';
+                                            }
 
                                             try {
-                                                info.modifyTime = Moment(json.modified);
+                                                info.modifyTime = Moment(json.server_modified);
                                             }
                                             catch (e) {
                                             }
@@ -808,7 +827,7 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
                                 });
                                 break;
 
-                            case 404:
+                            case 409:
                                 // not found
                                 err = new Error(i18.t('plugins.dropbox.notFound'));
                                 break;
@@ -830,6 +849,10 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
                         }
                     });
 
+                    req.write(JSON.stringify({
+                        "path": targetFile,
+                    }));
+
                     req.end();
                 }
                 catch (e) {
@@ -844,6 +867,220 @@ class DropboxPlugin extends deploy_objects.DeployPluginWithContextBase<DropboxCo
             description: i18.t('plugins.dropbox.description'),
         };
     }
+
+    protected get isContextShareable(): boolean {
+        return true;
+    }
+
+    protected listDirectoryWithContext(ctx: DropboxContext,
+                                       dir: string, target: DeployTargetDropbox, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            let relativeDirPath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+            if (false === relativeDirPath) {
+                completed(new Error(i18.t('relativePaths.couldNotResolve', dir)));
+                return;
+            }
+
+            let targetDirectory = toDropboxPath(Path.join(ctx.dir, relativeDirPath));
+
+            let headersToSubmit = {
+                'Authorization': `Bearer ${ctx.token}`,
+                'Content-Type': 'application/json',
+            };
+
+            let entries: deploy_contracts.DirectoryEntry[] = [];
+
+            let listNext: (cursor?: string) => void;
+            listNext = (cursor?) => {
+                let apiPath: string;
+                let dataToSend: any;
+                if (cursor) {
+                    apiPath = '/2/files/list_folder/continue';
+
+                    dataToSend = {
+                        "cursor": cursor,
+                    };
+                }
+                else {
+                    apiPath = '/2/files/list_folder';
+
+                    dataToSend = {
+                        "path": targetDirectory,
+                        "recursive": false,
+                        "include_media_info": false,
+                        "include_deleted": false,
+                        "include_has_explicit_shared_members": false,
+                    };
+                }
+
+                try {
+                    let req = HTTPs.request({
+                        headers: headersToSubmit,
+                        host: 'api.dropboxapi.com',
+                        method: 'POST',
+                        path: apiPath,
+                        port: 443,
+                        protocol: 'https:',
+                    }, (resp) => {
+                        deploy_helpers.getHttpBody(resp).then((body) => {
+                            if (200 !== resp.statusCode) {
+                                completed(new Error(i18.t('plugins.dropbox.unknownResponse',
+                                                          resp.statusCode, 3, resp.statusMessage)));
+                                return;
+                            }
+
+                            let result: DropboxListFolderResult = JSON.parse(body.toString('utf8'));
+
+                            (result.entries || []).filter(x => x).forEach(e => {
+                                let entry: deploy_contracts.DirectoryEntry = {
+                                    exists: true,
+                                    isDirectory: 'folder' === e['.tag'],
+                                    isRemote: true,
+                                    name: e.name,
+                                    path: targetDirectory,
+                                    size: e.size,
+                                };
+
+                                if (e.server_modified) {
+                                    entry.modifyTime = Moment(e.server_modified);
+                                }
+
+                                if (!deploy_helpers.isEmptyString(e.content_hash)) {
+                                    entry.hash = deploy_helpers.normalizeString(e.content_hash);
+                                    entry.hashAlgorithm = 'dropbox';
+                                }
+
+                                entries.push(entry);
+                            });
+
+                            if (result.has_more && result.cursor) {
+                                listNext(result.cursor);
+                            }
+                            else {
+                                completed(null, entries);
+                            }
+                        }).catch((err) => {
+                            completed(err);
+                        });
+                    });
+
+                    req.once('error', (err) => {
+                        if (err) {
+                            completed(err);
+                        }
+                    });
+
+                    req.write(JSON.stringify(dataToSend));
+
+                    req.end();
+                }
+                catch (e) {
+                    completed(e);
+                }
+            };
+
+            listNext();
+        });
+    }
+
+    protected removeFileWithContext(ctx: DropboxContext,
+                                    file: string, target: DeployTargetDropbox, opts?: deploy_contracts.DeployFileOptions): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let relativeFilePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
+            if (false === relativeFilePath) {
+                completed(new Error(i18.t('relativePaths.couldNotResolve', file)));
+                return;
+            }
+
+            let targetFile = toDropboxPath(Path.join(ctx.dir, relativeFilePath));
+            let targetDirectory = toDropboxPath(Path.dirname(targetFile));
+
+            if (opts.onBeforeDeploy) {
+                opts.onBeforeDeploy(me, {
+                    destination: targetDirectory,
+                    file: file,
+                    target: target,
+                });
+            }
+
+            try {
+                let headersToSubmit = {
+                    'Authorization': `Bearer ${ctx.token}`,
+                    'Content-Type': 'application/json',
+                };
+
+                let req = HTTPs.request({
+                    headers: headersToSubmit,
+                    host: 'api.dropboxapi.com',
+                    method: 'POST',
+                    path: '/2/files/delete',
+                    port: 443,
+                    protocol: 'https:',
+                }, (resp) => {
+                    let err: Error;
+
+                    switch (resp.statusCode) {
+                        case 200:
+                            // OK
+                            break;
+
+                        case 409:
+                            // only OK, if not found
+                            deploy_helpers.readHttpBody(resp).then((body) => {
+                                let errorSummary: string;
+                                try {
+                                    errorSummary = deploy_helpers.toStringSafe(JSON.parse(body.toString('utf8')).error_summary);
+                                }
+                                catch (e) {
+                                    errorSummary = body.toString('utf8');
+                                }
+
+                                if (0 === errorSummary.indexOf('path_lookup/not_found')) {
+                                    completed(null);  // already deleted
+                                }
+                                else {
+                                    completed(new Error(i18.t('plugins.dropbox.unknownResponse',
+                                                              resp.statusCode, 2, errorSummary)));
+                                }
+                            }).catch((e) => {
+                                completed(e);
+                            });
+                            return;
+
+                        default:
+                            err = new Error(i18.t('plugins.dropbox.unknownResponse',
+                                                  resp.statusCode, 2, resp.statusMessage));
+                            break;
+                    }
+
+                    completed(err);
+                });
+
+                req.once('error', (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                });
+
+                req.write(JSON.stringify({
+                    path: targetFile,
+                }));
+
+                req.end();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
 }
 
 /**
@@ -55,6 +55,8 @@ interface DeployTargetFTP extends deploy_contracts.TransformableDeployTarget, de
     closing?: FTPCommands;
     connected?: FTPCommands;
     uploaded?: FTPCommands;
+    timeZoneOffset?: number | string;
+    useMLSD?: boolean;
 }
 
 type FTPCommands = string | string[];
@@ -66,6 +68,11 @@ interface FTPContext {
     user: string;
 }
 
+interface MLSxEntry {
+    facts: { [name: string]: string };
+    name: string;
+}
+
 const FTP_TIME_FORMAT = 'YYYYMMDDHHmmss';
 const FTP_FULL_TIME_FORMAT = 'YYYYMMDDHHmmss.SSS';
 const MODE_PAD = '000';
@@ -104,15 +111,113 @@ function getDirFromTarget(target: DeployTargetFTP): string {
     return dir;
 }
 
+/**
+ * Returns the time zone offset of the server for an UTC offset of Moment.
+ * 
+ * @param {DeployTargetFTP} target The target.
+ * 
+ * @return {string|false} The offset (e.g. '+02:00') or (false) if not defined.
+ */
+export function getTimeZoneOffset(target: DeployTargetFTP): string | false {
+    let offset = deploy_helpers.toStringSafe(target.timeZoneOffset).trim();
+    if ('' === offset) {
+        return false;
+    }
+
+    if (/^([+-]?)([0-9]+)(\.[0-9]+)?$/.test(offset)) {
+        // hours => '+HH:mm'
+        // 
+        // Moment handles numbers between -16 and 16 as hours
+        // and not as minutes, s. utcOffset()
+        let minutes = Math.round(parseFloat(offset) * 60);
+        let toTwoDigits = (n: number) => ('0' + n).substr(-2);
+
+        return (minutes < 0 ? '-' : '+') +
+               toTwoDigits(Math.floor(Math.abs(minutes) / 60)) + ':' +
+               toTwoDigits(Math.abs(minutes) % 60);
+    }
+
+    return offset;  // e.g. '+02:00'
+}
+
+function parseMLSxEntries(text: string, isMLST = false): MLSxEntry[] {
+    return deploy_helpers.toStringSafe(text)
+                         .split(/\r?\n/)
+                         .filter(l => '' !== l.trim())
+                         .filter(l => !isMLST || 0 === l.indexOf(' '))  // other MLST lines are status lines
+                         .map(l => parseMLSxEntry(isMLST ? l.substr(1) : l))
+                         .filter(e => e);
+}
+
+/**
+ * Parses a line of a MLSD or MLST response.
+ * 
+ * @param {string} line The line.
+ * 
+ * @return {MLSxEntry} The entry or (null) if the line is invalid.
+ */
+export function parseMLSxEntry(line: string): MLSxEntry {
+    // <fact>=<value>;<fact>=<value>; <name>
+    let sep = line.indexOf(' ');
+    if (sep < 0) {
+        return null;
+    }
+
+    let entry: MLSxEntry = {
+        facts: {},
+        name: line.substr(sep + 1),
+    };
+
+    line.substr(0, sep).split(';').forEach(f => {
+        let eq = f.indexOf('=');
+        if (eq > 0) {
+            entry.facts[ deploy_helpers.normalizeString(f.substr(0, eq)) ] = f.substr(eq + 1);
+        }
+    });
+
+    return entry;
+}
+
+function toDirectoryEntryFromMLSx(entry: MLSxEntry, dir: string): deploy_contracts.DirectoryEntry {
+    let type = deploy_helpers.normalizeString(entry.facts['type']);
+
+    let result: deploy_contracts.DirectoryEntry = {
+        exists: true,
+        isDirectory: ['cdir', 'dir', 'pdir'].indexOf(type) > -1,
+        isRemote: true,
+        name: Path.basename(entry.name),
+        path: dir,
+    };
+
+    let size = parseInt(deploy_helpers.toStringSafe(entry.facts['size']).trim());
+    if (!isNaN(size)) {
+        result.size = size;
+    }
+
+    let modify = deploy_helpers.toStringSafe(entry.facts['modify']).trim();
+    if ('' !== modify) {
+        // always UTC
+        let modifyTime = Moment.utc(modify, [ FTP_FULL_TIME_FORMAT, FTP_TIME_FORMAT ]);
+        if (modifyTime.isValid()) {
+            result.modifyTime = modifyTime;
+        }
+    }
+
+    return result;
+}
+
 function toFTPPath(path: string): string {
     return deploy_helpers.replaceAllStrings(path, Path.sep, '/');
 }
 
 abstract class FtpClientBase {
     protected _context: deploy_contracts.DeployContext;
+    protected _supportsMLSx: boolean;
+    protected _target: DeployTargetFTP;
     
-    constructor(context: deploy_contracts.DeployContext) {
+    constructor(context: deploy_contracts.DeployContext, target: DeployTargetFTP) {
         this._context = context;
+        this._target = target;
     }
 
     public abstract connect(target: DeployTargetFTP): Promise<boolean>;
@@ -123,10 +228,16 @@ abstract class FtpClientBase {
 
     public abstract cwd(dir: string): Promise<string>;
 
+    public abstract delete(file: string): Promise<string>;
+
     public abstract end(): Promise<boolean>;
 
     public abstract execute(cmd: string): Promise<any>;
 
+    protected abstract executeMLSD(dir: string): Promise<string>;
+
+    protected abstract executeMLST(file: string): Promise<string>;
+
     public executeCommands(commands: FTPCommands,
                            values?: deploy_values.ValueBase | deploy_values.ValueBase[]): Promise<any> {
         let me = this;
@@ -166,11 +277,102 @@ abstract class FtpClientBase {
 
     public abstract get(file: string): Promise<Buffer>;
 
-    public abstract getFileInfo(file: string): Promise<deploy_contracts.FileInfo>;
+    protected abstract getFeatures(): Promise<string[]>;
+
+    public async getFileInfo(file: string): Promise<deploy_contracts.FileInfo> {
+        let me = this;
+
+        if (await me.supportsMLSx()) {
+            try {
+                let entry = parseMLSxEntries(await me.executeMLST(file), true)[0];
+                if (entry) {
+                    return toDirectoryEntryFromMLSx(entry, Path.dirname(file));
+                }
+            }
+            catch (e) {
+                if (550 === e.code) {
+                    // not found
+                    return {
+                        exists: false,
+                        isRemote: true,
+                    };
+                }
+
+                me.context.log(i18.t('errors.withCategory', 'FtpClientBase.getFileInfo(MLST)', e));
+            }
+        }
+
+        return await me.getFileInfoFromLIST(file);
+    }
+
+    protected abstract getFileInfoFromLIST(file: string): Promise<deploy_contracts.FileInfo>;
+
+    public async list(dir: string): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        if (await me.supportsMLSx()) {
+            try {
+                return parseMLSxEntries(await me.executeMLSD(dir)).filter(e => {
+                    let type = deploy_helpers.normalizeString(e.facts['type']);
+
+                    return 'cdir' !== type && 'pdir' !== type &&
+                           '.' !== e.name && '..' !== e.name;
+                }).map(e => {
+                    return toDirectoryEntryFromMLSx(e, dir);
+                });
+            }
+            catch (e) {
+                me.context.log(i18.t('errors.withCategory', 'FtpClientBase.list(MLSD)', e));
+            }
+        }
+
+        return await me.listFromLIST(dir);
+    }
+
+    protected abstract listFromLIST(dir: string): Promise<deploy_contracts.DirectoryEntry[]>;
 
     public abstract mkdir(dir: string): Promise<string>;
 
     public abstract put(file: string, data: Buffer): Promise<Buffer>;
+
+    protected async supportsMLSx(): Promise<boolean> {
+        let me = this;
+
+        if (deploy_helpers.isNullOrUndefined(me._supportsMLSx)) {
+            let supported = false;
+
+            if (deploy_helpers.toBooleanSafe(me.target.useMLSD, true)) {
+                try {
+                    supported = (await me.getFeatures()).some(f => {
+                        return /^(mlst)(\s|$)/i.test(deploy_helpers.toStringSafe(f).trim());
+                    });
+                }
+                catch (e) {
+                    me.context.log(i18.t('errors.withCategory', 'FtpClientBase.supportsMLSx()', e));
+                }
+            }
+
+            me._supportsMLSx = supported;
+        }
+
+        return me._supportsMLSx;
+    }
+
+    public get target(): DeployTargetFTP {
+        return this._target;
+    }
+
+    protected toModifyTime(time: any): Moment.Moment {
+        let modifyTime = Moment(time);
+
+        let offset = getTimeZoneOffset(this.target);
+        if (false !== offset && modifyTime.isValid()) {
+            // LIST returns the local time of the server
+            modifyTime = modifyTime.utcOffset(offset, true);
+        }
+
+        return modifyTime;
+    }
 }
 
 class FtpClient extends FtpClientBase {
@@ -289,6 +491,28 @@ class FtpClient extends FtpClientBase {
         });
     }
 
+    public delete(file: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                me.connection.delete(file, (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        completed(null, file);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     public end(): Promise<boolean> {
         let me = this;
 
@@ -342,6 +566,106 @@ class FtpClient extends FtpClientBase {
         });
     }
 
+    protected executeMLSD(dir: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                if (!me.hasRawCommands()) {
+                    throw new Error(i18.t('plugins.ftp.rawCommandNotSupported', 'MLSD'));
+                }
+
+                let pasvFunc: Function = me.connection['_pasv'];
+                let sendFunc: Function = me.connection['_send'];
+
+                pasvFunc.apply(me.connection, [
+                    (err, sock) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        let listing: Buffer = Buffer.alloc(0);
+                        let isDone = false;
+                        let replies = 0;
+
+                        let final = () => {
+                            if (isDone && 2 === replies) {
+                                completed(null, listing.toString('utf8'));
+                            }
+                        };
+
+                        sock.on('data', (data: Buffer) => {
+                            listing = Buffer.concat([ listing, data ]);
+                        });
+                        sock.once('error', (sockErr) => {
+                            completed(sockErr);
+                        });
+                        sock.once('close', () => {
+                            isDone = true;
+                            final();
+                        });
+
+                        // first reply is the mark (150),
+                        // second one the result (226)
+                        sendFunc.apply(me.connection, [
+                            'MLSD ' + dir,
+                            (err, respTxt, respCode) => {
+                                if (err) {
+                                    sock.destroy();
+
+                                    completed(err);
+                                    return;
+                                }
+
+                                // some servers do not open a data
+                                // connection for empty directories
+                                if (1 === ++replies && 226 === respCode) {
+                                    replies = 2;
+                                    sock.destroy();
+                                }
+
+                                final();
+                            },
+                            true
+                        ]);
+                    }
+                ]);
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    protected executeMLST(file: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                if (!me.hasRawCommands()) {
+                    throw new Error(i18.t('plugins.ftp.rawCommandNotSupported', 'MLST'));
+                }
+
+                let sendFunc: Function = me.connection['_send'];
+
+                sendFunc.apply(me.connection, [
+                    'MLST ' + file,
+                    (err, respTxt, respCode) => {
+                        completed(err, respTxt);
+                    }
+                ]);
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     public get(file: string): Promise<Buffer> {
         let me = this;
 
@@ -415,7 +739,18 @@ class FtpClient extends FtpClientBase {
         });
     }
 
-    public getFileInfo(file: string): Promise<deploy_contracts.FileInfo> {
+    protected async getFeatures(): Promise<string[]> {
+        if (!this.hasRawCommands()) {
+            // cannot send MLSD and MLST
+            // so use LIST instead
+            return [];
+        }
+
+        return deploy_helpers.asArray<string>(this.connection['_feat'])
+                             .filter(f => !deploy_helpers.isNullOrUndefined(f));
+    }
+
+    protected getFileInfoFromLIST(file: string): Promise<deploy_contracts.FileInfo> {
         let me = this;
 
         return new Promise<deploy_contracts.FileInfo>((resolve, reject) => {
@@ -456,7 +791,7 @@ class FtpClient extends FtpClientBase {
                             info.path = dir;
 
                             if (f.date) {
-                                info.modifyTime = Moment(f.date);
+                                info.modifyTime = me.toModifyTime(f.date);
                             }
 
                             break;
@@ -469,6 +804,61 @@ class FtpClient extends FtpClientBase {
         });
     }
 
+    /**
+     * Checks if the (internal) functions of the 'ftp' module,
+     * which are required to send raw commands, are available or not.
+     * 
+     * @return {boolean} Are available or not.
+     */
+    protected hasRawCommands(): boolean {
+        let conn = this.connection;
+
+        return conn &&
+               'function' === typeof conn['_pasv'] &&
+               'function' === typeof conn['_send'];
+    }
+
+    protected listFromLIST(dir: string): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            me.connection.list(dir, (err, list) => {
+                if (err) {
+                    completed(err);
+                    return;
+                }
+
+                try {
+                    let entries = (list || []).filter(f => {
+                        return f && '.' !== f.name && '..' !== f.name;
+                    }).map(f => {
+                        let entry: deploy_contracts.DirectoryEntry = {
+                            exists: true,
+                            isDirectory: 'd' === f.type,
+                            isRemote: true,
+                            name: f.name,
+                            path: dir,
+                            size: parseInt(deploy_helpers.toStringSafe(f.size).trim()),
+                        };
+
+                        if (f.date) {
+                            entry.modifyTime = me.toModifyTime(f.date);
+                        }
+
+                        return entry;
+                    });
+
+                    completed(null, entries);
+                }
+                catch (e) {
+                    completed(e);
+                }
+            });
+        });
+    }
+
     public mkdir(dir: string): Promise<string> {
         let me = this;
 
@@ -600,6 +990,28 @@ class JsFTPClient extends FtpClientBase {
         });
     }
 
+    public delete(file: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                me.connection.raw.dele(file, (err) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        completed(null, file);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     public end(): Promise<boolean> {
         let me = this;
 
@@ -656,6 +1068,79 @@ class JsFTPClient extends FtpClientBase {
         });
     }
 
+    protected executeMLSD(dir: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                me.connection.getPasvSocket((err, socket) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+
+                    let listing: Buffer = Buffer.alloc(0);
+
+                    socket.on('data', (data: Buffer) => {
+                        listing = Buffer.concat([ listing, data ]);
+                    });
+                    socket.once('error', (socketErr) => {
+                        completed(socketErr);
+                    });
+                    socket.once('close', (hadErr) => {
+                        if (hadErr) {
+                            completed(hadErr);
+                        }
+                        else {
+                            completed(null, listing.toString('utf8'));
+                        }
+                    });
+
+                    let cmdCallback: any = (cmdErr) => {
+                        if (cmdErr) {
+                            completed(cmdErr);
+                        }
+                    };
+                    // wait for the mark (125 / 150) and
+                    // ignore the final result (226)
+                    cmdCallback.expectsMark = {
+                        marks: [ 125, 150 ],
+                        ignore: 226,
+                    };
+
+                    me.connection.execute('mlsd ' + dir, cmdCallback);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    protected executeMLST(file: string): Promise<string> {
+        let me = this;
+
+        return new Promise<string>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string>(resolve, reject);
+
+            try {
+                me.connection.raw('mlst', [ file ], (err, data) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        completed(null, data.text);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     public get(file: string): Promise<Buffer> {
         let me = this;
 
@@ -705,7 +1190,24 @@ class JsFTPClient extends FtpClientBase {
         });
     }
 
-    public getFileInfo(file: string): Promise<deploy_contracts.FileInfo> {
+    protected getFeatures(): Promise<string[]> {
+        let me = this;
+
+        return new Promise<string[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<string[]>(resolve, reject);
+
+            try {
+                me.connection.getFeatures((err, features) => {
+                    completed(err, features || []);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    protected getFileInfoFromLIST(file: string): Promise<deploy_contracts.FileInfo> {
         let me = this;
         
         return new Promise<deploy_contracts.FileInfo>((resolve, reject) => {
@@ -752,7 +1254,7 @@ class JsFTPClient extends FtpClientBase {
                                         info.path = dir;
 
                                         if (!deploy_helpers.isNullUndefinedOrEmptyString(f.time)) {
-                                            info.modifyTime = Moment(f.time);
+                                            info.modifyTime = me.toModifyTime(f.time);
                                         }
 
                                         break;
@@ -771,6 +1273,59 @@ class JsFTPClient extends FtpClientBase {
         });
     }
 
+    protected listFromLIST(dir: string): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            try {
+                me.connection.list(dir, (err, result) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+
+                    ParseListening.parseEntries(result, function(err, list) {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        try {
+                            let entries = (list || []).filter(f => {
+                                return f && '.' !== f.name && '..' !== f.name;
+                            }).map(f => {
+                                let entry: deploy_contracts.DirectoryEntry = {
+                                    exists: true,
+                                    isDirectory: 1 === f.type,
+                                    isRemote: true,
+                                    name: f.name,
+                                    path: dir,
+                                    size: parseInt(deploy_helpers.toStringSafe(f.size).trim()),
+                                };
+
+                                if (!deploy_helpers.isNullUndefinedOrEmptyString(f.time)) {
+                                    entry.modifyTime = me.toModifyTime(f.time);
+                                }
+
+                                return entry;
+                            });
+
+                            completed(null, entries);
+                        }
+                        catch (e) {
+                            completed(e);
+                        }
+                    });
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
     public mkdir(dir: string): Promise<string> {
         let me = this;
 
@@ -824,11 +1379,19 @@ class FtpPlugin extends deploy_objects.DeployPluginWithContextBase<FTPContext> {
     public get canGetFileInfo(): boolean {
         return true;
     }
+
+    public get canList(): boolean {
+        return true;
+    }
     
     public get canPull(): boolean {
         return true;
     }
 
+    public get canRemove(): boolean {
+        return true;
+    }
+
     protected createContext(target: DeployTargetFTP,
                             files: string[],
                             opts: deploy_contracts.DeployFileOptions): Promise<deploy_objects.DeployPluginContextWrapper<FTPContext>> {
@@ -900,11 +1463,11 @@ class FtpPlugin extends deploy_objects.DeployPluginWithContextBase<FTPContext> {
             switch (engine) {
                 case '':
                 case 'ftp':
-                    client = new FtpClient(me.context);
+                    client = new FtpClient(me.context, target);
                     break;
 
                 case 'jsftp':
-                    client = new JsFTPClient(me.context);
+                    client = new JsFTPClient(me.context, target);
                     break;
             }
 
@@ -1297,6 +1860,43 @@ class FtpPlugin extends deploy_objects.DeployPluginWithContextBase<FTPContext> {
             description: i18.t('plugins.ftp.description'),
         };
     }
+
+    protected listDirectoryWithContext(ctx: FTPContext,
+                                       dir: string, target: DeployTargetFTP, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        let relativeDirPath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+        if (false === relativeDirPath) {
+            throw new Error(i18.t('relativePaths.couldNotResolve', dir));
+        }
+
+        let targetDirectory = toFTPPath(Path.join(getDirFromTarget(target), relativeDirPath));
+
+        return ctx.connection.list(targetDirectory);
+    }
+    protected removeFileWithContext(ctx: FTPContext,
+                                    file: string, target: DeployTargetFTP, opts?: deploy_contracts.DeployFileOptions): Promise<any> {
+        let me = this;
+
+        let relativeFilePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
+        if (false === relativeFilePath) {
+            throw new Error(i18.t('relativePaths.couldNotResolve', file));
+        }
+
+        let dir = getDirFromTarget(target);
+
+        let targetFile = toFTPPath(Path.join(dir, relativeFilePath));
+
+        if (opts.onBeforeDeploy) {
+            opts.onBeforeDeploy(me, {
+                destination: toFTPPath(Path.dirname(targetFile)),
+                file: file,
+                target: target,
+            });
+        }
+
+        return ctx.connection.delete(targetFile);
+    }
 }
 
 /**
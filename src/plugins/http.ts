@@ -78,6 +78,13 @@ export interface DataTransformerContext {
 }
 
 
+function toHttpError(msg: string, resp: HTTP.IncomingMessage): Error {
+    let err: any = new Error(msg);
+    err.code = resp.statusCode;  // s. 'retry' of target
+
+    return err;
+}
+
 class HttpPlugin extends deploy_objects.DeployPluginBase {
     public deployFile(file: string, target: DeployTargetHttp, opts?: deploy_contracts.DeployFileOptions): void {
         let now = Moment().utc();
@@ -315,22 +322,22 @@ class HttpPlugin extends deploy_objects.DeployPluginBase {
                                             protocol: protocol,
                                         }, (resp) => {
                                             if (resp.statusCode > 399 && resp.statusCode < 500) {
-                                                completed(new Error(`Client error: [${resp.statusCode}] '${resp.statusMessage}'`));
+                                                completed(toHttpError(`Client error: [${resp.statusCode}] '${resp.statusMessage}'`, resp));
                                                 return;
                                             }
 
                                             if (resp.statusCode > 499 && resp.statusCode < 600) {
-                                                completed(new Error(`Server error: [${resp.statusCode}] '${resp.statusMessage}'`));
+                                                completed(toHttpError(`Server error: [${resp.statusCode}] '${resp.statusMessage}'`, resp));
                                                 return;
                                             }
 
                                             if (resp.statusCode > 599) {
-                                                completed(new Error(`Error: [${resp.statusCode}] '${resp.statusMessage}'`));
+                                                completed(toHttpError(`Error: [${resp.statusCode}] '${resp.statusMessage}'`, resp));
                                                 return;
                                             }
 
                                             if (!(resp.statusCode > 199 && resp.statusCode < 300)) {
-                                                completed(new Error(`No success: [${resp.statusCode}] '${resp.statusMessage}'`));
+                                                completed(toHttpError(`No success: [${resp.statusCode}] '${resp.statusMessage}'`, resp));
                                                 return;
                                             }
 
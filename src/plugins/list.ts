@@ -175,6 +175,10 @@ class ListPlugin extends deploy_objects.MultiFileDeployPluginBase {
                                 p.deployWorkspace(files, clonedTarget, {
                                     baseDirectory: opts.baseDirectory,
                                     context: deploy_plugins.createPluginContext(opts.context || me.context),
+                                    dryRun: opts.dryRun,
+                                    incremental: opts.incremental,
+                                    mirror: opts.mirror,
+                                    restore: opts.restore,
 
                                     onBeforeDeployFile: (sender, e) => {
                                         if (opts.onBeforeDeployFile) {
@@ -186,6 +190,8 @@ class ListPlugin extends deploy_objects.MultiFileDeployPluginBase {
                                         }
                                     },
                                     
+                                    onBeforeRemoveFile: opts.onBeforeRemoveFile,
+                                    
                                     onCompleted: (sender, e) => {
                                         if (e.error) {
                                             reject(e.error);
@@ -46,6 +46,10 @@ class LocalPlugin extends deploy_objects.DeployPluginBase {
         return true;
     }
     
+    public get canList(): boolean {
+        return true;
+    }
+
     public get canPull(): boolean {
         return true;
     }
@@ -183,7 +187,8 @@ class LocalPlugin extends deploy_objects.DeployPluginBase {
                 super.deployWorkspace(files, target, opts);    
             };
 
-            let doEmptyDir = deploy_helpers.toBooleanSafe(target.empty, false);
+            let doEmptyDir = deploy_helpers.toBooleanSafe(target.empty, false) &&
+                             !deploy_helpers.toBooleanSafe(opts.dryRun);
             if (doEmptyDir) {
                 me.context.outputChannel().append(i18.t('plugins.local.emptyTargetDirectory', targetDir));
 
@@ -365,6 +370,71 @@ class LocalPlugin extends deploy_objects.DeployPluginBase {
             description: i18.t('plugins.local.description'),
         };
     }
+
+    public listDirectory(dir: string, target: DeployTargetLocal, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            try {
+                let relativeTargetDirPath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+                if (false === relativeTargetDirPath) {
+                    completed(new Error(i18.t('relativePaths.couldNotResolve', dir)));
+                    return;
+                }
+
+                let targetDirectory = Path.join(getFullDirPathFromTarget(target, me),
+                                                <string>relativeTargetDirPath);
+
+                FS.readdir(targetDirectory, (err, names) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+
+                    let entries: deploy_contracts.DirectoryEntry[] = [];
+
+                    let nextName = () => {
+                        if (names.length < 1) {
+                            completed(null, entries);
+                            return;
+                        }
+
+                        let n = names.shift();
+
+                        FS.lstat(Path.join(targetDirectory, n), (err, stat) => {
+                            if (err) {
+                                completed(err);
+                                return;
+                            }
+
+                            entries.push({
+                                exists: true,
+                                isDirectory: stat.isDirectory(),
+                                isRemote: true,
+                                modifyTime: Moment(stat.ctime),
+                                name: n,
+                                path: targetDirectory,
+                                size: stat.size,
+                            });
+
+                            nextName();
+                        });
+                    };
+
+                    nextName();
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
 }
 
 /**
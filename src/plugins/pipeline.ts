@@ -259,6 +259,10 @@ class PipelinePlugin extends deploy_objects.MultiTargetDeployPluginBase {
                                           {
                                               baseDirectory: a.baseDirectory,
                                               context: opts.context,
+                                              dryRun: opts.dryRun,
+                                              incremental: opts.incremental,
+                                              mirror: opts.mirror,
+                                              restore: opts.restore,
                                               onBeforeDeployFile: (sender, e) => {
                                                   if (opts.onBeforeDeployFile) {
                                                       opts.onBeforeDeployFile(sender, {
@@ -268,6 +272,7 @@ class PipelinePlugin extends deploy_objects.MultiTargetDeployPluginBase {
                                                       });
                                                   }
                                               },
+                                              onBeforeRemoveFile: opts.onBeforeRemoveFile,
                                               onCompleted: (sender, e) => {
                                                   let pipeCompleted = () => {
                                                       ctx.hasCancelled = e.canceled;
@@ -530,6 +530,10 @@ class PromptPlugin extends deploy_objects.MultiFileDeployPluginBase {
                                         pi.deployWorkspace(files, clonedTarget, {
                                             baseDirectory: opts.baseDirectory,
                                             context: deploy_plugins.createPluginContext(opts.context || me.context),
+                                            dryRun: opts.dryRun,
+                                            incremental: opts.incremental,
+                                            mirror: opts.mirror,
+                                            restore: opts.restore,
 
                                             onBeforeDeployFile: (sender, e) => {
                                                 if (opts.onBeforeDeployFile) {
@@ -541,6 +545,8 @@ class PromptPlugin extends deploy_objects.MultiFileDeployPluginBase {
                                                 }
                                             },
                                             
+                                            onBeforeRemoveFile: opts.onBeforeRemoveFile,
+                                            
                                             onCompleted: (sender, e) => {
                                                 if (e.error) {
                                                     reject(e.error);
@@ -25,33 +25,71 @@
 
 import * as Crypto from 'crypto';
 import * as deploy_contracts from '../contracts';
+import * as deploy_discovery from '../discovery';
 import * as deploy_helpers from '../helpers';
 import * as deploy_objects from '../objects';
 import * as FS from 'fs';
 import * as i18 from '../i18';
 import * as Moment from 'moment';
 import * as Net from 'net';
+import * as TLS from 'tls';
 import * as UUID from 'uuid';
 import * as ZLib from 'zlib';
 
 
+const CHUNK_HASH_ALGORITHM = 'sha256';
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+const DEFAULT_RESULT_TIMEOUT = 30000;
+
 interface DeployTargetRemote extends deploy_contracts.TransformableDeployTarget {
+    chunkSize?: number;
+    discover?: boolean;
+    discoveryPort?: number;
+    discoveryTimeout?: number;
     hosts?: string | string[];
     messageTransformer?: string;
     messageTransformerOptions?: any;
     tag?: any;
     password?: string;
     passwordAlgorithm?: string;
+    resultTimeout?: number;
+    tls?: boolean | DeployTargetRemoteTls;
+    token?: string;
+}
+
+interface DeployTargetRemoteTls {
+    ca?: string | string[];
+    cert?: string;
+    key?: string;
+    passphrase?: string;
+    rejectUnauthorized?: boolean;
+    servername?: string;
 }
 
 /**
  * A file to send (JSON message).
  */
 export interface RemoteFile {
+    /**
+     * The index / number of the chunk (beginning at 1), if the file is send in chunks.
+     */
+    chunk?: number;
+    /**
+     * The total number of chunks.
+     */
+    chunkCount?: number;
+    /**
+     * The (hex) SHA-256 hash of the (untransformed) data of the chunk.
+     */
+    chunkHash?: string;
     /**
      * The data.
      */
     data?: string;
+    /**
+     * The (hex) SHA-256 hash of the whole file (send with the last chunk).
+     */
+    hash?: string;
     /**
      * Indicates if 'data' is compressed or not.
      */
@@ -72,6 +110,11 @@ export interface RemoteFile {
      * The index / number of the file (beginning at 1).
      */
     nr: number;
+    /**
+     * The type of request ('download' or 'info'), if the file
+     * should be received from the host instead of being send.
+     */
+    request?: string;
     /**
      * The session ID.
      */
@@ -80,17 +123,88 @@ export interface RemoteFile {
      * An addtional value send by remote client.
      */
     tag?: any;
+    /**
+     * The token of the client.
+     */
+    token?: string;
     /**
      * The total number of files that will be send.
      */
     totalCount: number;
 }
 
+/**
+ * Information about a file, which is send back by a host.
+ */
+export interface RemoteFileInfo {
+    /**
+     * File exists or not.
+     */
+    exists: boolean;
+    /**
+     * The last modification time (ISO 8601).
+     */
+    modifyTime?: string;
+    /**
+     * The name of the file.
+     */
+    name?: string;
+    /**
+     * The directory of the file.
+     */
+    path?: string;
+    /**
+     * The size.
+     */
+    size?: number;
+}
+
+/**
+ * A result that is send back by a host.
+ */
+export interface RemoteFileResult {
+    /**
+     * The (Base64) data of a requested file.
+     */
+    data?: string;
+    /**
+     * The error message.
+     */
+    error?: string;
+    /**
+     * Information about a requested file.
+     */
+    info?: RemoteFileInfo;
+    /**
+     * Indicates if 'data' is compressed or not.
+     */
+    isCompressed?: boolean;
+    /**
+     * The name / path of the file.
+     */
+    name?: string;
+    /**
+     * Indicates if the file has been written successfully or not.
+     */
+    ok?: boolean;
+    /**
+     * The path on the host where the file has been written to.
+     */
+    path?: string;
+    /**
+     * Indicates if the file has been rejected or not.
+     */
+    rejected?: boolean;
+}
+
 interface RemoteContext {
-    counter: number;
+    chunkSize: number;
+    files: string[];
     hasCancelled: boolean;
     hosts: string[];
+    resultTimeout: number;
     session: string;
+    tls?: TLS.ConnectionOptions;
     totalCount: number;
 }
 
@@ -126,44 +240,190 @@ export interface TransformerContext {
 }
 
 class RemotePlugin extends deploy_objects.DeployPluginWithContextBase<RemoteContext> {
+    public get canGetFileInfo(): boolean {
+        return true;
+    }
+
+    public get canPull(): boolean {
+        return true;
+    }
+
     protected createContext(target: DeployTargetRemote,
                             files: string[],
                             opts): Promise<deploy_objects.DeployPluginContextWrapper<RemoteContext>> {
         let me = this;
 
         return new Promise<deploy_objects.DeployPluginContextWrapper<RemoteContext>>((resolve, reject) => {
-            try {
-                let now = Moment().utc();
+            me.getHosts(target).then((hosts) => {
+                try {
+                    let now = Moment().utc();
 
-                let hosts = deploy_helpers.asArray(target.hosts)
-                                          .map(x => deploy_helpers.toStringSafe(x))
-                                          .filter(x => x);
+                    let id = deploy_helpers.toStringSafe(UUID.v4());
+                    id = deploy_helpers.replaceAllStrings(id, '-', '');
 
-                let id = deploy_helpers.toStringSafe(UUID.v4());
-                id = deploy_helpers.replaceAllStrings(id, '-', '');
+                    let resultTimeout = parseInt(deploy_helpers.toStringSafe(target.resultTimeout).trim());
+                    if (isNaN(resultTimeout)) {
+                        resultTimeout = DEFAULT_RESULT_TIMEOUT;
+                    }
 
-                let ctx: RemoteContext = {
-                    counter: 0,
-                    hasCancelled: false,
-                    hosts: hosts,
-                    session: `${now.format('YYYYMMDDHHmmss')}-${id}`,
-                    totalCount: files.length,
-                };
+                    let chunkSize = parseInt(deploy_helpers.toStringSafe(target.chunkSize).trim());
+                    if (isNaN(chunkSize)) {
+                        chunkSize = DEFAULT_CHUNK_SIZE;
+                    }
+
+                    let ctx: RemoteContext = {
+                        chunkSize: chunkSize,
+                        files: files.map(f => f),
+                        hasCancelled: false,
+                        hosts: hosts,
+                        resultTimeout: resultTimeout,
+                        session: `${now.format('YYYYMMDDHHmmss')}-${id}`,
+                        tls: me.createTlsOptions(target),
+                        totalCount: files.length,
+                    };
 
-                me.onCancelling(() => ctx.hasCancelled = true, opts);
+                    me.onCancelling(() => ctx.hasCancelled = true, opts);
                 
-                let wrapper: deploy_objects.DeployPluginContextWrapper<RemoteContext> = {
-                    context: ctx,
-                };
+                    let wrapper: deploy_objects.DeployPluginContextWrapper<RemoteContext> = {
+                        context: ctx,
+                    };
 
-                resolve(wrapper);
-            }
-            catch (e) {
-                reject(e);
-            }
+                    resolve(wrapper);
+                }
+                catch (e) {
+                    reject(e);
+                }
+            }).catch((err) => {
+                reject(err);
+            });
         });
     }
 
+    protected createMessageTransformer(target: DeployTargetRemote,
+                                       mode: deploy_contracts.DataTransformerMode): deploy_contracts.DataTransformer {
+        let me = this;
+
+        // whole JSON transformer
+        let jsonTransformer = me.loadDataTransformer(target, mode,
+                                                     (t) => t.messageTransformer);
+
+        let pwd = deploy_helpers.toStringSafe(target.password);
+        if ('' === pwd) {
+            return jsonTransformer;
+        }
+
+        // add password wrapper
+        let baseJsonTransformer = jsonTransformer;
+
+        let pwdAlgo = deploy_helpers.normalizeString(target.passwordAlgorithm);
+        if ('' === pwdAlgo) {
+            pwdAlgo = deploy_contracts.DEFAULT_PASSWORD_ALGORITHM;
+        }
+
+        if (deploy_contracts.DataTransformerMode.Restore === mode) {
+            return (ctx) => {
+                return new Promise<Buffer>((resolve, reject) => {
+                    try {
+                        let decipher = Crypto.createDecipher(pwdAlgo, pwd);
+
+                        let a = decipher.update(ctx.data);
+                        let b = decipher.final();
+
+                        // update data for base transformer
+                        ctx.data = Buffer.concat([a, b]);
+
+                        let btResult = Promise.resolve(baseJsonTransformer(ctx));
+                        btResult.then((uncryptedData) => {
+                            resolve(uncryptedData);
+                        }).catch((err) => {
+                            reject(err);
+                        });
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                });
+            };
+        }
+
+        return (ctx) => {
+            return new Promise<Buffer>((resolve, reject) => {
+                try {
+                    let btResult = Promise.resolve(baseJsonTransformer(ctx));
+                    btResult.then((uncryptedData) => {
+                        try {
+                            let cipher = Crypto.createCipher(pwdAlgo, pwd);
+
+                            let a = cipher.update(uncryptedData);
+                            let b = cipher.final();
+
+                            // return crypted data
+                            resolve(Buffer.concat([a, b]));
+                        }
+                        catch (e) {
+                            reject(e);
+                        }
+                    }).catch((err) => {
+                        reject(err);
+                    });
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        };
+    }
+
+    protected createRequest(ctx: RemoteContext,
+                            file: string, target: DeployTargetRemote, request: string,
+                            baseDirectory?: string): RemoteFile {
+        return {
+            isFirst: true,
+            isLast: true,
+            name: this.getRemotePath(file, target, baseDirectory),
+            nr: 1,
+            request: request,
+            session: ctx.session,
+            tag: target.tag,
+            token: target.token,
+            totalCount: 1,
+        };
+    }
+
+    protected createTlsOptions(target: DeployTargetRemote): TLS.ConnectionOptions {
+        let me = this;
+
+        if (deploy_helpers.isNullOrUndefined(target.tls) || false === target.tls) {
+            return;  // no TLS
+        }
+
+        let settings: DeployTargetRemoteTls;
+        if ('object' === typeof target.tls) {
+            settings = target.tls;
+        }
+        else {
+            settings = {};
+        }
+
+        let replaceWithValues = (val: any) => me.context.replaceWithValues(val);
+
+        let ca = deploy_helpers.readFilesSync(settings.ca, replaceWithValues);
+        let cert = deploy_helpers.readFilesSync(settings.cert, replaceWithValues);
+        let key = deploy_helpers.readFilesSync(settings.key, replaceWithValues);
+
+        let passphrase = deploy_helpers.toStringSafe(settings.passphrase);
+        let servername = deploy_helpers.toStringSafe(me.context.replaceWithValues(settings.servername)).trim();
+
+        return {
+            ca: ca.length > 0 ? ca : undefined,
+            cert: cert.length > 0 ? cert[0] : undefined,
+            key: key.length > 0 ? key[0] : undefined,
+            passphrase: '' !== passphrase ? passphrase : undefined,
+            rejectUnauthorized: deploy_helpers.toBooleanSafe(settings.rejectUnauthorized, true),
+            servername: '' !== servername ? servername : undefined,
+        };
+    }
+
     protected deployFileWithContext(ctx: RemoteContext,
                                     file: string, target: DeployTargetRemote, opts?: deploy_contracts.DeployFileOptions): void {
         if (!opts) {
@@ -172,9 +432,16 @@ class RemotePlugin extends deploy_objects.DeployPluginWithContextBase<RemoteCont
 
         let me = this;
 
-        ++ctx.counter;
+        // files can be deployed in parallel (s. 'concurrency' of target)
+        // and can be retried, so use the position in the list of files,
+        // which is the same for all attempts
+        let nr = ctx.files.indexOf(file) + 1;
+        if (nr < 1) {
+            nr = ctx.files.push(file);
+        }
 
         let allErrors: any[] = [];
+        let results: deploy_contracts.FileDeployResult[] = [];
         let completed = (err?: any) => {
             if (err) {
                 allErrors.push(err);
@@ -193,6 +460,7 @@ class RemotePlugin extends deploy_objects.DeployPluginWithContextBase<RemoteCont
                     canceled: ctx.hasCancelled,
                     error: err,
                     file: file,
+                    results: results,
                     target: target,
                 });
             }
@@ -202,254 +470,736 @@ class RemotePlugin extends deploy_objects.DeployPluginWithContextBase<RemoteCont
             completed();  // cancellation requested
         }
         else {
-            // data transformer
-            let transformer = me.loadDataTransformer(target, deploy_contracts.DataTransformerMode.Transform);
+            try {
+                let relativePath = me.getRemotePath(file, target, opts.baseDirectory);
+
+                if (opts.onBeforeDeploy) {
+                    opts.onBeforeDeploy(me, {
+                        destination: relativePath,
+                        file: file,
+                        target: target,
+                    });
+                }
 
-            // whole JSON transformer
-            let jsonTransformer = me.loadDataTransformer(target, deploy_contracts.DataTransformerMode.Transform,
-                                                         (t) => t.messageTransformer);
+                let hostsTodo = ctx.hosts.map(x => x);
 
-            let pwd = deploy_helpers.toStringSafe(target.password);
-            if ('' !== pwd) {
-                // add password wrapper
-                let baseJsonTransformer = jsonTransformer;
+                // sends the file to all hosts
+                let sendToHosts = (send: (host: string) => Promise<RemoteFileResult>) => {
+                    let deployNext: () => void;
+                    deployNext = () => {
+                        if (hostsTodo.length < 1) {
+                            completed();
+                            return;
+                        }
 
-                let pwdAlgo = deploy_helpers.normalizeString(target.passwordAlgorithm);
-                if ('' === pwdAlgo) {
-                    pwdAlgo = deploy_contracts.DEFAULT_PASSWORD_ALGORITHM;
-                }
+                        let h = hostsTodo.pop();
+                        if (!h) {
+                            completed();
+                            return;
+                        }
+
+                        let hostCompleted = (err?: any, result?: RemoteFileResult) => {
+                            if (err) {
+                                allErrors.push(err);
+                            }
+
+                            let hostResult: deploy_contracts.FileDeployResult = {
+                                destination: h,
+                                error: err,
+                            };
+                            if (result) {
+                                hostResult.isRejected = deploy_helpers.toBooleanSafe(result.rejected);
+                                hostResult.path = result.path;
+                            }
+                            results.push(hostResult);
+
+                            deployNext();
+                        };
+
+                        send(h).then((result) => {
+                            hostCompleted(toResultError(h, result), result);
+                        }).catch((err) => {
+                            hostCompleted(err);
+                        });
+                    };
+
+                    deployNext();
+                };
+
+                FS.stat(file, (err, stats) => {
+                    if (err) {
+                        completed(err);
+                        return;
+                    }
+
+                    if (ctx.chunkSize > 0 && stats.size > ctx.chunkSize) {
+                        // send in chunks
+                        sendToHosts((h) => me.sendChunks(ctx, target, file,
+                                                         relativePath, nr, stats.size, h));
+                        return;
+                    }
+
+                    FS.readFile(file, (err, data) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
 
-                jsonTransformer = (ctx) => {
-                    return new Promise<Buffer>((resolve, reject) => {
                         try {
-                            let btResult = Promise.resolve(baseJsonTransformer(ctx));
-                            btResult.then((uncryptedData) => {
-                                try {
-                                    let cipher = Crypto.createCipher(pwdAlgo, pwd);
+                            let remoteFile: RemoteFile = {
+                                isFirst: 1 === nr,
+                                isLast: nr === ctx.totalCount,
+                                name: relativePath,
+                                nr: nr,
+                                session: ctx.session,
+                                tag: target.tag,
+                                token: target.token,
+                                totalCount: ctx.totalCount,
+                            };
 
-                                    let a = cipher.update(uncryptedData);
-                                    let b = cipher.final();
+                            me.transformFileData(target, file, remoteFile, data).then((dataToSend) => {
+                                let json: Buffer;
+                                try {
+                                    remoteFile.data = dataToSend.toString('base64');
 
-                                    // return crypted data
-                                    resolve(Buffer.concat([a, b]));
+                                    json = new Buffer(JSON.stringify(remoteFile), 'utf8');
                                 }
                                 catch (e) {
-                                    reject(e);
+                                    completed(e);
+                                    return;
                                 }
+
+                                me.transformMessage(target, file, remoteFile, json).then((transformedJsonData) => {
+                                    sendToHosts((h) => me.sendMessage(ctx, target, file, remoteFile,
+                                                                      h, transformedJsonData));
+                                }).catch((err) => {
+                                    completed(err);  // JSON data transformation failed
+                                });
                             }).catch((err) => {
-                                reject(err);
+                                completed(err);  // file data transformation failed
                             });
                         }
                         catch (e) {
-                            reject(e);
+                            completed(e);
                         }
                     });
-                };
+                });
             }
+            catch (e) {
+                completed(e);
+            }
+        }
+    }
 
-            try {
-                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
-                if (false === relativePath) {
-                    completed(new Error(i18.t('relativePaths.couldNotResolve', file)));
+    protected downloadFileWithContext(ctx: RemoteContext,
+                                      file: string, target: DeployTargetRemote, opts?: deploy_contracts.DeployFileOptions): Promise<Buffer> {
+        if (!opts) {
+            opts = {};
+        }
+
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completedInvoked = false;
+            let completed = (err: any, data?: Buffer) => {
+                if (completedInvoked) {
                     return;
                 }
 
-                while (0 === relativePath.indexOf('/')) {
-                    relativePath = relativePath.substr(1);
+                completedInvoked = true;
+                if (opts.onCompleted) {
+                    opts.onCompleted(me, {
+                        canceled: ctx.hasCancelled,
+                        error: err,
+                        file: file,
+                        target: target,
+                    });
                 }
 
-                if (!relativePath) {
-                    completed(new Error(i18.t('relativePaths.isEmpty', file)));
-                    return;
+                if (err) {
+                    reject(err);
                 }
+                else {
+                    resolve(data);
+                }
+            };
+
+            if (ctx.hasCancelled) {
+                completed(null);  // cancellation requested
+                return;
+            }
+
+            try {
+                let remoteFile = me.createRequest(ctx, file, target, 'download', opts.baseDirectory);
 
                 if (opts.onBeforeDeploy) {
                     opts.onBeforeDeploy(me, {
-                        destination: relativePath,
+                        destination: remoteFile.name,
                         file: file,
                         target: target,
                     });
                 }
 
-                FS.readFile(file, (err, data) => {
-                    if (err) {
-                        completed(err);
-                        return;
-                    }
-
+                me.sendRequest(ctx, target, file, remoteFile).then((result) => {
                     try {
-                        let remoteFile: RemoteFile = {
-                            isFirst: 1 === ctx.counter,
-                            isLast: ctx.counter === ctx.totalCount,
-                            name: <string>relativePath,
-                            nr: ctx.counter,
-                            session: ctx.session,
-                            tag: target.tag,
-                            totalCount: ctx.totalCount,
-                        };
+                        let base64 = deploy_helpers.toStringSafe(result.data);
 
-                        let transformCtx: FileDataTransformerContext = {
-                            file: file,
-                            globals: me.context.globals(),
-                            remoteFile: remoteFile,
-                        };
+                        let data: Buffer;
+                        if (base64) {
+                            data = new Buffer(base64, 'base64');
+                        }
+                        else {
+                            data = Buffer.alloc(0);
+                        }
+
+                        let restoreData = (dataToRestore: Buffer) => {
+                            try {
+                                let transformer = me.loadDataTransformer(target, deploy_contracts.DataTransformerMode.Restore);
+
+                                let transformCtx: FileDataTransformerContext = {
+                                    file: file,
+                                    globals: me.context.globals(),
+                                    remoteFile: remoteFile,
+                                };
 
-                        let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Transform,
-                                                                   transformCtx);
-                        tCtx.data = data;
+                                let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Restore,
+                                                                           transformCtx);
+                                tCtx.data = dataToRestore;
 
-                        let tResult = Promise.resolve(transformer(tCtx));
-                        tResult.then((transformedFileData) => {
-                            ZLib.gzip(transformedFileData, (err, compressedData) => {
+                                Promise.resolve(transformer(tCtx)).then((restoredData) => {
+                                    completed(null, restoredData);
+                                }).catch((err) => {
+                                    completed(err);  // file data transformation failed
+                                });
+                            }
+                            catch (e) {
+                                completed(e);
+                            }
+                        };
+
+                        if (result.isCompressed) {
+                            ZLib.gunzip(data, (err, uncompressedData) => {
                                 if (err) {
                                     completed(err);
                                     return;
                                 }
 
-                                if (deploy_helpers.isNullOrUndefined(transformCtx.compress)) {
-                                    // auto compression
-                                    remoteFile.isCompressed = compressedData.length < transformedFileData.length;
-                                }
-                                else {
-                                    remoteFile.isCompressed = deploy_helpers.toBooleanSafe(transformCtx.compress);
-                                }
+                                restoreData(uncompressedData);
+                            });
+                        }
+                        else {
+                            restoreData(data);
+                        }
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }).catch((err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
 
-                                let dataToSend = remoteFile.isCompressed ? compressedData : transformedFileData;
+    protected async getFileInfoWithContext(ctx: RemoteContext,
+                                           file: string, target: DeployTargetRemote, opts: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.FileInfo> {
+        let me = this;
 
-                                try {
-                                    remoteFile.data = dataToSend.toString('base64');
-                                }
-                                catch (e) {
-                                    completed(e);
-                                    return;
-                                }
+        let remoteFile = me.createRequest(ctx, file, target, 'info', opts.baseDirectory);
 
-                                let json: Buffer;
-                                try {
-                                    json = new Buffer(JSON.stringify(remoteFile), 'utf8');
-                                }
-                                catch (e) {
-                                    completed(e);
-                                    return;
-                                }
+        let result = await me.sendRequest(ctx, target, file, remoteFile);
 
-                                try {
-                                    let jsonTransformerCtx: MessageTransformerContext = {
-                                        file: file,
-                                        globals: me.context.globals(),
-                                        remoteFile: remoteFile,
-                                    };
-
-                                    let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Transform,
-                                                                               jsonTransformerCtx);
-                                    tCtx.data = json;
-                                    tCtx.options = deploy_helpers.cloneObject(target.messageTransformerOptions);
-
-                                    let tResult = jsonTransformer(tCtx);
-                                    Promise.resolve(tResult).then((transformedJsonData) => {
-                                        let hostsTodo = ctx.hosts.map(x => x);
-                                        let deployNext: () => void;
-                                        deployNext = () => {
-                                            if (hostsTodo.length < 1) {
-                                                completed();
-                                                return;
-                                            }
-
-                                            let h = hostsTodo.pop();
-                                            if (!h) {
-                                                completed();
-                                                return;
-                                            }
-
-                                            let hostCompleted = (err?: any) => {
-                                                if (err) {
-                                                    allErrors.push(err);
-                                                }
-
-                                                deployNext();
-                                            };
-
-                                            try {
-                                                let addr = h;
-                                                let port = deploy_contracts.DEFAULT_PORT;
-                                                
-                                                let separator = h.indexOf(':');
-                                                if (separator > -1) {
-                                                    addr = deploy_helpers.toStringSafe(h.substr(0, separator).toLowerCase().trim(),
-                                                                                       deploy_contracts.DEFAULT_HOST);
-
-                                                    port = parseInt(deploy_helpers.toStringSafe(h.substr(separator + 1).trim(),
-                                                                                                '' + deploy_contracts.DEFAULT_PORT));
-                                                }
-
-                                                let client = new Net.Socket();
-
-                                                client.on('error', (err) => {
-                                                    hostCompleted(err);
-                                                });
-
-                                                client.connect(port, addr, (err) => {
-                                                    if (err) {
-                                                        hostCompleted(err);
-                                                        return;
-                                                    }
-
-                                                    try {
-                                                        let dataLength = Buffer.alloc(4);
-                                                        dataLength.writeUInt32LE(transformedJsonData.length, 0);
-
-                                                        client.write(dataLength);
-                                                        client.write(transformedJsonData);
-
-                                                        try {
-                                                            client.destroy();
-                                                        }
-                                                        catch (e) {
-                                                            me.context.log(i18.t('errors.withCategory',
-                                                                                 'RemotePlugin.deployFile().client.connect()', e));
-                                                        }
-
-                                                        hostCompleted();
-                                                    }
-                                                    catch (e) {
-                                                        hostCompleted(e);
-                                                    }
-                                                });
-                                            }
-                                            catch (e) {
-                                                hostCompleted(e);
-                                            }
-                                        };
-
-                                        deployNext();
-                                    }).catch((err) => {
-                                        completed(err);  // JSON data transformation failed
-                                    });
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            });
+        let info: deploy_contracts.FileInfo = {
+            exists: false,
+            isRemote: true,
+        };
+
+        if (result.info) {
+            info.exists = deploy_helpers.toBooleanSafe(result.info.exists);
+
+            if (info.exists) {
+                info.name = result.info.name;
+                info.path = result.info.path;
+                info.size = result.info.size;
+
+                if (!deploy_helpers.isEmptyString(result.info.modifyTime)) {
+                    info.modifyTime = Moment(result.info.modifyTime);
+                }
+            }
+        }
+
+        return info;
+    }
+
+    protected async getHosts(target: DeployTargetRemote): Promise<string[]> {
+        if (!deploy_helpers.toBooleanSafe(target.discover)) {
+            return deploy_helpers.asArray(target.hosts)
+                                 .map(x => deploy_helpers.toStringSafe(x))
+                                 .filter(x => x);
+        }
+
+        // use discovered host
+        let host = deploy_discovery.getSelectedHostOf(target);
+        if (!host) {
+            host = await deploy_discovery.selectHostFor(target);
+        }
+        if (!host) {
+            throw new Error(i18.t('plugins.remote.noHostSelected', target.name));
+        }
+
+        return [ `${host.address}:${host.port}` ];
+    }
+
+    protected getRemotePath(file: string, target: DeployTargetRemote, baseDirectory?: string): string {
+        let relativePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, this.context.values(), baseDirectory);
+        if (false === relativePath) {
+            throw new Error(i18.t('relativePaths.couldNotResolve', file));
+        }
+
+        while (0 === relativePath.indexOf('/')) {
+            relativePath = relativePath.substr(1);
+        }
+
+        if (!relativePath) {
+            throw new Error(i18.t('relativePaths.isEmpty', file));
+        }
+
+        return relativePath;
+    }
+
+    public info(): deploy_contracts.DeployPluginInfo {
+        return {
+            description: i18.t('plugins.remote.description'),
+        };
+    }
+
+    protected get isContextShareable(): boolean {
+        return true;  // all files belong to one session
+    }
+
+    protected restoreResult(target: DeployTargetRemote,
+                            file: string, remoteFile: RemoteFile, data: Buffer): Promise<RemoteFileResult> {
+        let me = this;
+
+        return new Promise<RemoteFileResult>((resolve, reject) => {
+            if (!data || data.length < 1) {
+                resolve(undefined);  // no answer
+                return;
+            }
+
+            try {
+                let jsonTransformer = me.createMessageTransformer(target, deploy_contracts.DataTransformerMode.Restore);
+
+                let jsonTransformerCtx: MessageTransformerContext = {
+                    file: file,
+                    globals: me.context.globals(),
+                    remoteFile: remoteFile,
+                };
+
+                let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Restore,
+                                                           jsonTransformerCtx);
+                tCtx.data = data;
+                tCtx.options = deploy_helpers.cloneObject(target.messageTransformerOptions);
+
+                Promise.resolve(jsonTransformer(tCtx)).then((untransformedJsonData) => {
+                    try {
+                        let result: RemoteFileResult;
+
+                        let json = untransformedJsonData ? untransformedJsonData.toString('utf8') : '';
+                        if (json) {
+                            result = JSON.parse(json);
+                        }
+
+                        resolve(result);
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                }).catch((err) => {
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    protected sendMessage(ctx: RemoteContext, target: DeployTargetRemote,
+                          file: string, remoteFile: RemoteFile,
+                          host: string, message: Buffer): Promise<RemoteFileResult> {
+        let me = this;
+
+        return new Promise<RemoteFileResult>((resolve, reject) => {
+            let completedInvoked = false;
+            let completed = (err: any, answer?: Buffer) => {
+                if (completedInvoked) {
+                    return;
+                }
+                completedInvoked = true;
+
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                me.restoreResult(target, file, remoteFile, answer).then((result) => {
+                    resolve(result);
+                }).catch((err) => {
+                    reject(err);
+                });
+            };
+
+            try {
+                let addr = host;
+                let port = deploy_contracts.DEFAULT_PORT;
+                
+                let separator = host.indexOf(':');
+                if (separator > -1) {
+                    addr = deploy_helpers.toStringSafe(host.substr(0, separator).toLowerCase().trim(),
+                                                       deploy_contracts.DEFAULT_HOST);
+
+                    port = parseInt(deploy_helpers.toStringSafe(host.substr(separator + 1).trim(),
+                                                                '' + deploy_contracts.DEFAULT_PORT));
+                }
+
+                let client: Net.Socket;
+
+                let sendData = () => {
+                    try {
+                        let dataLength = Buffer.alloc(4);
+                        dataLength.writeUInt32LE(message.length, 0);
+
+                        // wait for the answer of the host
+                        readAnswer(client, ctx.resultTimeout).then((answer) => {
+                            completed(null, answer);
                         }).catch((err) => {
-                            completed(err);  // file data transformation failed
+                            completed(err);
                         });
+
+                        client.write(dataLength);
+                        client.write(message);
                     }
-                    catch (e) {  // tResult
+                    catch (e) {
                         completed(e);
                     }
+                };
+
+                if (ctx.tls) {
+                    let tlsOpts: TLS.ConnectionOptions = Object.assign({}, ctx.tls, {
+                        host: addr,
+                        port: port,
+                    });
+
+                    client = TLS.connect(tlsOpts, () => {
+                        sendData();
+                    });
+                }
+                else {
+                    client = new Net.Socket();
+                    client.connect(port, addr, () => {
+                        sendData();
+                    });
+                }
+
+                client.on('error', (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
                 completed(e);
             }
+        });
+    }
+
+    protected async sendChunks(ctx: RemoteContext, target: DeployTargetRemote,
+                               file: string, relativePath: string, nr: number, size: number,
+                               host: string): Promise<RemoteFileResult> {
+        let me = this;
+
+        let chunkCount = Math.ceil(size / ctx.chunkSize);
+        let hash = Crypto.createHash(CHUNK_HASH_ALGORITHM);
+
+        let result: RemoteFileResult;
+        for (let chunk = 1; chunk <= chunkCount; chunk++) {
+            if (ctx.hasCancelled) {
+                break;
+            }
+
+            let data = await readChunk(file, (chunk - 1) * ctx.chunkSize, ctx.chunkSize);
+            hash.update(data);
+
+            let remoteFile: RemoteFile = {
+                chunk: chunk,
+                chunkCount: chunkCount,
+                chunkHash: Crypto.createHash(CHUNK_HASH_ALGORITHM)
+                                 .update(data)
+                                 .digest('hex'),
+                isFirst: 1 === nr,
+                isLast: nr === ctx.totalCount,
+                name: relativePath,
+                nr: nr,
+                session: ctx.session,
+                tag: target.tag,
+                token: target.token,
+                totalCount: ctx.totalCount,
+            };
+            if (chunk === chunkCount) {
+                remoteFile.hash = hash.digest('hex');
+            }
+
+            let dataToSend = await me.transformFileData(target, file, remoteFile, data);
+            remoteFile.data = dataToSend.toString('base64');
+
+            let json = new Buffer(JSON.stringify(remoteFile), 'utf8');
+
+            let message = await me.transformMessage(target, file, remoteFile, json);
+
+            result = await me.sendMessage(ctx, target, file, remoteFile,
+                                          host, message);
+            if (!result) {
+                throw new Error(i18.t('plugins.remote.noResult', ctx.resultTimeout));
+            }
+
+            if (toResultError(host, result)) {
+                break;  // failed or rejected
+            }
         }
+
+        return result;
     }
 
-    public info(): deploy_contracts.DeployPluginInfo {
-        return {
-            description: i18.t('plugins.remote.description'),
+    protected async sendRequest(ctx: RemoteContext, target: DeployTargetRemote,
+                                file: string, remoteFile: RemoteFile): Promise<RemoteFileResult> {
+        let me = this;
+
+        // the first host is the source
+        let host = ctx.hosts[0];
+        if (!host) {
+            throw new Error(i18.t('plugins.remote.noHost'));
+        }
+
+        let json = new Buffer(JSON.stringify(remoteFile), 'utf8');
+
+        let message = await me.transformMessage(target, file, remoteFile, json);
+
+        let result = await me.sendMessage(ctx, target, file, remoteFile,
+                                          host, message);
+        if (!result) {
+            throw new Error(i18.t('plugins.remote.noResult', ctx.resultTimeout));
+        }
+
+        let err = toResultError(host, result);
+        if (err) {
+            throw err;
+        }
+
+        return result;
+    }
+
+    protected transformFileData(target: DeployTargetRemote,
+                                file: string, remoteFile: RemoteFile, data: Buffer): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            try {
+                // data transformer
+                let transformer = me.loadDataTransformer(target, deploy_contracts.DataTransformerMode.Transform);
+
+                let transformCtx: FileDataTransformerContext = {
+                    file: file,
+                    globals: me.context.globals(),
+                    remoteFile: remoteFile,
+                };
+
+                let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Transform,
+                                                           transformCtx);
+                tCtx.data = data;
+
+                Promise.resolve(transformer(tCtx)).then((transformedFileData) => {
+                    ZLib.gzip(transformedFileData, (err, compressedData) => {
+                        if (err) {
+                            reject(err);
+                            return;
+                        }
+
+                        if (deploy_helpers.isNullOrUndefined(transformCtx.compress)) {
+                            // auto compression
+                            remoteFile.isCompressed = compressedData.length < transformedFileData.length;
+                        }
+                        else {
+                            remoteFile.isCompressed = deploy_helpers.toBooleanSafe(transformCtx.compress);
+                        }
+
+                        resolve(remoteFile.isCompressed ? compressedData : transformedFileData);
+                    });
+                }).catch((err) => {
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+
+    protected transformMessage(target: DeployTargetRemote,
+                               file: string, remoteFile: RemoteFile, json: Buffer): Promise<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            try {
+                let jsonTransformer = me.createMessageTransformer(target, deploy_contracts.DataTransformerMode.Transform);
+
+                let jsonTransformerCtx: MessageTransformerContext = {
+                    file: file,
+                    globals: me.context.globals(),
+                    remoteFile: remoteFile,
+                };
+
+                let tCtx = me.createDataTransformerContext(target, deploy_contracts.DataTransformerMode.Transform,
+                                                           jsonTransformerCtx);
+                tCtx.data = json;
+                tCtx.options = deploy_helpers.cloneObject(target.messageTransformerOptions);
+
+                Promise.resolve(jsonTransformer(tCtx)).then((transformedJsonData) => {
+                    resolve(transformedJsonData);
+                }).catch((err) => {
+                    reject(err);
+                });
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    }
+}
+
+/**
+ * Reads a part of a file.
+ * 
+ * @param {string} file The path of the file.
+ * @param {number} position The position inside the file.
+ * @param {number} length The maximum number of bytes to read.
+ * 
+ * @return {Promise<Buffer>} The promise with the read data.
+ */
+export function readChunk(file: string, position: number, length: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        FS.open(file, 'r', (err, fd) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            let buffer = Buffer.alloc(length);
+            FS.read(fd, buffer, 0, length, position, (err, bytesRead) => {
+                FS.close(fd, () => {
+                    if (err) {
+                        reject(err);
+                    }
+                    else {
+                        resolve(buffer.slice(0, bytesRead));
+                    }
+                });
+            });
+        });
+    });
+}
+
+/**
+ * Reads the answer, that is send back by a host, until the connection is closed.
+ * 
+ * @param {Net.Socket} socket The socket.
+ * @param {number} timeout The maximum time, in milliseconds, to wait. Values less than 1 mean no limit.
+ * 
+ * @return {Promise<Buffer>} The promise with the (still transformed) answer, if available.
+ */
+function readAnswer(socket: Net.Socket, timeout: number): Promise<Buffer> {
+    return new Promise<Buffer>((res, rej) => {
+        let timer: NodeJS.Timer;
+
+        let completedInvoked = false;
+        let completed = (err: any, answer?: Buffer) => {
+            if (completedInvoked) {
+                return;
+            }
+            completedInvoked = true;
+
+            deploy_helpers.tryClearTimeout(timer);
+
+            if (err) {
+                rej(err);
+            }
+            else {
+                res(answer);
+            }
         };
+        let resolve = (answer: Buffer) => completed(null, answer);
+        let reject = (err: any) => completed(err);
+
+        if (timeout > 0) {
+            timer = setTimeout(() => {
+                reject(new Error(i18.t('plugins.remote.noResult', timeout)));
+
+                try {
+                    socket.destroy();
+                }
+                catch (e) {
+                    deploy_helpers.log(i18.t('errors.withCategory', 'remote.readAnswer()', e));
+                }
+            }, timeout);
+        }
+
+        let chunks: Buffer[] = [];
+
+        socket.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+        });
+
+        socket.once('close', () => {
+            try {
+                let data = Buffer.concat(chunks);
+
+                let answer: Buffer;
+                if (data.length >= 4) {
+                    let dataLength = data.readUInt32LE(0);
+
+                    answer = data.slice(4, 4 + dataLength);
+                }
+
+                resolve(answer);
+            }
+            catch (e) {
+                reject(e);
+            }
+        });
+    });
+}
+
+/**
+ * Creates an error from a result of a host (if failed).
+ * 
+ * @param {string} host The host.
+ * @param {RemoteFileResult} result The result.
+ * 
+ * @return {Error} The error or (undefined) if no error.
+ */
+function toResultError(host: string, result: RemoteFileResult): Error {
+    if (!result || deploy_helpers.toBooleanSafe(result.ok, true)) {
+        return;
     }
+
+    if (deploy_helpers.toBooleanSafe(result.rejected)) {
+        return new Error(i18.t('plugins.remote.rejected',
+                               host, result.error));
+    }
+
+    return new Error(i18.t('plugins.remote.failed',
+                           host, result.error));
 }
 
 /**
@@ -67,11 +67,19 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
     public get canGetFileInfo(): boolean {
         return true;
     }
+
+    public get canList(): boolean {
+        return true;
+    }
     
     public get canPull(): boolean {
         return true;
     }
 
+    public get canRemove(): boolean {
+        return true;
+    }
+
     protected createContext(target: DeployTargetS3Bucket,
                             files: string[],
                             opts: deploy_contracts.DeployFileOptions): Promise<deploy_objects.DeployPluginContextWrapper<S3Context>> {
@@ -303,6 +311,7 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
                     while (0 === bucketKey.indexOf('/')) {
                         bucketKey = bucketKey.substr(1);
                     }
+                    bucketKey = ctx.dir + bucketKey;
                     while (0 === bucketKey.indexOf('/')) {
                         bucketKey = bucketKey.substr(1);
                     }
@@ -380,6 +389,7 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
                 while (0 === bucketKey.indexOf('/')) {
                     bucketKey = bucketKey.substr(1);
                 }
+                bucketKey = ctx.dir + bucketKey;
                 while (0 === bucketKey.indexOf('/')) {
                     bucketKey = bucketKey.substr(1);
                 }
@@ -400,6 +410,12 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
                         result.name = target.bucket;
                         result.path = bucketKey;
 
+                        let md5 = getMD5FromETag(data.ETag, data.ServerSideEncryption, data.SSECustomerAlgorithm);
+                        if (false !== md5) {
+                            result.hash = md5;
+                            result.hashAlgorithm = 'md5';
+                        }
+
                         if (data.LastModified) {
                             try {
                                 result.modifyTime = Moment(data.LastModified);
@@ -424,6 +440,153 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
             description: i18.t('plugins.s3bucket.description'),
         };
     }
+
+    protected get isContextShareable(): boolean {
+        return true;
+    }
+
+    protected listDirectoryWithContext(ctx: S3Context,
+                                       dir: string, target: DeployTargetS3Bucket, opts?: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        return new Promise<deploy_contracts.DirectoryEntry[]>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction<deploy_contracts.DirectoryEntry[]>(resolve, reject);
+
+            try {
+                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+                if (false === relativePath) {
+                    completed(new Error(i18.t('relativePaths.couldNotResolve', dir)));
+                    return;
+                }
+
+                // remove leading '/' chars
+                let prefix = relativePath;
+                while (0 === prefix.indexOf('/')) {
+                    prefix = prefix.substr(1);
+                }
+                prefix = ctx.dir + prefix;
+                while (0 === prefix.indexOf('/')) {
+                    prefix = prefix.substr(1);
+                }
+                if ('' !== prefix && (prefix.length - 1) !== prefix.lastIndexOf('/')) {
+                    prefix += '/';
+                }
+
+                let entries: deploy_contracts.DirectoryEntry[] = [];
+
+                let listNext = (continuationToken?: string) => {
+                    let params: any = {
+                        ContinuationToken: continuationToken,
+                        Delimiter: '/',
+                        Prefix: prefix,
+                    };
+
+                    ctx.connection.listObjectsV2(params, (err, data) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        try {
+                            // sub directories
+                            (data.CommonPrefixes || []).forEach(cp => {
+                                let name = cp.Prefix.substr(prefix.length);
+                                while ((name.length - 1) === name.lastIndexOf('/')) {
+                                    name = name.substr(0, name.length - 1);
+                                }
+
+                                entries.push({
+                                    exists: true,
+                                    isDirectory: true,
+                                    isRemote: true,
+                                    name: name,
+                                    path: prefix,
+                                });
+                            });
+
+                            // files
+                            (data.Contents || []).filter(c => c.Key !== prefix).forEach(c => {
+                                let entry: deploy_contracts.DirectoryEntry = {
+                                    exists: true,
+                                    isDirectory: false,
+                                    isRemote: true,
+                                    name: c.Key.substr(prefix.length),
+                                    path: prefix,
+                                    size: c.Size,
+                                };
+
+                                if (c.LastModified) {
+                                    entry.modifyTime = Moment(c.LastModified);
+                                }
+
+                                entries.push(entry);
+                            });
+
+                            if (data.IsTruncated && data.NextContinuationToken) {
+                                listNext(data.NextContinuationToken);
+                            }
+                            else {
+                                completed(null, entries);
+                            }
+                        }
+                        catch (e) {
+                            completed(e);
+                        }
+                    });
+                };
+
+                listNext();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    protected removeFileWithContext(ctx: S3Context,
+                                    file: string, target: DeployTargetS3Bucket, opts?: deploy_contracts.DeployFileOptions): Promise<any> {
+        let me = this;
+
+        return new Promise<any>((resolve, reject) => {
+            let completed = deploy_helpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let relativePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
+                if (false === relativePath) {
+                    completed(new Error(i18.t('relativePaths.couldNotResolve', file)));
+                    return;
+                }
+
+                // remove leading '/' chars
+                let bucketKey = relativePath;
+                while (0 === bucketKey.indexOf('/')) {
+                    bucketKey = bucketKey.substr(1);
+                }
+                bucketKey = ctx.dir + bucketKey;
+                while (0 === bucketKey.indexOf('/')) {
+                    bucketKey = bucketKey.substr(1);
+                }
+
+                if (opts.onBeforeDeploy) {
+                    opts.onBeforeDeploy(me, {
+                        destination: bucketKey,
+                        file: file,
+                        target: target,
+                    });
+                }
+
+                ctx.connection.deleteObject({
+                    Bucket: ctx.bucket,
+                    Key: bucketKey,
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
 }
 
 /**
@@ -436,3 +599,30 @@ class S3BucketPlugin extends deploy_objects.DeployPluginWithContextBase<S3Contex
 export function createPlugin(ctx: deploy_contracts.DeployContext): deploy_contracts.DeployPlugin {
     return new S3BucketPlugin(ctx);
 }
+
+/**
+ * Returns the MD5 hash of the content of an object from its ETag.
+ * 
+ * @param {string} eTag The ETag.
+ * @param {string} serverSideEncryption The server-side encryption of the object.
+ * @param {string} sseCustomerAlgorithm The algorithm of a server-side encryption with a customer key (SSE-C).
+ * 
+ * @return {string|false} The hash or (false) if the ETag is no MD5 hash of the content.
+ */
+function getMD5FromETag(eTag: string, serverSideEncryption: string, sseCustomerAlgorithm: string): string | false {
+    if ('aws:kms' === deploy_helpers.normalizeString(serverSideEncryption) ||
+        !deploy_helpers.isEmptyString(sseCustomerAlgorithm)) {
+        return false;  // ETag is no MD5 hash here
+    }
+
+    eTag = deploy_helpers.replaceAllStrings(deploy_helpers.normalizeString(eTag),
+                                            '"', '');
+
+    // ETags of multipart uploads contain a '-'
+    // and are no MD5 hashes
+    if (!/^[0-9a-f]{32}$/.test(eTag)) {
+        return false;
+    }
+
+    return eTag;
+}
@@ -375,6 +375,11 @@ class ScriptPlugin extends deploy_objects.DeployPluginBase {
     }
 
     public deployWorkspace(files: string[], target: DeployTargetScript, opts?: deploy_contracts.DeployWorkspaceOptions) {
+        if (opts && deploy_helpers.toBooleanSafe(opts.dryRun)) {
+            super.deployWorkspace(files, target, opts);  // do not execute script
+            return;
+        }
+
         this.deployOrPullWorkspace(deploy_contracts.DeployDirection.Deploy,
                                    files, target, opts);
     }
@@ -35,12 +35,14 @@ import * as Path from 'path';
 const SFTP = require('ssh2-sftp-client');
 import * as sshpk from 'sshpk';
 import * as TMP from 'tmp';
+import * as UUID from 'uuid';
 import * as vscode from 'vscode';
 import * as Workflows from 'node-workflows';
 
 
 interface DeployTargetSFTP extends deploy_contracts.TransformableDeployTarget, deploy_contracts.PasswordObject {
     dir?: string;
+    fileHash?: string;
     hashAlgorithm?: string;
     hashes?: string | string[];
     host?: string;
@@ -66,6 +68,7 @@ interface DeployTargetSFTP extends deploy_contracts.TransformableDeployTarget, d
     noCommandOutput?: boolean;
     privateKeySourceFormat?: string;
     privateKeyTargetFormat?: string;
+    releases?: boolean | SFTPReleaseSettings;
 }
 
 interface FileToUpload {
@@ -85,6 +88,18 @@ interface SFTPContext {
     user: string;
 }
 
+interface SFTPReleases {
+    current: string;
+    dir: string;
+    keep: number;
+}
+
+interface SFTPReleaseSettings {
+    current?: string;
+    dir?: string;
+    keep?: number;
+}
+
 type SSHCommandEntry = string | {
     __index?: number;
     command: string;
@@ -99,9 +114,72 @@ type SSHCommandEntry = string | {
 
 type SSHCommands = SSHCommandEntry | SSHCommandEntry[];
 
+const DEFAULT_RELEASES_TO_KEEP = 5;
+const FILE_HASH_ALGORITHMS = [ 'md5', 'sha1', 'sha256', 'sha512' ];
 const MODE_PAD = '000';
+const RELEASE_NAME_FORMAT = 'YYYYMMDDHHmmssSSS';
 const TOUCH_TIME_FORMAT = 'YYYYMMDDHHmm.ss';
 
+/**
+ * Creates a new (unique) name for a release directory.
+ * 
+ * @return {string} The name.
+ */
+export function createReleaseName(): string {
+    // the suffix keeps names of releases, which have
+    // been created at the same time, unique and the
+    // time prefix keeps them sortable
+    let suffix = deploy_helpers.replaceAllStrings(deploy_helpers.toStringSafe(UUID.v4()), '-', '')
+                               .substr(0, 8);
+
+    return `${Moment().utc().format(RELEASE_NAME_FORMAT)}-${suffix}`;
+}
+
+function executeCommand(ctx: SFTPContext, cmd: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        try {
+            ctx.connection.client.exec(cmd, (err, stream) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                let stdout: Buffer = Buffer.alloc(0);
+                let stderr: Buffer = Buffer.alloc(0);
+
+                let toBuffer = (data: any): Buffer => {
+                    return Buffer.isBuffer(data) ? data
+                                                 : new Buffer(deploy_helpers.toStringSafe(data), 'utf8');
+                };
+
+                stream.on('data', (data) => {
+                    stdout = Buffer.concat([ stdout, toBuffer(data) ]);
+                });
+                stream.stderr.on('data', (data) => {
+                    stderr = Buffer.concat([ stderr, toBuffer(data) ]);
+                });
+
+                stream.once('error', (streamErr) => {
+                    reject(streamErr);
+                });
+
+                stream.once('close', (code) => {
+                    if (code) {
+                        reject(new Error(i18.t('plugins.sftp.commandFailed',
+                                               cmd, code, stderr.toString('utf8').trim())));
+                    }
+                    else {
+                        resolve(stdout.toString('utf8'));
+                    }
+                });
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
 function toHashSafe(hash: string): string {
     return deploy_helpers.normalizeString(hash);
 }
@@ -110,8 +188,31 @@ function toSFTPPath(path: string): string {
     return deploy_helpers.replaceAllStrings(path, Path.sep, '/');
 }
 
+function toShellArg(val: string): string {
+    return "'" + deploy_helpers.replaceAllStrings(deploy_helpers.toStringSafe(val), "'", "'\\''") + "'";
+}
+
 
 class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext> {
+    protected async activateRelease(ctx: SFTPContext, releases: SFTPReleases, releaseDir: string) {
+        let me = this;
+
+        // create the new link next to the old one and
+        // rename it, so "current" is switched atomically
+        // 
+        // 'mv -T' is only supported by GNU coreutils, so
+        // replace the link directly on other systems (BSD, macOS, ...),
+        // which is NOT atomic
+        let tempLink = releases.current + '.' + Path.basename(releaseDir);
+
+        await executeCommand(ctx, `ln -sfn ${toShellArg(releaseDir)} ${toShellArg(tempLink)} && ` +
+                                  `{ mv -Tf ${toShellArg(tempLink)} ${toShellArg(releases.current)} 2>/dev/null || ` +
+                                  `{ ln -sfn ${toShellArg(releaseDir)} ${toShellArg(releases.current)} && rm -f ${toShellArg(tempLink)}; }; }`);
+
+        me.context.outputChannel().appendLine(i18.t('plugins.sftp.releaseActivated',
+                                                    Path.basename(releaseDir)));
+    }
+
     protected applyExecActionsToWorkflow(eventName: string,
                                          ctx: SFTPContext,
                                          wf: Workflows.Workflow,
@@ -296,11 +397,37 @@ class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext>
     public get canGetFileInfo(): boolean {
         return true;
     }
+
+    public get canList(): boolean {
+        return true;
+    }
     
     public get canPull(): boolean {
         return true;
     }
 
+    public get canRemove(): boolean {
+        return true;
+    }
+
+    public get canRollbackRelease(): boolean {
+        return true;
+    }
+
+    protected async cleanupReleases(ctx: SFTPContext, releases: SFTPReleases) {
+        let me = this;
+
+        let activeRelease = await me.getActiveRelease(ctx, releases);
+
+        let names = await me.listReleases(ctx, releases);
+        let namesToRemove = names.slice(0, Math.max(0, names.length - releases.keep))
+                                 .filter(x => x !== activeRelease);
+
+        for (let i = 0; i < namesToRemove.length; i++) {
+            await me.removeRelease(ctx, toSFTPPath(Path.join(releases.dir, namesToRemove[i])));
+        }
+    }
+
     protected createContext(target: DeployTargetSFTP,
                             files: string[],
                             opts: deploy_contracts.DeployFileOptions): Promise<deploy_objects.DeployPluginContextWrapper<SFTPContext>> {
@@ -1017,6 +1144,114 @@ class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext>
         }
     }
 
+    public deployWorkspace(files: string[], target: DeployTargetSFTP, opts?: deploy_contracts.DeployWorkspaceOptions) {
+        if (!opts) {
+            opts = {};
+        }
+
+        let me = this;
+
+        let releases = me.getReleases(target);
+        if (!releases || deploy_helpers.toBooleanSafe(opts.dryRun) || deploy_helpers.toBooleanSafe(opts.restore)) {
+            super.deployWorkspace(files, target, opts);
+            return;
+        }
+
+        let releaseDir = toSFTPPath(Path.join(releases.dir,
+                                              createReleaseName()));
+
+        // upload into a new release directory, which
+        // starts as a copy of the active release, so
+        // a partial list of files does not remove the others
+        let releaseTarget: DeployTargetSFTP = deploy_helpers.cloneObject(target);
+        releaseTarget.dir = releaseDir;
+        delete releaseTarget.releases;
+
+        let hasFailed = false;
+        let completed = (err?: any, canceled?: boolean) => {
+            if (opts.onCompleted) {
+                opts.onCompleted(me, {
+                    canceled: canceled,
+                    error: err,
+                    target: target,
+                });
+            }
+        };
+
+        let finishRelease = async (keepRelease: boolean) => {
+            await me.executeWithContext(target, async (ctx) => {
+                if (keepRelease) {
+                    await me.activateRelease(ctx, releases, releaseDir);
+                    await me.cleanupReleases(ctx, releases);
+                }
+                else {
+                    // "current" still points to the old release
+                    await me.removeRelease(ctx, releaseDir);
+                }
+            });
+        };
+
+        let deployRelease = () => {
+            super.deployWorkspace(files, releaseTarget, {
+                baseDirectory: opts.baseDirectory,
+                context: opts.context,
+                incremental: false,
+                // remove the files from the copy
+                mirror: opts.mirror,
+
+                onBeforeDeployFile: (sender, e) => {
+                    if (opts.onBeforeDeployFile) {
+                        opts.onBeforeDeployFile(sender, {
+                            destination: e.destination,
+                            file: e.file,
+                            target: target,
+                        });
+                    }
+                },
+
+                onCompleted: (sender, e) => {
+                    let keepRelease = !e.error && !e.canceled && !hasFailed;
+
+                    finishRelease(keepRelease).then(() => {
+                        completed(e.error, e.canceled);
+                    }).catch((err) => {
+                        if (keepRelease) {
+                            completed(err);  // could not activate release
+                        }
+                        else {
+                            me.context.log(i18.t('errors.withCategory',
+                                                 'SFtpPlugin.deployWorkspace(1)', err));
+
+                            completed(e.error, e.canceled);
+                        }
+                    });
+                },
+
+                onFileCompleted: (sender, e) => {
+                    hasFailed = hasFailed || !deploy_helpers.isNullOrUndefined(e.error);
+
+                    if (opts.onFileCompleted) {
+                        opts.onFileCompleted(sender, {
+                            canceled: e.canceled,
+                            error: e.error,
+                            file: e.file,
+                            retries: e.retries,
+                            target: target,
+                        });
+                    }
+                },
+            });
+        };
+
+        me.executeWithContext(target, async (ctx) => {
+            await me.prepareRelease(ctx, releases, releaseDir);
+        }).then(() => {
+            deployRelease();
+        }).catch((err) => {
+            completed(err);  // could not create release
+        });
+    }
+
     protected downloadFileWithContext(ctx: SFTPContext,
                                       file: string, target: DeployTargetSFTP, opts?: deploy_contracts.DeployFileOptions): Promise<Buffer> {
         let me = this;
@@ -1166,13 +1401,40 @@ class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext>
         });
     }
 
+    protected async executeWithContext<TResult>(target: DeployTargetSFTP,
+                                                action: (ctx: SFTPContext) => Promise<TResult>): Promise<TResult> {
+        let me = this;
+
+        let wrapper = await me.createContext(target, [], {});
+        try {
+            if (!wrapper.context.hasCancelled) {
+                return await action(wrapper.context);
+            }
+        }
+        finally {
+            await me.destroyContext(wrapper);
+        }
+    }
+
+    protected async getActiveRelease(ctx: SFTPContext, releases: SFTPReleases): Promise<string> {
+        let link: string;
+        try {
+            link = await executeCommand(ctx, `readlink ${toShellArg(releases.current)}`);
+        }
+        catch (e) {
+            return '';  // no active release yet
+        }
+
+        return Path.basename(deploy_helpers.toStringSafe(link).trim());
+    }
+
     protected getDirFromTarget(target: DeployTargetSFTP): string {
-        let dir = this.context.replaceWithValues(target.dir);
-        if (deploy_helpers.isEmptyString(dir)) {
-            dir = '/';
+        let releases = this.getReleases(target);
+        if (releases) {
+            return releases.current;  // the active release
         }
-    
-        return dir;
+
+        return this.getRootDirFromTarget(target);
     }
 
     protected async getFileInfoWithContext(ctx: SFTPContext,
@@ -1233,6 +1495,29 @@ class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext>
                         me.context.log(i18.t('errors.withCategory',
                                              'SFtpPlugin.getFileInfoWithContext(modifyTime)', e));
                     }
+
+                    // hash of the content
+                    // via '<algorithm>sum' command
+                    //
+                    // 'hashAlgorithm' and 'hashes' cannot be used here:
+                    // they verify the fingerprint of the host key
+                    // and running a command on the server is opt-in
+                    let fileHash = deploy_helpers.normalizeString(target.fileHash);
+                    if (FILE_HASH_ALGORITHMS.indexOf(fileHash) > -1) {
+                        try {
+                            let output = await executeCommand(ctx, `${fileHash}sum ${toShellArg(targetFile)}`);
+
+                            let hash = deploy_helpers.normalizeString(output.trim().split(' ')[0]);
+                            if (/^[0-9a-f]+$/.test(hash)) {
+                                info.hash = hash;
+                                info.hashAlgorithm = fileHash;
+                            }
+                        }
+                        catch (e) {
+                            me.context.log(i18.t('errors.withCategory',
+                                                 'SFtpPlugin.getFileInfoWithContext(fileHash)', e));
+                        }
+                    }
                 }
             }
             catch (e) {
@@ -1254,11 +1539,180 @@ class SFtpPlugin extends deploy_objects.DeployPluginWithContextBase<SFTPContext>
         }
     }
 
+    protected getReleases(target: DeployTargetSFTP): SFTPReleases {
+        let me = this;
+
+        let settings: SFTPReleaseSettings;
+        if ('object' === typeof target.releases) {
+            settings = target.releases;
+        }
+        else if (deploy_helpers.toBooleanSafe(target.releases)) {
+            settings = {};
+        }
+
+        if (!settings) {
+            return null;  // not enabled
+        }
+
+        let rootDir = me.getRootDirFromTarget(target);
+        let toFullPath = (path: string, defaultPath: string): string => {
+            path = me.context.replaceWithValues(path);
+            if (deploy_helpers.isEmptyString(path)) {
+                path = defaultPath;
+            }
+
+            if (!Path.isAbsolute(path)) {
+                path = Path.join(rootDir, path);
+            }
+
+            return toSFTPPath(path);
+        };
+
+        let keep = parseInt(deploy_helpers.toStringSafe(settings.keep).trim());
+        if (isNaN(keep) || keep < 1) {
+            keep = DEFAULT_RELEASES_TO_KEEP;
+        }
+
+        return {
+            current: toFullPath(settings.current, 'current'),
+            dir: toFullPath(settings.dir, 'releases'),
+            keep: keep,
+        };
+    }
+
+    protected getRootDirFromTarget(target: DeployTargetSFTP): string {
+        let dir = this.context.replaceWithValues(target.dir);
+        if (deploy_helpers.isEmptyString(dir)) {
+            dir = '/';
+        }
+    
+        return dir;
+    }
+
     public info(): deploy_contracts.DeployPluginInfo {
         return {
             description: i18.t('plugins.sftp.description'),
         };
     }
+
+    protected async listDirectoryWithContext(ctx: SFTPContext,
+                                             dir: string, target: DeployTargetSFTP, opts: deploy_contracts.DeployFileOptions): Promise<deploy_contracts.DirectoryEntry[]> {
+        let me = this;
+
+        let relativeDirPath = deploy_helpers.toRelativeTargetPathWithValues(dir, target, me.context.values(), opts.baseDirectory);
+        if (false === relativeDirPath) {
+            throw new Error(i18.t('relativePaths.couldNotResolve', dir));
+        }
+
+        let targetDirectory = toSFTPPath(Path.join(me.getDirFromTarget(target), relativeDirPath));
+
+        let files: any[] = await ctx.connection.list(targetDirectory);
+
+        return (files || []).filter(f => {
+            return f && '.' !== f.name && '..' !== f.name;
+        }).map(f => {
+            let entry: deploy_contracts.DirectoryEntry = {
+                exists: true,
+                isDirectory: 'd' === f.type,
+                isRemote: true,
+                name: f.name,
+                path: targetDirectory,
+                size: f.size,
+            };
+
+            if (!isNaN(f.modifyTime)) {
+                entry.modifyTime = Moment(new Date(f.modifyTime));
+            }
+
+            return entry;
+        });
+    }
+
+    protected async listReleases(ctx: SFTPContext, releases: SFTPReleases): Promise<string[]> {
+        let entries: any[];
+        try {
+            entries = await ctx.connection.list(releases.dir);
+        }
+        catch (e) {
+            return [];  // no releases yet
+        }
+
+        return deploy_helpers.asArray(entries).filter(x => 'd' === x.type)
+                                              .map(x => deploy_helpers.toStringSafe(x.name))
+                                              .sort();
+    }
+
+    protected async prepareRelease(ctx: SFTPContext, releases: SFTPReleases, releaseDir: string) {
+        let me = this;
+
+        try {
+            await executeCommand(ctx, `mkdir -p ${toShellArg(releaseDir)} && ` +
+                                      `if [ -d ${toShellArg(releases.current)} ]; then ` +
+                                      `cp -a ${toShellArg(releases.current + '/.')} ${toShellArg(releaseDir + '/')}; fi`);
+        }
+        catch (e) {
+            try {
+                await me.removeRelease(ctx, releaseDir);
+            }
+            catch (err) {
+                me.context.log(i18.t('errors.withCategory',
+                                     'SFtpPlugin.prepareRelease(1)', err));
+            }
+
+            throw e;
+        }
+    }
+
+    protected async removeFileWithContext(ctx: SFTPContext,
+                                          file: string, target: DeployTargetSFTP, opts?: deploy_contracts.DeployFileOptions): Promise<any> {
+        let me = this;
+
+        let relativeFilePath = deploy_helpers.toRelativeTargetPathWithValues(file, target, me.context.values(), opts.baseDirectory);
+        if (false === relativeFilePath) {
+            throw new Error(i18.t('relativePaths.couldNotResolve', file));
+        }
+
+        let dir = me.getDirFromTarget(target);
+
+        let targetFile = toSFTPPath(Path.join(dir, relativeFilePath));
+
+        if (opts.onBeforeDeploy) {
+            opts.onBeforeDeploy(me, {
+                destination: toSFTPPath(Path.dirname(targetFile)),
+                file: file,
+                target: target,
+            });
+        }
+
+        await ctx.connection.delete(targetFile);
+    }
+
+    protected async removeRelease(ctx: SFTPContext, releaseDir: string) {
+        await executeCommand(ctx, `rm -rf ${toShellArg(releaseDir)}`);
+    }
+
+    public async rollbackRelease(target: DeployTargetSFTP): Promise<string> {
+        let me = this;
+
+        let releases = me.getReleases(target);
+        if (!releases) {
+            throw new Error(i18.t('plugins.sftp.releasesNotEnabled', target.name));
+        }
+
+        return await me.executeWithContext(target, async (ctx) => {
+            let names = await me.listReleases(ctx, releases);
+            let index = names.indexOf(await me.getActiveRelease(ctx, releases));
+            if (index < 1) {
+                throw new Error(i18.t('plugins.sftp.noPreviousRelease', target.name));
+            }
+
+            let previousRelease = names[index - 1];
+            await me.activateRelease(ctx, releases,
+                                     toSFTPPath(Path.join(releases.dir, previousRelease)));
+
+            return previousRelease;
+        });
+    }
 }
 
 /**
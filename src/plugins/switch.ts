@@ -180,6 +180,10 @@ class SwitchPlugin extends deploy_objects.MultiFileDeployPluginBase {
                         p.deployWorkspace(files, t, {
                             baseDirectory: opts.baseDirectory,
                             context: opts.context || ME.context,
+                            dryRun: opts.dryRun,
+                            incremental: opts.incremental,
+                            mirror: opts.mirror,
+                            restore: opts.restore,
                             onBeforeDeployFile: (sender, e) => {
                                 if (opts.onBeforeDeployFile) {
                                     opts.onBeforeDeployFile(ME, {
@@ -189,6 +193,7 @@ class SwitchPlugin extends deploy_objects.MultiFileDeployPluginBase {
                                     });
                                 }
                             },
+                            onBeforeRemoveFile: opts.onBeforeRemoveFile,
                             onCompleted: (sender, e) => {
                                 COMPLETED(e.error);
                             },
@@ -0,0 +1,203 @@
+/// <reference types="node" />
+
+// The MIT License (MIT)
+// 
+// vs-deploy (https://github.com/mkloubert/vs-deploy)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// 
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+// 
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+
+import * as deploy_contracts from './contracts';
+import * as deploy_helpers from './helpers';
+import * as Moment from 'moment';
+import * as Path from 'path';
+import * as UUID from 'uuid';
+import * as vscode from 'vscode';
+
+
+/**
+ * A (resumable) deployment session.
+ */
+export interface DeploymentSession {
+    /**
+     * The list of files, which have been deployed successfully.
+     */
+    completed: string[];
+    /**
+     * The list of all files to deploy.
+     */
+    files: string[];
+    /**
+     * The ID of the session.
+     */
+    id: string;
+    /**
+     * The start time (ISO string / UTC).
+     */
+    startTime: string;
+    /**
+     * The name of the target.
+     */
+    target: string;
+    /**
+     * The type of the target.
+     */
+    type: string;
+}
+
+const KEY_LAST_DEPLOYMENT = 'vsdLastDeployment';
+/**
+ * The time (in milliseconds) to wait, before the progress of a session is written.
+ */
+const SAVE_DELAY = 2000;
+
+let pendingSaves: { [id: string]: NodeJS.Timer } = {};
+
+
+function cancelPendingSave(session: DeploymentSession) {
+    if (!session) {
+        return;
+    }
+
+    let timer = pendingSaves[session.id];
+    if (timer) {
+        clearTimeout(timer);
+    }
+
+    delete pendingSaves[session.id];
+}
+
+/**
+ * Finishes a session, which means that it is not resumable anymore.
+ * 
+ * @param {vscode.Memento} state The workspace state.
+ * @param {DeploymentSession} session The session.
+ * 
+ * @return {Thenable<void>} The promise.
+ */
+export function finishSession(state: vscode.Memento, session: DeploymentSession): Thenable<void> {
+    cancelPendingSave(session);
+
+    let lastSession = getLastSession(state);
+    if (lastSession && session && lastSession.id === session.id) {
+        return state.update(KEY_LAST_DEPLOYMENT, undefined);
+    }
+
+    return Promise.resolve();
+}
+
+/**
+ * Writes the progress of a session, which has not been written yet.
+ * 
+ * @param {vscode.Memento} state The workspace state.
+ * @param {DeploymentSession} session The session.
+ * 
+ * @return {Thenable<void>} The promise.
+ */
+export function flushSession(state: vscode.Memento, session: DeploymentSession): Thenable<void> {
+    if (session && pendingSaves[session.id]) {
+        cancelPendingSave(session);
+
+        let lastSession = getLastSession(state);
+        if (lastSession && lastSession.id === session.id) {
+            return state.update(KEY_LAST_DEPLOYMENT, session);
+        }
+    }
+
+    return Promise.resolve();
+}
+
+/**
+ * Returns the last session, which has not been finished.
+ * 
+ * @param {vscode.Memento} state The workspace state.
+ * 
+ * @return {DeploymentSession} The session (if available).
+ */
+export function getLastSession(state: vscode.Memento): DeploymentSession {
+    return state.get<DeploymentSession>(KEY_LAST_DEPLOYMENT);
+}
+
+/**
+ * Returns the files of a session, which have not been deployed yet.
+ * 
+ * @param {DeploymentSession} session The session.
+ * 
+ * @return {string[]} The files.
+ */
+export function getRemainingFiles(session: DeploymentSession): string[] {
+    let completed: { [file: string]: boolean } = {};
+    deploy_helpers.asArray(session.completed).filter(f => !deploy_helpers.isEmptyString(f)).forEach(f => {
+        completed[Path.resolve(f)] = true;
+    });
+
+    return deploy_helpers.asArray(session.files).filter(f => !deploy_helpers.isEmptyString(f)).filter(f => {
+        return true !== completed[Path.resolve(f)];
+    });
+}
+
+/**
+ * Marks a file of a session as deployed.
+ * 
+ * The progress is written delayed, so call flushSession() or finishSession()
+ * when the deployment has been finished.
+ * 
+ * @param {vscode.Memento} state The workspace state.
+ * @param {DeploymentSession} session The session.
+ * @param {string} file The file.
+ */
+export function markAsCompleted(state: vscode.Memento, session: DeploymentSession, file: string) {
+    session.completed.push(file);
+
+    if (pendingSaves[session.id]) {
+        return;  // already scheduled
+    }
+
+    pendingSaves[session.id] = setTimeout(() => {
+        flushSession(state, session);
+    }, SAVE_DELAY);
+}
+
+/**
+ * Starts a new session and stores it as the last one.
+ * 
+ * @param {vscode.Memento} state The workspace state.
+ * @param {string[]} files The files to deploy.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * 
+ * @return {DeploymentSession} The new session.
+ */
+export function startSession(state: vscode.Memento,
+                             files: string[], target: deploy_contracts.DeployTarget): DeploymentSession {
+    let id = deploy_helpers.replaceAllStrings(deploy_helpers.toStringSafe(UUID.v4()), '-', '');
+
+    let session: DeploymentSession = {
+        completed: [],
+        files: files.map(f => Path.resolve(f)),
+        id: `${Moment().utc().format('YYYYMMDDHHmmss')}-${id}`,
+        startTime: Moment().utc().toISOString(),
+        target: deploy_helpers.toStringSafe(target.name),
+        type: deploy_helpers.parseTargetType(target.type),
+    };
+
+    state.update(KEY_LAST_DEPLOYMENT, session);
+
+    return session;
+}
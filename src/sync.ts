@@ -23,7 +23,11 @@
 // FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
 
 import * as deploy_contracts from './contracts';
+import * as deploy_diff from './diff';
+import * as deploy_explorer from './explorer';
+import * as deploy_globals from './globals';
 import * as deploy_helpers from './helpers';
+import * as deploy_objects from './objects';
 import * as deploy_targets from './targets';
 import * as FS from 'fs';
 import * as i18 from './i18';
@@ -39,10 +43,360 @@ interface PackageWithSyncFilter {
     package: deploy_contracts.DeployPackage;
 }
 
+/**
+ * The last synchronized state of a file.
+ */
+export interface SyncFileState {
+    /**
+     * The version of the local file.
+     */
+    local: SyncFileVersion;
+    /**
+     * The version of the remote file.
+     */
+    remote: SyncFileVersion;
+}
+
+/**
+ * A version of a (local or remote) file.
+ */
+export interface SyncFileVersion {
+    /**
+     * The hash of the content, if provided by the target.
+     */
+    hash?: string;
+    /**
+     * The modification time (Unix timestamp in milliseconds).
+     */
+    modifyTime?: number;
+    /**
+     * The size.
+     */
+    size?: number;
+}
+
+/**
+ * The result of a two-way synchronization.
+ */
+export interface SyncResult {
+    /**
+     * The files that have been changed on both sides.
+     */
+    conflicts: string[];
+    /**
+     * The files that have been pulled.
+     */
+    pulled: string[];
+    /**
+     * The files that have been deployed.
+     */
+    pushed: string[];
+    /**
+     * The files that have been skipped, because they have been deleted on one side.
+     */
+    skipped: string[];
+}
+
+/**
+ * Stores the synchronized states of files, grouped by package and target.
+ */
+type SyncStates = { [packageAndTarget: string]: SyncStatesOfFiles };
+
+/**
+ * Stores the synchronized states by relative file path.
+ */
+type SyncStatesOfFiles = { [file: string]: SyncFileState };
+
+const KEY_SYNC_STATES = 'vsdSyncStates';
+
+
+function getSyncStateKey(pkg: deploy_contracts.DeployPackage, target: deploy_contracts.DeployTarget): string {
+    return `${deploy_helpers.normalizeString(pkg.name)}\n${deploy_helpers.normalizeString(target.name)}`;
+}
+
+/**
+ * Checks if a file has been changed since its last synchronized version.
+ * 
+ * @param {SyncFileVersion} version The last synchronized version (if available).
+ * @param {deploy_contracts.FileInfo} info The current information about the file.
+ * 
+ * @return {boolean} Has been changed or not.
+ */
+export function hasChanged(version: SyncFileVersion, info: deploy_contracts.FileInfo): boolean {
+    if (!version || !info || !info.exists) {
+        return true;
+    }
+
+    let current = toSyncFileVersion(info);
+
+    if (current.hash && version.hash) {
+        // compare content instead of time
+        return current.hash !== version.hash;
+    }
+
+    return current.size !== version.size ||
+           current.modifyTime !== version.modifyTime;
+}
+
 function normalizeFilePath(file: string): string {
     return deploy_helpers.replaceAllStrings(file, Path.sep, '/');
 }
 
+/**
+ * Resolves a conflict by letting the user merge the local file
+ * with its remote version.
+ * 
+ * @param {string} file The path of the local file.
+ * @param {deploy_contracts.DeployTarget} target The target.
+ * 
+ * @return {Promise<'local'|'remote'>} The promise with the selected version or (undefined) if skipped.
+ */
+function mergeFile(file: string, target: deploy_contracts.DeployTarget): Promise<'local' | 'remote'> {
+    let relativePath = deploy_helpers.toRelativePath(file);
+    if (false === relativePath) {
+        relativePath = file;
+    }
+
+    let targetName = deploy_helpers.toStringSafe(target.name).trim();
+
+    return new Promise<'local' | 'remote'>((resolve, reject) => {
+        try {
+            vscode.commands.executeCommand('vscode.diff',
+                                           deploy_explorer.toRemoteUri(file, target), vscode.Uri.file(file),
+                                           `[vs-deploy] Merge '${relativePath}' (${targetName})`).then(() => {
+                // [BUTTON] use local (merged) version
+                let localBtn: deploy_contracts.PopupButton = new deploy_objects.SimplePopupButton();
+                localBtn.action = () => {
+                    resolve('local');
+                };
+                localBtn.title = i18.t('sync.workspace.useLocal');
+
+                // [BUTTON] use remote version
+                let remoteBtn: deploy_contracts.PopupButton = new deploy_objects.SimplePopupButton();
+                remoteBtn.action = () => {
+                    resolve('remote');
+                };
+                remoteBtn.title = i18.t('sync.workspace.useRemote');
+
+                let args = [ i18.t('sync.workspace.conflict', relativePath, targetName),
+                             localBtn, remoteBtn ];
+
+                vscode.window.showWarningMessage.apply(null, args).then((btn: deploy_contracts.PopupButton) => {
+                    try {
+                        if (btn) {
+                            btn.action();
+                        }
+                        else {
+                            resolve();  // skipped
+                        }
+                    }
+                    catch (e) {
+                        reject(e);
+                    }
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+async function saveDocumentOf(file: string) {
+    let doc = vscode.workspace.textDocuments.filter(d => {
+        return !d.isUntitled &&
+               Path.resolve(d.fileName) === Path.resolve(file);
+    })[0];
+
+    if (doc && doc.isDirty) {
+        await doc.save();
+    }
+}
+
+/**
+ * Synchronizes the files of a package with a target in both directions.
+ * 
+ * @param {deploy_contracts.DeployPackage} pkg The package.
+ * @param {deploy_contracts.DeployTarget} target The target. 
+ * @param {deploy_contracts.DeployPlugin} plugin The plugin.
+ * 
+ * @returns {Promise<SyncResult>} The promise with the result.
+ */
+export async function synchronizeWorkspace(pkg: deploy_contracts.DeployPackage,
+                                           target: deploy_contracts.DeployTarget, plugin: deploy_contracts.DeployPlugin): Promise<SyncResult> {
+    let me: vs_deploy.Deployer = this;
+
+    let state = me.context.workspaceState;
+    let key = getSyncStateKey(pkg, target);
+
+    let allStates: SyncStates = deploy_helpers.cloneObject(state.get<SyncStates>(KEY_SYNC_STATES)) || {};
+    let states: SyncStatesOfFiles = allStates[key] || {};
+
+    let files = deploy_helpers.getFilesOfPackage(pkg,
+                                                 me.useGitIgnoreStylePatternsInFilter(pkg));
+
+    let differences = await deploy_diff.checkFiles(files, target, plugin);
+    if (!Array.isArray(differences)) {
+        throw new Error(i18.t('sync.workspace.notSupported', target.name));
+    }
+
+    let entries: deploy_diff.CompareEntry[] = differences.map((d, i) => {
+        return {
+            file: files[i],
+            group: undefined,
+            left: d.left,
+            right: d.right,
+        };
+    }).concat(await deploy_diff.findRemoteOnlyFiles.apply(me,
+                                                         [ files, pkg, target, plugin ]));
+
+    let result: SyncResult = {
+        conflicts: [],
+        pulled: [],
+        pushed: [],
+        skipped: [],
+    };
+
+    let toPull: string[] = [];
+    let toPush: string[] = [];
+    let unchanged: string[] = [];  // same content on both sides
+
+    for (let e of entries) {
+        let relativePath = deploy_helpers.toRelativePath(e.file);
+        if (false === relativePath) {
+            continue;
+        }
+
+        let localExists = !!e.left && e.left.exists;
+        let remoteExists = !!e.right && e.right.exists;
+
+        let lastState = states[relativePath];
+        if (!lastState) {
+            // not synchronized yet
+
+            if (localExists && remoteExists) {
+                if (await deploy_diff.hasSameContent(e.file, target, plugin, e.right)) {
+                    unchanged.push(e.file);
+                }
+                else {
+                    result.conflicts.push(e.file);
+                }
+            }
+            else if (localExists) {
+                toPush.push(e.file);
+            }
+            else if (remoteExists) {
+                toPull.push(e.file);
+            }
+
+            continue;
+        }
+
+        if (!localExists || !remoteExists) {
+            // deleted on one side
+            result.skipped.push(e.file);
+            continue;
+        }
+
+        let localChanged = hasChanged(lastState.local, e.left);
+        let remoteChanged = hasChanged(lastState.remote, e.right);
+
+        if (localChanged && remoteChanged) {
+            if (await deploy_diff.hasSameContent(e.file, target, plugin, e.right)) {
+                unchanged.push(e.file);
+            }
+            else {
+                result.conflicts.push(e.file);
+            }
+        }
+        else if (localChanged) {
+            toPush.push(e.file);
+        }
+        else if (remoteChanged) {
+            toPull.push(e.file);
+        }
+    }
+
+    // collect the files, which have been
+    // deployed or pulled successfully
+    let succeeded: string[] = [];
+    let fileCompletedListener = (e: deploy_contracts.FileCompletedEventArguments) => {
+        if (e.target === target && !e.error && !e.canceled) {
+            succeeded.push(Path.resolve(e.file));
+        }
+    };
+
+    let wasSucceeded = (f: string) => succeeded.indexOf(Path.resolve(f)) > -1;
+
+    deploy_globals.EVENTS.on(deploy_contracts.EVENT_FILE_COMPLETED,
+                             fileCompletedListener);
+    try {
+        // no package here, so the partial lists
+        // of files never remove anything on the target
+        if (toPush.length > 0) {
+            await me.deployWorkspaceTo(toPush, target);
+        }
+
+        if (toPull.length > 0) {
+            await me.pullWorkspaceFrom(toPull, target);
+        }
+
+        // conflicts
+        for (let f of result.conflicts) {
+            let version = await mergeFile(f, target);
+            if ('local' === version) {
+                await saveDocumentOf(f);
+
+                await me.deployWorkspaceTo([ f ], target);
+                toPush.push(f);
+            }
+            else if ('remote' === version) {
+                await me.pullWorkspaceFrom([ f ], target);
+                toPull.push(f);
+            }
+        }
+    }
+    finally {
+        deploy_globals.EVENTS.removeListener(deploy_contracts.EVENT_FILE_COMPLETED,
+                                             fileCompletedListener);
+    }
+
+    result.pushed = toPush.filter(f => wasSucceeded(f));
+    result.pulled = toPull.filter(f => wasSucceeded(f));
+    result.conflicts = result.conflicts.filter(f => !wasSucceeded(f));
+
+    // update states
+    let syncedFiles = unchanged.concat(result.pushed)
+                               .concat(result.pulled);
+    if (syncedFiles.length > 0) {
+        let syncedDifferences = await deploy_diff.checkFiles(syncedFiles, target, plugin);
+        if (Array.isArray(syncedDifferences)) {
+            syncedDifferences.forEach((d, i) => {
+                let relativePath = deploy_helpers.toRelativePath(syncedFiles[i]);
+                if (false === relativePath) {
+                    return;
+                }
+
+                if (d.left && d.left.exists && d.right && d.right.exists) {
+                    states[relativePath] = {
+                        local: toSyncFileVersion(d.left),
+                        remote: toSyncFileVersion(d.right),
+                    };
+                }
+            });
+        }
+    }
+
+    allStates[key] = states;
+    await state.update(KEY_SYNC_STATES, allStates);
+
+    return result;
+}
+
 /**
  * Synchronizes a document after it has been opened.
  * 
@@ -241,7 +595,7 @@ export function syncFileWhenOpen(file: string): Promise<any> {
                                         }
 
                                         // get info of remote file
-                                        Promise.resolve( pi.getFileInfo(file, targetWithPlugin.target) ).then((fi) => {
+                                        Promise.resolve( pi.getFileInfo(file, targetWithPlugin.target) ).then(async (fi) => {
                                             if (fi) {
                                                 if (fi.exists) {
                                                     try {
@@ -251,6 +605,15 @@ export function syncFileWhenOpen(file: string): Promise<any> {
                                                             remoteFileIsNewer = fi.modifyTime.isAfter(fileStats.mtime);
                                                         }
 
+                                                        if (remoteFileIsNewer && !syncCompletedInvoked) {
+                                                            // do not trust timestamps
+                                                            // if content is the same
+                                                            if (await deploy_diff.compareByHash(file, fi, targetWithPlugin.target)) {
+                                                                syncCompleted(null, i18.t('sync.file.sameContent'));
+                                                                return;
+                                                            }
+                                                        }
+
                                                         if (remoteFileIsNewer) {
                                                             // sync local with remote file ...
 
@@ -312,3 +675,16 @@ export function syncFileWhenOpen(file: string): Promise<any> {
         }
     });
 }
+
+function toSyncFileVersion(info: deploy_contracts.FileInfo): SyncFileVersion {
+    let hash = deploy_helpers.normalizeString(info.hash);
+    if ('' !== hash) {
+        hash = `${deploy_helpers.normalizeString(info.hashAlgorithm)}:${hash}`;
+    }
+
+    return {
+        hash: '' !== hash ? hash : undefined,
+        modifyTime: info.modifyTime ? info.modifyTime.valueOf() : undefined,
+        size: isNaN(info.size) ? undefined : info.size,
+    };
+}
@@ -29,6 +29,22 @@ import * as vscode from 'vscode';
 
 let currentFolder: vscode.WorkspaceFolder | false = false;
 
+/**
+ * Returns the path of the directory inside the workspace,
+ * where the extension stores its data, like manifests.
+ * 
+ * @param {string[]} [subDirs] Optional sub directories.
+ * 
+ * @return {string} The path.
+ */
+export function getDataPath(...subDirs: string[]): string {
+    let rootPath = getRootPath();
+    if ('undefined' !== typeof rootPath) {
+        return Path.join.apply(null,
+                               [ rootPath, '.vscode', 'vs-deploy' ].concat(subDirs || []));
+    }
+}
+
 /**
  * Returns the root path of the selected workspace folder.
  * 
@@ -71,6 +87,26 @@ export function getRootPath() {
     }
 }
 
+/**
+ * Checks if a file or folder is stored inside the data directory
+ * of the extension (s. getDataPath()).
+ * 
+ * @param {string} fileOrDir The path of the file or folder.
+ * 
+ * @return {boolean} Is data file or not.
+ */
+export function isDataFile(fileOrDir: string): boolean {
+    let dataPath = getDataPath();
+    if ('undefined' === typeof dataPath) {
+        return false;
+    }
+
+    let relativePath = Path.relative(dataPath, Path.resolve(fileOrDir));
+
+    return '' === relativePath ||
+           (0 !== relativePath.indexOf('..') && !Path.isAbsolute(relativePath));
+}
+
 /**
  * Resets the selected workspace folder.
  */
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import * as deploy_api from '../src/api';
+import * as deploy_workspace from '../src/workspace';
+import * as Path from 'path';
+
+
+suite("API Tests", () => {
+
+    test("toWorkspaceFile()", () => {
+        let rootPath = Path.resolve(deploy_workspace.getRootPath());
+
+        assert.equal(Path.join(rootPath, 'a.txt'), deploy_api.toWorkspaceFile('a.txt'));
+        assert.equal(Path.join(rootPath, 'a.txt'), deploy_api.toWorkspaceFile('sub/../a.txt'));
+        assert.equal(Path.join(rootPath, 'sub', 'a.txt'), deploy_api.toWorkspaceFile(Path.join(rootPath, 'sub', 'a.txt')));
+
+        // the workspace itself
+        assert.strictEqual(false, deploy_api.toWorkspaceFile(''));
+        assert.strictEqual(false, deploy_api.toWorkspaceFile(rootPath));
+
+        // outside of the workspace
+        assert.strictEqual(false, deploy_api.toWorkspaceFile('../a.txt'));
+        assert.strictEqual(false, deploy_api.toWorkspaceFile('sub/../../a.txt'));
+        assert.strictEqual(false, deploy_api.toWorkspaceFile(Path.resolve(rootPath, '..', 'a.txt')));
+        assert.strictEqual(false, deploy_api.toWorkspaceFile(rootPath + '-other/a.txt'));
+    });
+
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as deploy_backup from '../src/backup';
+import * as FSExtra from 'fs-extra';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+function createDeployer(storagePath: string): any {
+    return {
+        context: {
+            storagePath: storagePath,
+        },
+    };
+}
+
+function writeBackup(storagePath: string, backup: deploy_backup.Backup) {
+    FSExtra.outputFileSync(Path.join(storagePath, 'backups', backup.id, 'backup.json'),
+                           JSON.stringify(backup));
+}
+
+suite("Backup Tests", () => {
+
+    test("createId()", () => {
+        let ids: string[] = [];
+        for (let i = 0; i < 100; i++) {
+            ids.push(deploy_backup.createId());
+        }
+
+        ids.forEach(id => {
+            assert.ok(/^([0-9]{17})(\-)([0-9a-f]{8})$/.test(id), id);
+        });
+
+        // unique, even if created at the same time
+        assert.equal(ids.length,
+                     ids.filter((id, i) => ids.indexOf(id) === i).length);
+    });
+
+    test("getLastBackups()", () => {
+        let storagePath = Path.join(OS.tmpdir(), 'vs-deploy-test-' + deploy_backup.createId());
+        let deployer = createDeployer(storagePath);
+
+        try {
+            assert.deepEqual([], deploy_backup.getLastBackups.apply(deployer, []));
+
+            // older backup without deployment ID
+            writeBackup(storagePath, {
+                files: [],
+                id: '20170101000000000',
+                target: 'A',
+                time: '2017-01-01T00:00:00.000Z',
+                type: 'test',
+            });
+
+            assert.deepEqual([ '20170101000000000' ],
+                             deploy_backup.getLastBackups.apply(deployer, []).map((x: deploy_backup.Backup) => x.id));
+
+            // one deployment to two targets
+            [ 'A', 'B' ].forEach((t, i) => {
+                writeBackup(storagePath, {
+                    deployment: '20170102000000000-00000000',
+                    files: [],
+                    id: `2017010200000000${i}-0000000${i}`,
+                    target: t,
+                    time: '2017-01-02T00:00:00.000Z',
+                    type: 'test',
+                });
+            });
+
+            let backups: deploy_backup.Backup[] = deploy_backup.getLastBackups.apply(deployer, []);
+            assert.deepEqual([ 'A', 'B' ], backups.map(x => x.target));
+        }
+        finally {
+            FSExtra.removeSync(storagePath);
+        }
+    });
+
+});
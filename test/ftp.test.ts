@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as deploy_ftp from '../src/plugins/ftp';
+import * as Moment from 'moment';
+
+
+suite("FTP Tests", () => {
+
+    test("parseMLSxEntry()", () => {
+        let entry = deploy_ftp.parseMLSxEntry('Type=file;Size=123;Modify=20171001120000; my file.txt');
+
+        assert.equal('my file.txt', entry.name);
+        assert.equal('file', entry.facts['type']);
+        assert.equal('123', entry.facts['size']);
+        assert.equal('20171001120000', entry.facts['modify']);
+
+        assert.equal(null, deploy_ftp.parseMLSxEntry('type=file;size=123;'));
+    });
+
+    test("getTimeZoneOffset()", () => {
+        let getOffset = (timeZoneOffset: any) => {
+            return deploy_ftp.getTimeZoneOffset(<any>{ timeZoneOffset: timeZoneOffset });
+        };
+
+        assert.equal(false, getOffset(undefined));
+        assert.equal('+02:00', getOffset(2));
+        assert.equal('+00:15', getOffset('0.25'));
+        assert.equal('-05:30', getOffset('-5.5'));
+        assert.equal('+02:00', getOffset(' +02:00 '));
+
+        let time = Moment.utc('2017-10-01T12:00:00Z').utcOffset(<string>getOffset('0.25'), true);
+        assert.equal('2017-10-01T11:45:00.000Z', time.toISOString());
+    });
+
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as Crypto from 'crypto';
+import * as deploy_helpers from '../src/helpers';
+import * as FS from 'fs';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+suite("Helpers Tests", () => {
+
+    let tempFile: string;
+
+    setup(() => {
+        tempFile = Path.join(OS.tmpdir(), `vs-deploy-test-${process.pid}.bin`);
+    });
+
+    teardown(() => {
+        if (FS.existsSync(tempFile)) {
+            FS.unlinkSync(tempFile);
+        }
+    });
+
+    let sha256 = (data: Buffer) => Crypto.createHash('sha256').update(data).digest();
+
+    test("hashFile() with default algorithm", async () => {
+        FS.writeFileSync(tempFile, 'vs-deploy');
+
+        assert.equal(sha256(new Buffer('vs-deploy')).toString('hex'),
+                     await deploy_helpers.hashFile(tempFile));
+    });
+
+    test("hashFile() with Dropbox content hash", async () => {
+        const BLOCK_SIZE = 4 * 1024 * 1024;
+
+        // empty file => no blocks
+        FS.writeFileSync(tempFile, Buffer.alloc(0));
+        assert.equal(sha256(Buffer.alloc(0)).toString('hex'),
+                     await deploy_helpers.hashFile(tempFile, 'dropbox'));
+
+        // two blocks, the second one is not complete
+        let data = Buffer.alloc(BLOCK_SIZE + 10, 'x');
+        FS.writeFileSync(tempFile, data);
+
+        let expected = sha256(Buffer.concat([
+            sha256(data.slice(0, BLOCK_SIZE)),
+            sha256(data.slice(BLOCK_SIZE)),
+        ])).toString('hex');
+        assert.equal(expected, await deploy_helpers.hashFile(tempFile, 'dropbox'));
+    });
+
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as Crypto from 'crypto';
+import * as deploy_host from '../src/host';
+import * as deploy_remote from '../src/plugins/remote';
+import * as FS from 'fs';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+suite("Host Tests", () => {
+
+    const DIR = Path.resolve('/srv/host');
+
+    test("isInDirectory()", () => {
+        assert.equal(true, deploy_host.isInDirectory(Path.join(DIR, 'a.txt'), DIR));
+        assert.equal(true, deploy_host.isInDirectory(Path.join(DIR, 'sub', 'a.txt'), DIR));
+        assert.equal(true, deploy_host.isInDirectory(Path.join(DIR, '..a.txt'), DIR));
+
+        assert.equal(false, deploy_host.isInDirectory(DIR, DIR));
+        assert.equal(false, deploy_host.isInDirectory(Path.resolve('/srv/host2/a.txt'), DIR));
+        assert.equal(false, deploy_host.isInDirectory(Path.resolve('/srv/a.txt'), DIR));
+    });
+
+    test("checkClientAccess() by directories", () => {
+        let client = {
+            dirs: [ 'public' ],
+            name: 'client',
+        };
+
+        assert.strictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/public/a.txt' }, DIR));
+        assert.strictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: 'public/sub/a.txt' }, DIR));
+
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/a.txt' }, DIR));
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/public2/a.txt' }, DIR));
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/public/../a.txt' }, DIR));
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess({ name: 'client' }, <any>{ name: '/../a.txt' }, DIR));
+    });
+
+    test("checkClientAccess() by size and patterns", () => {
+        let client = {
+            files: [ '/**/*.txt' ],
+            maxSize: 3,
+            name: 'client',
+        };
+
+        assert.strictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/a.txt', data: new Buffer('abc') }, DIR));
+        assert.strictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/sub/a.txt' }, DIR, 3));
+
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/a.txt', data: new Buffer('abcd') }, DIR));
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/a.txt' }, DIR, 4));
+        assert.notStrictEqual(undefined, deploy_host.checkClientAccess(client, <any>{ name: '/a.js' }, DIR, 1));
+    });
+
+    test("appendChunk() with chunks of readChunk()", async () => {
+        const CHUNK_SIZE = 3000;
+
+        let data = Crypto.randomBytes(10000);
+        let file = Path.join(OS.tmpdir(), 'vs-deploy-test-' + Crypto.randomBytes(8).toString('hex'));
+        FS.writeFileSync(file, data);
+
+        let host: any = new deploy_host.DeployHost(<any>{});
+        let chunkedFile: any = {
+            hash: Crypto.createHash('sha256'),
+            next: 1,
+            size: 0,
+        };
+
+        try {
+            for (let position = 0; position < data.length; position += CHUNK_SIZE) {
+                let chunk = await deploy_remote.readChunk(file, position, CHUNK_SIZE);
+                assert.equal(Math.min(CHUNK_SIZE, data.length - position), chunk.length);
+
+                await host.appendChunk(chunkedFile, chunk);
+            }
+
+            // behind the end of the file
+            assert.equal(0, (await deploy_remote.readChunk(file, data.length, CHUNK_SIZE)).length);
+
+            assert.equal(5, chunkedFile.next);
+            assert.equal(data.length, chunkedFile.size);
+            assert.ok(data.equals(FS.readFileSync(chunkedFile.tempFile)));
+            assert.equal(Crypto.createHash('sha256').update(data).digest('hex'),
+                         chunkedFile.hash.digest('hex'));
+        }
+        finally {
+            FS.unlinkSync(file);
+
+            if (chunkedFile.tempFile) {
+                FS.unlinkSync(chunkedFile.tempFile);
+            }
+        }
+    });
+
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as deploy_contracts from '../src/contracts';
+import * as deploy_objects from '../src/objects';
+import * as FS from 'fs';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+class TestPlugin extends deploy_objects.DeployPluginBase {
+    public cancelling = false;
+    public messages: string[] = [];
+
+    constructor() {
+        super(<any>{
+            isCancelling: () => this.cancelling,
+            outputChannel: () => {
+                return {
+                    appendLine: (msg: string) => this.messages.push(msg),
+                };
+            },
+        });
+    }
+
+    public deployFile(file: string, target: deploy_contracts.DeployTarget, opts?: deploy_contracts.DeployFileOptions) {
+    }
+
+    public getRetryPolicy(target: deploy_contracts.DeployTarget) {
+        return super.getRetryPolicy(target);
+    }
+
+    public prepareRetry(file: string, target: deploy_contracts.DeployTarget,
+                        err: any, canceled: boolean, retries: number) {
+        return super.prepareRetry(file, target, err, canceled, retries);
+    }
+}
+
+function createError(code: string) {
+    let err: any = new Error(code);
+    err.code = code;
+
+    return err;
+}
+
+suite("Objects Tests", () => {
+
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = FS.mkdtempSync(Path.join(OS.tmpdir(), 'vs-deploy-test-'));
+    });
+
+    teardown(() => {
+        FS.readdirSync(tempDir).forEach(f => {
+            FS.unlinkSync(Path.join(tempDir, f));
+        });
+        FS.rmdirSync(tempDir);
+    });
+
+    test("DeployTargetManifest.filterChangedFiles()", async () => {
+        let a = Path.join(tempDir, 'a.txt');
+        let b = Path.join(tempDir, 'b.txt');
+        let c = Path.join(tempDir, 'c.txt');
+
+        FS.writeFileSync(a, 'a');
+        FS.writeFileSync(b, 'b');
+        FS.writeFileSync(c, 'c');
+
+        let manifest = new deploy_objects.DeployTargetManifest({
+            name: 'test',
+            type: 'test',
+        });
+        await manifest.update(a);
+        await manifest.update(b);
+
+        // c.txt has not been deployed yet
+        assert.deepEqual([ c ], await manifest.filterChangedFiles([ a, b, c ]));
+
+        // same size, other content
+        FS.writeFileSync(a, 'A');
+        // other size
+        FS.writeFileSync(b, 'bb');
+        assert.deepEqual([ a, b, c ], await manifest.filterChangedFiles([ a, b, c ]));
+
+        await manifest.update(a);
+        assert.deepEqual([ b ], await manifest.filterChangedFiles([ a, b ]));
+    });
+
+    test("getRetryPolicy()", () => {
+        let plugin = new TestPlugin();
+
+        assert.equal(false, plugin.getRetryPolicy({ name: 'test' }));
+        assert.equal(false, plugin.getRetryPolicy({ name: 'test', retry: false }));
+
+        let policy = <deploy_contracts.DeployRetryPolicy>plugin.getRetryPolicy({ name: 'test', retry: true });
+        assert.equal(3, policy.attempts);
+        assert.equal(1000, policy.delay);
+        assert.equal(2, policy.factor);
+        assert.equal(30000, policy.maxDelay);
+        assert.ok((<string[]>policy.errors).indexOf('ECONNRESET') > -1);
+
+        policy = <deploy_contracts.DeployRetryPolicy>plugin.getRetryPolicy({
+            name: 'test',
+            retry: {
+                attempts: <any>'0',
+                delay: -1,
+                errors: [ ' econnreset ', '', '550' ],
+                factor: 0.5,
+                maxDelay: <any>'abc',
+            },
+        });
+        assert.equal(1, policy.attempts);
+        assert.equal(0, policy.delay);
+        assert.deepEqual([ 'ECONNRESET', '550' ], policy.errors);
+        assert.equal(1, policy.factor);
+        assert.equal(30000, policy.maxDelay);
+    });
+
+    test("prepareRetry()", async () => {
+        let plugin = new TestPlugin();
+        let file = Path.join(tempDir, 'a.txt');
+        let target: deploy_contracts.DeployTarget = {
+            name: 'test',
+            retry: {
+                attempts: 3,
+                delay: 0,
+                errors: [ 'ECONNRESET' ],
+            },
+        };
+
+        // no error, canceled or no transient error
+        assert.equal(false, await plugin.prepareRetry(file, target, null, false, 0));
+        assert.equal(false, await plugin.prepareRetry(file, target, createError('ECONNRESET'), true, 0));
+        assert.equal(false, await plugin.prepareRetry(file, target, createError('EACCES'), false, 0));
+        assert.equal(false, await plugin.prepareRetry(file, { name: 'test' }, createError('ECONNRESET'), false, 0));
+        assert.equal(0, plugin.messages.length);
+
+        assert.equal(true, await plugin.prepareRetry(file, target, createError('ECONNRESET'), false, 0));
+        assert.equal(true, await plugin.prepareRetry(file, target, createError('ECONNRESET'), false, 1));
+        assert.equal(2, plugin.messages.length);
+
+        // all attempts have been made
+        assert.equal(false, await plugin.prepareRetry(file, target, createError('ECONNRESET'), false, 2));
+
+        plugin.cancelling = true;
+        assert.equal(false, await plugin.prepareRetry(file, target, createError('ECONNRESET'), false, 0));
+    });
+
+});
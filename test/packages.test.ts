@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as deploy_contracts from '../src/contracts';
+import * as deploy_objects from '../src/objects';
+import * as deploy_packages from '../src/packages';
+import * as deploy_workspace from '../src/workspace';
+import * as Path from 'path';
+
+
+class TestManifest extends deploy_objects.DeployTargetManifest {
+    constructor(private readonly _files: string[]) {
+        super({
+            name: 'test',
+            type: 'test',
+        });
+    }
+
+    public get files(): string[] {
+        return this._files.map(f => Path.resolve(f));
+    }
+}
+
+suite("Package Tests", () => {
+
+    test("getMirrorSetting()", () => {
+        assert.equal(undefined, deploy_packages.getMirrorSetting());
+        assert.equal(undefined, deploy_packages.getMirrorSetting({ name: 'pkg' }));
+        assert.equal(undefined, deploy_packages.getMirrorSetting({ name: 'pkg', mirror: false }));
+
+        let filter = deploy_packages.getMirrorSetting({ name: 'pkg', mirror: true });
+        assert.equal('function', typeof filter);
+
+        // removed files
+        assert.equal(true, filter(Path.join(deploy_workspace.getRootPath(), 'does-not-exist.txt')));
+        // files outside of the workspace
+        assert.equal(false, filter(Path.resolve(deploy_workspace.getRootPath(), '..', 'does-not-exist.txt')));
+    });
+
+    test("getMirrorSetting() with files of other packages", () => {
+        let toFile = (p: string) => Path.join(deploy_workspace.getRootPath(), p);
+
+        let filter = deploy_packages.getMirrorSetting({
+            name: 'pkg',
+            mirror: true,
+            files: [ 'src/**' ],
+            exclude: [ 'src/**/*.tmp', 'src/cache' ],
+        });
+
+        assert.equal(true, filter(toFile('src/a.txt')));
+        assert.equal(true, filter(toFile('src/cache/a.txt')));
+        assert.equal(false, filter(toFile('docs/a.txt')));
+        assert.equal(false, filter(toFile('src/a.tmp')));
+
+        // directory patterns, like in .gitignore files
+        filter = deploy_packages.getMirrorSetting({
+            name: 'pkg',
+            mirror: true,
+            exclude: [ 'src/cache' ],
+            noNodeModules: true,
+        }, true);
+
+        assert.equal(true, filter(toFile('src/a.txt')));
+        assert.equal(false, filter(toFile('src/cache/a.txt')));
+        assert.equal(false, filter(toFile('node_modules/a.js')));
+    });
+
+    test("getMirrorSetting() with 'gitChanges'", () => {
+        let packages: deploy_contracts.DeployPackage[] = [
+            { name: 'pkg', mirror: true, gitChanges: true },
+            { name: 'pkg', mirror: true, gitChanges: {} },
+            { name: 'pkg', mirror: true, gitChanges: 'HEAD~1' },
+        ];
+
+        // a subset of files must never remove anything
+        packages.forEach(pkg => {
+            assert.equal(undefined, deploy_packages.getMirrorSetting(pkg));
+        });
+
+        assert.equal('function',
+                     typeof deploy_packages.getMirrorSetting({ name: 'pkg', mirror: true, gitChanges: false }));
+    });
+
+    test("DeployTargetManifest.getFilesToRemove()", () => {
+        let manifest = new TestManifest([ 'a.txt', 'b.txt', 'c.txt' ]);
+
+        assert.deepEqual([],
+                         manifest.getFilesToRemove([ 'a.txt', 'b.txt', 'c.txt' ]));
+        assert.deepEqual([ Path.resolve('b.txt') ],
+                         manifest.getFilesToRemove([ 'a.txt', Path.resolve('c.txt') ]));
+        assert.deepEqual([ Path.resolve('c.txt') ],
+                         manifest.getFilesToRemove([ 'a.txt' ], (f) => Path.basename(f) !== 'b.txt'));
+    });
+});
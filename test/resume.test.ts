@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as deploy_resume from '../src/resume';
+import * as Path from 'path';
+
+
+suite("Resume Tests", () => {
+
+    test("getRemainingFiles()", () => {
+        let session: deploy_resume.DeploymentSession = {
+            completed: [],
+            files: [ Path.resolve('a.txt'), Path.resolve('b.txt'), Path.resolve('c.txt') ],
+            id: 'test',
+            startTime: '2017-10-01T12:00:00.000Z',
+            target: 'test',
+            type: 'test',
+        };
+
+        assert.deepEqual(session.files, deploy_resume.getRemainingFiles(session));
+
+        // paths are compared normalized
+        session.completed = [ 'b.txt', Path.resolve('sub', '..', 'a.txt') ];
+        assert.deepEqual([ Path.resolve('c.txt') ], deploy_resume.getRemainingFiles(session));
+
+        session.completed.push(Path.resolve('c.txt'));
+        assert.deepEqual([], deploy_resume.getRemainingFiles(session));
+
+        // old or invalid sessions
+        session.completed = undefined;
+        assert.deepEqual(session.files, deploy_resume.getRemainingFiles(session));
+    });
+
+});
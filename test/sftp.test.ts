@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as deploy_sftp from '../src/plugins/sftp';
+
+
+suite("SFTP Tests", () => {
+
+    test("createReleaseName()", () => {
+        let names: string[] = [];
+        for (let i = 0; i < 100; i++) {
+            names.push(deploy_sftp.createReleaseName());
+        }
+
+        names.forEach(n => {
+            assert.ok(/^([0-9]{17})(\-)([0-9a-f]{8})$/.test(n), n);
+        });
+
+        // unique, even if created at the same time
+        assert.equal(names.length,
+                     names.filter((n, i) => names.indexOf(n) === i).length);
+
+        // sortable by time
+        let older = names[0];
+        return new Promise<any>((resolve) => {
+            setTimeout(() => {
+                let newer = deploy_sftp.createReleaseName();
+                assert.deepEqual([ older, newer ], [ newer, older ].sort());
+
+                resolve();
+            }, 5);
+        });
+    });
+
+    test("getReleases()", () => {
+        let plugin: any = deploy_sftp.createPlugin(<any>{
+            replaceWithValues: (val: any) => val,
+        });
+
+        assert.equal(null, plugin.getReleases({ name: 'test', dir: '/var/www' }));
+        assert.equal(null, plugin.getReleases({ name: 'test', dir: '/var/www', releases: false }));
+
+        assert.deepEqual({
+            current: '/var/www/current',
+            dir: '/var/www/releases',
+            keep: 5,
+        }, plugin.getReleases({ name: 'test', dir: '/var/www', releases: true }));
+
+        assert.deepEqual({
+            current: '/srv/site',
+            dir: '/var/www/data/releases',
+            keep: 5,
+        }, plugin.getReleases({
+            name: 'test',
+            dir: '/var/www',
+            releases: {
+                current: '/srv/site',
+                dir: 'data/releases',
+                keep: 0,
+            },
+        }));
+
+        assert.equal(2, plugin.getReleases({ name: 'test', releases: { keep: '2' } }).keep);
+        assert.equal('/current', plugin.getReleases({ name: 'test', releases: true }).current);
+    });
+
+});
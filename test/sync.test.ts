@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as deploy_sync from '../src/sync';
+import * as Moment from 'moment';
+
+
+suite("Sync Tests", () => {
+
+    test("hasChanged() without versions", () => {
+        assert.equal(true, deploy_sync.hasChanged(undefined, { exists: true, isRemote: false }));
+        assert.equal(true, deploy_sync.hasChanged({ size: 1 }, undefined));
+        assert.equal(true, deploy_sync.hasChanged({ size: 1 }, { exists: false, isRemote: true }));
+    });
+
+    test("hasChanged() by size and time", () => {
+        let time = Moment.utc('2017-10-01T12:00:00Z');
+        let version: deploy_sync.SyncFileVersion = {
+            modifyTime: time.valueOf(),
+            size: 3,
+        };
+
+        assert.equal(false, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, modifyTime: time.clone(), size: 3,
+        }));
+        assert.equal(true, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, modifyTime: time.clone(), size: 4,
+        }));
+        assert.equal(true, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, modifyTime: time.clone().add(1, 'second'), size: 3,
+        }));
+    });
+
+    test("hasChanged() by hash", () => {
+        let time = Moment.utc('2017-10-01T12:00:00Z');
+        let version: deploy_sync.SyncFileVersion = {
+            hash: 'md5:abc',
+            modifyTime: time.valueOf(),
+            size: 3,
+        };
+
+        // content is the same, even if time has changed
+        assert.equal(false, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, hash: 'ABC', hashAlgorithm: 'MD5',
+            modifyTime: time.clone().add(1, 'hour'), size: 3,
+        }));
+        assert.equal(true, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, hash: 'def', hashAlgorithm: 'md5',
+            modifyTime: time.clone(), size: 3,
+        }));
+
+        // no hash => compare size and time
+        assert.equal(false, deploy_sync.hasChanged(version, {
+            exists: true, isRemote: true, modifyTime: time.clone(), size: 3,
+        }));
+    });
+});